@@ -24,6 +24,16 @@ const nextConfig: NextConfig = {
             value: 'origin-when-cross-origin'
           }
         ]
+      },
+      {
+        // Browsers must always check for a new service worker
+        source: '/sw.js',
+        headers: [
+          {
+            key: 'Cache-Control',
+            value: 'no-cache, no-store, must-revalidate'
+          }
+        ]
       }
     ]
   }
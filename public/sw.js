@@ -0,0 +1,106 @@
+// SickSquares service worker. Keeps the app shell and the last grid, stats,
+// user and session responses so the home page renders offline.
+//
+// Bump VERSION whenever the caching rules change; old caches are dropped on
+// activation. The API cache name must match API_CACHE_NAME in src/lib/app.ts.
+const VERSION = 'v1'
+const SHELL_CACHE = `sicksquares-shell-${VERSION}`
+const API_CACHE = 'sicksquares-api-v1'
+
+const SHELL_URLS = ['/', '/manifest.webmanifest', '/icons/icon-192.png', '/icons/icon-512.png']
+
+// GET endpoints whose latest response is kept for offline use
+const CACHED_API_PATHS = ['/api/grid', '/api/grid/years', '/api/stats', '/api/user', '/api/auth/session']
+
+// The rolling range moves every day, so offline it falls back to the last
+// range fetched. Other parameters (year, category) must match exactly.
+const ROLLING_PARAMS = ['startDate', 'endDate']
+
+function cacheSlot(url) {
+  const slot = new URL(url)
+  ROLLING_PARAMS.forEach(param => slot.searchParams.delete(param))
+  slot.searchParams.sort()
+  return slot.href
+}
+
+self.addEventListener('install', event => {
+  event.waitUntil(
+    caches.open(SHELL_CACHE)
+      .then(cache => cache.addAll(SHELL_URLS))
+      .then(() => self.skipWaiting())
+  )
+})
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(
+        keys
+          .filter(key => key !== SHELL_CACHE && key !== API_CACHE)
+          .map(key => caches.delete(key))
+      ))
+      .then(() => self.clients.claim())
+  )
+})
+
+self.addEventListener('fetch', event => {
+  const { request } = event
+  const url = new URL(request.url)
+
+  if (request.method !== 'GET' || url.origin !== self.location.origin) {
+    return
+  }
+
+  if (CACHED_API_PATHS.includes(url.pathname)) {
+    event.respondWith(networkFirst(request, API_CACHE, true))
+  } else if (url.pathname.startsWith('/_next/static/') || url.pathname.startsWith('/icons/')) {
+    // Hashed build assets never change under the same URL
+    event.respondWith(cacheFirst(request, SHELL_CACHE))
+  } else if (request.mode === 'navigate' && url.pathname === '/') {
+    event.respondWith(networkFirst(request, SHELL_CACHE, false))
+  }
+})
+
+// Finds the entry stored in the same slot, whatever its rolling range
+async function matchSlot(cache, request) {
+  const slot = cacheSlot(request.url)
+  const keys = await cache.keys()
+  return keys.filter(key => cacheSlot(key.url) === slot)
+}
+
+async function networkFirst(request, cacheName, latestOnly) {
+  const cache = await caches.open(cacheName)
+  try {
+    const response = await fetch(request)
+    if (response.ok) {
+      if (latestOnly) {
+        // Keep only the latest response per slot
+        const stale = await matchSlot(cache, request)
+        await Promise.all(stale.map(key => cache.delete(key)))
+      }
+      await cache.put(request, response.clone())
+    }
+    return response
+  } catch (error) {
+    const [slotKey] = latestOnly ? await matchSlot(cache, request) : []
+    const cached = await cache.match(slotKey || request)
+    if (cached) {
+      return cached
+    }
+    throw error
+  }
+}
+
+async function cacheFirst(request, cacheName) {
+  const cache = await caches.open(cacheName)
+  const cached = await cache.match(request)
+  if (cached) {
+    return cached
+  }
+
+  const response = await fetch(request)
+  if (response.ok) {
+    await cache.put(request, response.clone())
+  }
+  return response
+}
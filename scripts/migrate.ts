@@ -0,0 +1,49 @@
+// Usage:
+//   npm run db:migrate            apply all pending migrations
+//   npm run db:migrate -- 3       apply pending migrations up to version 3
+//   npm run db:rollback           revert the latest migration
+//   npm run db:rollback -- 2      revert the latest two migrations
+//   npm run db:status             show applied and pending migrations
+import { loadEnvConfig } from '@next/env'
+
+loadEnvConfig(process.cwd())
+
+async function main() {
+  // Imported after the env is loaded because the pool reads POSTGRES_URL on import
+  const { pool } = await import('../src/lib/database')
+  const { getSchemaStatus, migrateDown, migrateUp } = await import('../src/lib/migrate')
+
+  const [command = 'status', arg] = process.argv.slice(2)
+
+  try {
+    switch (command) {
+      case 'up': {
+        const applied = await migrateUp(arg ? parseInt(arg) : undefined)
+        console.log(applied.length > 0 ? `Applied ${applied.length} migration(s)` : 'Schema is up to date')
+        break
+      }
+      case 'down': {
+        const reverted = await migrateDown(arg ? parseInt(arg) : 1)
+        console.log(reverted.length > 0 ? `Reverted ${reverted.length} migration(s)` : 'Nothing to revert')
+        break
+      }
+      case 'status': {
+        const status = await getSchemaStatus()
+        console.log(`Current version: ${status.currentVersion}`)
+        console.log(`Latest version:  ${status.latestVersion}`)
+        status.pending.forEach(migration => console.log(`Pending: ${migration.version}_${migration.name}`))
+        break
+      }
+      default:
+        console.error(`Unknown command "${command}". Use up, down or status.`)
+        process.exitCode = 1
+    }
+  } finally {
+    await pool.end()
+  }
+}
+
+main().catch(error => {
+  console.error(error)
+  process.exit(1)
+})
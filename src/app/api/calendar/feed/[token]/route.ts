@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getCalendarOptions } from '@/lib/calendar'
+import { getUserByCalendarToken, getUserSickPeriods } from '@/lib/database'
+import { buildCalendar } from '@/lib/ical'
+import { rateLimit } from '@/lib/ratelimit'
+
+// Subscription feed polled by calendar apps. The token in the URL is the only
+// credential, so it works regardless of whether the profile is public.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    // Calendar apps want URLs ending in .ics
+    const token = (await params).token.replace(/\.ics$/, '')
+
+    // Rate limiting: 30 polls per minute per feed
+    if (!rateLimit(`calendar-feed:${token}`, 30, 60000)) {
+      return NextResponse.json({ error: 'Too many requests' }, { status: 429 })
+    }
+
+    const user = await getUserByCalendarToken(token)
+    if (!user) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 })
+    }
+
+    const periods = await getUserSickPeriods(user.id)
+
+    return new Response(buildCalendar(periods, getCalendarOptions(user)), {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Cache-Control': 'private, max-age=900'
+      }
+    })
+  } catch (error) {
+    console.error('Error serving calendar feed:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
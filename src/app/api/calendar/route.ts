@@ -0,0 +1,47 @@
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { calendarFilename, getCalendarOptions } from '@/lib/calendar'
+import { ensureUser, getUserSickPeriods } from '@/lib/database'
+import { buildCalendar } from '@/lib/ical'
+import { rateLimit } from '@/lib/ratelimit'
+
+// Download of the signed-in user's sick periods as an .ics file
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const userId = session.user.id || session.user.email
+
+    // Rate limiting: 5 downloads per minute per user, separate from CSV exports
+    if (!rateLimit(`calendar-download:${userId}`, 5, 60000)) {
+      return NextResponse.json({ error: 'Too many requests' }, { status: 429 })
+    }
+
+    // Ensure user exists in database
+    const user = await ensureUser({
+      id: userId,
+      email: session.user.email,
+      name: session.user.name || undefined,
+      image: session.user.image || undefined,
+      login: session.user.login || undefined
+    })
+
+    const periods = await getUserSickPeriods(userId)
+
+    return new Response(buildCalendar(periods, getCalendarOptions(user)), {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${calendarFilename(user)}"`,
+        'Cache-Control': 'no-store'
+      }
+    })
+  } catch (error) {
+    console.error('Error exporting calendar:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,81 @@
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { generateCalendarToken } from '@/lib/calendar'
+import { ensureUser, getCalendarToken, setCalendarToken } from '@/lib/database'
+import { rateLimit } from '@/lib/ratelimit'
+
+// The feed lives at /api/calendar/feed/<token>.ics; clients build the full
+// URL from the token since only they know the origin they were served from.
+
+async function getSessionUserId() {
+  const session = await getServerSession(authOptions)
+
+  if (!session?.user?.email) {
+    return null
+  }
+
+  const userId = session.user.id || session.user.email
+
+  // Ensure user exists in database
+  await ensureUser({
+    id: userId,
+    email: session.user.email,
+    name: session.user.name || undefined,
+    image: session.user.image || undefined,
+    login: session.user.login || undefined
+  })
+
+  return userId
+}
+
+export async function GET() {
+  try {
+    const userId = await getSessionUserId()
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    return NextResponse.json({ token: await getCalendarToken(userId) })
+  } catch (error) {
+    console.error('Error fetching calendar subscription:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// Creates the subscription, or replaces it so the old URL stops working
+export async function POST() {
+  try {
+    const userId = await getSessionUserId()
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    // Rate limiting: 5 new links per minute per user
+    if (!rateLimit(`calendar:${userId}`, 5, 60000)) {
+      return NextResponse.json({ error: 'Too many requests' }, { status: 429 })
+    }
+
+    const token = generateCalendarToken()
+    await setCalendarToken(userId, token)
+    return NextResponse.json({ token })
+  } catch (error) {
+    console.error('Error creating calendar subscription:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+export async function DELETE() {
+  try {
+    const userId = await getSessionUserId()
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    await setCalendarToken(userId, null)
+    return NextResponse.json({ token: null })
+  } catch (error) {
+    console.error('Error revoking calendar subscription:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { canViewGrid } from '@/lib/access'
+import { getUserByUsername, getUserGridDataByDateRange } from '@/lib/database'
+import { generateRolling12Months, generateYearDates, getTodayInTimeZone, DEFAULT_TIMEZONE } from '@/lib/dates'
+import { EMBED_CACHE_CONTROL, EMBED_SIZES, EmbedSize, layoutEmbed, renderEmbedSvg } from '@/lib/embed'
+import { renderEmbedPng } from '@/lib/embedImage'
+import { getIntensityScale } from '@/lib/intensity'
+import { getClientIp, rateLimit } from '@/lib/ratelimit'
+import { getTheme, isThemeId } from '@/lib/themes'
+
+// Picture of a public profile's grid, as /api/embed/<username>.svg or .png.
+// Query parameters: size (small, medium, large), theme (a theme id; defaults to
+// the owner's), mode (light, dark) and range (rolling for the last 12 months,
+// or a year).
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ username: string }> }
+) {
+  try {
+    // Rate limiting: 60 renders per minute per client, on top of caching.
+    // Keyed by caller rather than profile so nobody can exhaust someone
+    // else's embed.
+    if (!rateLimit(`embed:${getClientIp(request.headers)}`, 60, 60000)) {
+      return NextResponse.json({ error: 'Too many requests' }, { status: 429 })
+    }
+
+    let rawUsername: string
+    try {
+      rawUsername = decodeURIComponent((await params).username)
+    } catch {
+      return NextResponse.json({ error: 'Invalid username' }, { status: 400 })
+    }
+
+    const match = /^(.+?)(?:\.(svg|png))?$/.exec(rawUsername)
+    const username = (match?.[1] ?? '').toLowerCase()
+    const format = match?.[2] ?? 'svg'
+
+    const { searchParams } = new URL(request.url)
+    const size = (searchParams.get('size') || 'medium') as EmbedSize
+    const themeParam = searchParams.get('theme')
+    const mode = searchParams.get('mode') || 'light'
+    const range = searchParams.get('range') || 'rolling'
+
+    if (!Object.keys(EMBED_SIZES).includes(size)) {
+      return NextResponse.json({ error: 'Size must be small, medium or large' }, { status: 400 })
+    }
+
+    if (themeParam !== null && !isThemeId(themeParam)) {
+      return NextResponse.json({ error: 'Unknown theme' }, { status: 400 })
+    }
+
+    if (mode !== 'light' && mode !== 'dark') {
+      return NextResponse.json({ error: 'Mode must be light or dark' }, { status: 400 })
+    }
+
+    if (range !== 'rolling' && !/^\d{4}$/.test(range)) {
+      return NextResponse.json({ error: 'Range must be rolling or a year' }, { status: 400 })
+    }
+
+    // Private and missing profiles are indistinguishable from the outside.
+    // Embeds are cached publicly, so they are always checked as a stranger.
+    const user = await getUserByUsername(username)
+    if (!user || !canViewGrid(user, null)) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 })
+    }
+
+    // Drawn as the owner sees it, in their timezone
+    const today = getTodayInTimeZone(user.timezone || DEFAULT_TIMEZONE)
+    const year = range === 'rolling' ? undefined : Number(range)
+    if (year !== undefined && year > Number(today.slice(0, 4))) {
+      return NextResponse.json({ error: 'Year is in the future' }, { status: 400 })
+    }
+
+    const dates = year ? generateYearDates(year) : generateRolling12Months(today)
+    const gridData = await getUserGridDataByDateRange(user.id, dates[0], dates[dates.length - 1])
+
+    const layout = layoutEmbed({
+      title: year ? `@${user.username} in ${year}` : `@${user.username}, last 12 months`,
+      dates,
+      intensities: new Map(gridData.map(square => [square.date, square.intensity])),
+      today,
+      year,
+      theme: getTheme(themeParam ?? user.theme),
+      dark: mode === 'dark',
+      scale: getIntensityScale(user.intensity_levels, user.intensity_labels),
+      cellSize: EMBED_SIZES[size],
+    })
+
+    if (format === 'png') {
+      return renderEmbedPng(layout, { 'Cache-Control': EMBED_CACHE_CONTROL })
+    }
+
+    return new Response(renderEmbedSvg(layout), {
+      headers: {
+        'Content-Type': 'image/svg+xml; charset=utf-8',
+        'Cache-Control': EMBED_CACHE_CONTROL,
+        // Opened directly, the SVG must not be able to run anything
+        'Content-Security-Policy': "default-src 'none'; style-src 'unsafe-inline'"
+      }
+    })
+  } catch (error) {
+    console.error('Error rendering embed:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
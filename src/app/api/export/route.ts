@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { ensureUser, getUserGridDataPage } from '@/lib/database'
+import { getTodayInTimeZone, DEFAULT_TIMEZONE } from '@/lib/dates'
+import { csvHeader, toCsvRow, toExportRow, ExportFormat, EXPORT_SCHEMA_VERSION } from '@/lib/export'
+import { getIntensityScale } from '@/lib/intensity'
+import { rateLimit } from '@/lib/ratelimit'
+
+// Rows fetched per query while streaming
+const PAGE_SIZE = 500
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const userId = session.user.id || session.user.email
+
+    // Rate limiting: 5 exports per minute per user
+    if (!rateLimit(`export:${userId}`, 5, 60000)) {
+      return NextResponse.json({ error: 'Too many requests' }, { status: 429 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const format = (searchParams.get('format') || 'csv') as ExportFormat
+    if (format !== 'csv' && format !== 'json') {
+      return NextResponse.json({ error: 'Format must be csv or json' }, { status: 400 })
+    }
+
+    // Ensure user exists in database
+    const user = await ensureUser({
+      id: userId,
+      email: session.user.email,
+      name: session.user.name || undefined,
+      image: session.user.image || undefined,
+      login: session.user.login || undefined
+    })
+
+    const scale = getIntensityScale(user.intensity_levels, user.intensity_labels)
+    const encoder = new TextEncoder()
+    let afterDate: string | null = null
+    let started = false
+    let finished = false
+
+    const stream = new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        try {
+          if (!started) {
+            started = true
+            controller.enqueue(encoder.encode(
+              format === 'csv'
+                ? csvHeader()
+                : `{"schema_version":${EXPORT_SCHEMA_VERSION},"exported_at":${JSON.stringify(new Date().toISOString())},"days":[`
+            ))
+            return
+          }
+
+          if (finished) {
+            controller.close()
+            return
+          }
+
+          const page = await getUserGridDataPage(userId, afterDate, PAGE_SIZE)
+          const rows = page.map(square => toExportRow(square, scale))
+          const chunk = format === 'csv'
+            ? rows.map(toCsvRow).join('')
+            : rows.map((row, index) => `${afterDate === null && index === 0 ? '' : ','}\n${JSON.stringify(row)}`).join('')
+
+          if (page.length < PAGE_SIZE) {
+            finished = true
+            controller.enqueue(encoder.encode(format === 'csv' ? chunk : `${chunk}\n]}\n`))
+          } else {
+            afterDate = page[page.length - 1].date
+            controller.enqueue(encoder.encode(chunk))
+          }
+        } catch (error) {
+          console.error('Error streaming export:', error)
+          controller.error(error)
+        }
+      }
+    })
+
+    const today = getTodayInTimeZone(user.timezone || DEFAULT_TIMEZONE)
+    const filename = `sicksquares-${user.username || 'export'}-${today}.${format}`
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': format === 'csv' ? 'text/csv; charset=utf-8' : 'application/json; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Cache-Control': 'no-store'
+      }
+    })
+  } catch (error) {
+    console.error('Error exporting grid data:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
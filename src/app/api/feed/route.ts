@@ -0,0 +1,55 @@
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { canViewActivity } from '@/lib/access'
+import { authOptions } from '@/lib/auth'
+import { ensureUser, getFollowedUsers, getSickDatesForUsers } from '@/lib/database'
+import { getTodayInTimeZone, DEFAULT_TIMEZONE } from '@/lib/dates'
+import { getFeedStartDate, summarizeWeeks } from '@/lib/feed'
+
+// Weekly sick-day counts of followed users who share their activity, over the
+// last few weeks of the viewer's calendar, newest first. Only counts leave the
+// server: no dates, intensities or notes.
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const userId = session.user.id || session.user.email
+
+    // Ensure user exists in database
+    const user = await ensureUser({
+      id: userId,
+      email: session.user.email,
+      name: session.user.name || undefined,
+      image: session.user.image || undefined,
+      login: session.user.login || undefined
+    })
+
+    const followed = (await getFollowedUsers(userId)).filter(followee => canViewActivity(followee, userId))
+    if (followed.length === 0) {
+      return NextResponse.json({ items: [] })
+    }
+
+    const today = getTodayInTimeZone(user.timezone || DEFAULT_TIMEZONE)
+    const sickDates = await getSickDatesForUsers(followed.map(followee => followee.id), getFeedStartDate(today), today)
+
+    const items = followed
+      .flatMap(followee => summarizeWeeks(
+        sickDates.filter(row => row.user_id === followee.id).map(row => row.date)
+      ).map(week => ({
+        username: followee.username,
+        name: followee.name,
+        image: followee.image,
+        ...week,
+      })))
+      .sort((a, b) => b.weekStart.localeCompare(a.weekStart) || b.sickDays - a.sickDays)
+
+    return NextResponse.json({ items })
+  } catch (error) {
+    console.error('Error fetching activity feed:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
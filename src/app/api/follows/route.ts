@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { canFollow, canViewGrid } from '@/lib/access'
+import { authOptions } from '@/lib/auth'
+import { ensureUser, followUser, getFollowedUsers, getUserByUsername, unfollowUser } from '@/lib/database'
+import { rateLimit } from '@/lib/ratelimit'
+
+// Everyone the signed-in user follows. `visible` is false for people who have
+// made their grid private since; they stay followed in case it comes back.
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const userId = session.user.id || session.user.email
+
+    // Ensure user exists in database
+    const user = await ensureUser({
+      id: userId,
+      email: session.user.email,
+      name: session.user.name || undefined,
+      image: session.user.image || undefined,
+      login: session.user.login || undefined
+    })
+
+    const followed = await getFollowedUsers(userId)
+
+    return NextResponse.json({
+      username: user.username,
+      following: followed.map(followee => {
+        const visible = canViewGrid(followee, userId)
+        return {
+          username: followee.username,
+          name: visible ? followee.name : null,
+          image: visible ? followee.image : null,
+          visible,
+        }
+      })
+    })
+  } catch (error) {
+    console.error('Error fetching follows:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const userId = session.user.id || session.user.email
+
+    // Rate limiting: 30 follows per minute per user
+    if (!rateLimit(`follows:${userId}`, 30, 60000)) {
+      return NextResponse.json({ error: 'Too many requests' }, { status: 429 })
+    }
+
+    const body = await request.json()
+    if (typeof body.username !== 'string') {
+      return NextResponse.json({ error: 'Username is required' }, { status: 400 })
+    }
+
+    // Ensure user exists in database
+    await ensureUser({
+      id: userId,
+      email: session.user.email,
+      name: session.user.name || undefined,
+      image: session.user.image || undefined,
+      login: session.user.login || undefined
+    })
+
+    const followee = await getUserByUsername(body.username.trim().toLowerCase())
+    if (followee && followee.id === userId) {
+      return NextResponse.json({ error: 'You cannot follow yourself' }, { status: 400 })
+    }
+
+    // Private and missing profiles are indistinguishable from the outside
+    if (!followee || !canFollow(followee, userId)) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 })
+    }
+
+    await followUser(userId, followee.id)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error following user:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// Unfollowing always works, even once the grid has gone private
+export async function DELETE(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const userId = session.user.id || session.user.email
+
+    const { searchParams } = new URL(request.url)
+    const username = searchParams.get('username')
+    if (!username) {
+      return NextResponse.json({ error: 'Username is required' }, { status: 400 })
+    }
+
+    const followee = await getUserByUsername(username.toLowerCase())
+    if (followee) {
+      await unfollowUser(userId, followee.id)
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error unfollowing user:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { ensureUser, GridBatchConflictError, updateGridSquares, type GridEntry } from '@/lib/database'
+import { getTodayInTimeZone, DEFAULT_TIMEZONE } from '@/lib/dates'
+import { rateLimit } from '@/lib/ratelimit'
+import { getIntensityScale, getMaxIntensity } from '@/lib/intensity'
+import { validateGridEntry } from '@/lib/validation'
+
+// Enough for every day shown in the rolling 12-month grid
+const MAX_BATCH_SIZE = 400
+
+// Applies a list of { date, intensity, expectedUpdatedAt } changes atomically:
+// either every change is valid and saved, or nothing is. expectedUpdatedAt is
+// the optimistic concurrency check of POST /api/grid, per day.
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const userId = session.user.id || session.user.email
+
+    // A batch counts as one update against the same limit as POST /api/grid
+    if (!rateLimit(userId, 30, 60000)) {
+      return NextResponse.json({ error: 'Too many requests' }, { status: 429 })
+    }
+
+    const { changes } = await request.json()
+
+    if (!Array.isArray(changes) || changes.length === 0) {
+      return NextResponse.json({ error: 'Changes must be a non-empty array' }, { status: 400 })
+    }
+
+    if (changes.length > MAX_BATCH_SIZE) {
+      return NextResponse.json({ error: `A batch can change at most ${MAX_BATCH_SIZE} days` }, { status: 400 })
+    }
+
+    // Ensure user exists in database
+    const user = await ensureUser({
+      id: userId,
+      email: session.user.email,
+      name: session.user.name || undefined,
+      image: session.user.image || undefined,
+      login: session.user.login || undefined
+    })
+
+    // Same rules as a single update; "today" is judged in the user's timezone
+    const today = getTodayInTimeZone(user.timezone || DEFAULT_TIMEZONE)
+    const maxIntensity = getMaxIntensity(getIntensityScale(user.intensity_levels, user.intensity_labels))
+    const seen = new Set<string>()
+    for (const change of changes) {
+      const { date, intensity, expectedUpdatedAt } = (change ?? {}) as { date?: unknown; intensity?: unknown; expectedUpdatedAt?: unknown }
+      const entryError = validateGridEntry(date, intensity, today, maxIntensity)
+      if (entryError) {
+        return NextResponse.json({ error: `${String(date)}: ${entryError}` }, { status: 400 })
+      }
+      if (expectedUpdatedAt !== undefined && expectedUpdatedAt !== null &&
+          (typeof expectedUpdatedAt !== 'string' || isNaN(Date.parse(expectedUpdatedAt)))) {
+        return NextResponse.json({ error: `${date}: expectedUpdatedAt must be a timestamp or null` }, { status: 400 })
+      }
+      if (seen.has(date as string)) {
+        return NextResponse.json({ error: `${date}: Date appears more than once` }, { status: 400 })
+      }
+      seen.add(date as string)
+    }
+
+    const squares = await updateGridSquares(
+      userId,
+      changes.map(({ date, intensity, expectedUpdatedAt }: GridEntry) => ({ date, intensity, expectedUpdatedAt })),
+      true
+    )
+
+    // The saved rows carry the new updated_at the client needs for its next edit
+    return NextResponse.json({ updated: squares.length, squares })
+  } catch (error) {
+    if (error instanceof GridBatchConflictError) {
+      return NextResponse.json({ error: 'Some of these days were changed elsewhere', squares: error.current }, { status: 409 })
+    }
+    console.error('Error updating grid squares:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -1,8 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
-import { getUserGridData, getUserGridDataByDateRange, updateGridSquare, ensureUser } from '@/lib/database'
+import { getUserGridData, getUserGridDataByDateRange, updateGridSquare, ensureUser, GridConflictError } from '@/lib/database'
+import { isIllnessCategory } from '@/lib/categories'
+import { getTodayInTimeZone, DEFAULT_TIMEZONE } from '@/lib/dates'
 import { rateLimit } from '@/lib/ratelimit'
+import { normalizeTag, validateTag, MAX_NOTES_LENGTH, MAX_TAGS_PER_DAY } from '@/lib/tags'
+import { getIntensityScale, getMaxIntensity } from '@/lib/intensity'
+import { validateGridEntry } from '@/lib/validation'
 
 export async function GET(request: NextRequest) {
   try {
@@ -24,7 +29,8 @@ export async function GET(request: NextRequest) {
       id: userId,
       email: session.user.email,
       name: session.user.name || undefined,
-      image: session.user.image || undefined
+      image: session.user.image || undefined,
+      login: session.user.login || undefined
     })
 
     let gridData
@@ -61,45 +67,69 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json()
-    const { date, intensity } = body
+    const { date, intensity, notes, tags, category, expectedUpdatedAt } = body
 
-    // Validate required fields
-    if (!date || intensity === undefined) {
-      return NextResponse.json({ error: 'Date and intensity are required' }, { status: 400 })
+    // Validate notes
+    if (notes !== undefined && notes !== null && (typeof notes !== 'string' || notes.length > MAX_NOTES_LENGTH)) {
+      return NextResponse.json({ error: `Notes must be text of at most ${MAX_NOTES_LENGTH} characters` }, { status: 400 })
     }
 
-    // Validate intensity
-    if (typeof intensity !== 'number' || intensity < 0 || intensity > 4) {
-      return NextResponse.json({ error: 'Intensity must be a number between 0 and 4' }, { status: 400 })
+    // Validate tags
+    let normalizedTags: string[] | undefined
+    if (tags !== undefined) {
+      if (!Array.isArray(tags) || tags.some(tag => typeof tag !== 'string')) {
+        return NextResponse.json({ error: 'Tags must be an array of strings' }, { status: 400 })
+      }
+      normalizedTags = Array.from(new Set(tags.map(normalizeTag)))
+      if (normalizedTags.length > MAX_TAGS_PER_DAY) {
+        return NextResponse.json({ error: `A day can have at most ${MAX_TAGS_PER_DAY} tags` }, { status: 400 })
+      }
+      const tagError = normalizedTags.map(validateTag).find(Boolean)
+      if (tagError) {
+        return NextResponse.json({ error: tagError }, { status: 400 })
+      }
     }
 
-    // Validate date format (YYYY-MM-DD)
-    const dateRegex = /^\d{4}-\d{2}-\d{2}$/
-    if (!dateRegex.test(date)) {
-      return NextResponse.json({ error: 'Date must be in YYYY-MM-DD format' }, { status: 400 })
+    // Validate the optimistic concurrency check: the updated_at the client last
+    // saw, or null if the day had no entry
+    if (expectedUpdatedAt !== undefined && expectedUpdatedAt !== null &&
+        (typeof expectedUpdatedAt !== 'string' || isNaN(Date.parse(expectedUpdatedAt)))) {
+      return NextResponse.json({ error: 'expectedUpdatedAt must be a timestamp or null' }, { status: 400 })
     }
 
-    // Prevent future dates
-    const dateObj = new Date(date)
-    const today = new Date()
-    today.setHours(23, 59, 59, 999)
-    
-    if (dateObj > today) {
-      return NextResponse.json({ error: 'Cannot modify future dates' }, { status: 400 })
+    // Validate category
+    if (category !== undefined && category !== null && (typeof category !== 'string' || !isIllnessCategory(category))) {
+      return NextResponse.json({ error: 'Unknown category' }, { status: 400 })
     }
 
     // Ensure user exists in database
-    await ensureUser({
+    const user = await ensureUser({
       id: userId,
       email: session.user.email,
       name: session.user.name || undefined,
-      image: session.user.image || undefined
+      image: session.user.image || undefined,
+      login: session.user.login || undefined
     })
 
-    const updatedSquare = await updateGridSquare(userId, date, intensity)
+    // Validate date and intensity; "today" is judged in the user's timezone and
+    // the intensity against the user's own scale
+    const scale = getIntensityScale(user.intensity_levels, user.intensity_labels)
+    const entryError = validateGridEntry(date, intensity, getTodayInTimeZone(user.timezone || DEFAULT_TIMEZONE), getMaxIntensity(scale))
+    if (entryError) {
+      return NextResponse.json({ error: entryError }, { status: 400 })
+    }
+
+    const updatedSquare = await updateGridSquare(userId, date, intensity, {
+      notes: notes === undefined ? undefined : (notes?.trim() || null),
+      tags: normalizedTags,
+      category
+    }, expectedUpdatedAt)
     
     return NextResponse.json({ square: updatedSquare })
   } catch (error) {
+    if (error instanceof GridConflictError) {
+      return NextResponse.json({ error: 'This day was changed elsewhere', square: error.current }, { status: 409 })
+    }
     console.error('Error updating grid square:', error)
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
   }
@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { ensureUser, getUserGridYears } from '@/lib/database'
+
+// Years the user has logged days in, for the history year switcher
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const userId = session.user.id || session.user.email
+
+    // Ensure user exists in database
+    await ensureUser({
+      id: userId,
+      email: session.user.email,
+      name: session.user.name || undefined,
+      image: session.user.image || undefined,
+      login: session.user.login || undefined
+    })
+
+    const years = await getUserGridYears(userId)
+
+    return NextResponse.json({ years })
+  } catch (error) {
+    console.error('Error fetching grid years:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
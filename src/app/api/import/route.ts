@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { ensureUser, getExistingGridDates, updateGridSquares } from '@/lib/database'
+import { getTodayInTimeZone, isValidDateKey, DEFAULT_TIMEZONE } from '@/lib/dates'
+import {
+  parseImport,
+  planImport,
+  summarizeImport,
+  toGridEntries,
+  getDefaultIcsIntensity,
+  ConflictStrategy,
+  ImportFormat,
+  MAX_IMPORT_BYTES
+} from '@/lib/import'
+import { getIntensityScale, getMaxIntensity } from '@/lib/intensity'
+import { rateLimit } from '@/lib/ratelimit'
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const userId = session.user.id || session.user.email
+
+    // Rate limiting: 10 imports or previews per minute per user
+    if (!rateLimit(`import:${userId}`, 10, 60000)) {
+      return NextResponse.json({ error: 'Too many requests' }, { status: 429 })
+    }
+
+    const body = await request.json()
+    const { content, dryRun = false, intensity } = body
+    const format = (body.format || 'csv') as ImportFormat
+    const conflictStrategy = (body.conflictStrategy || 'overwrite') as ConflictStrategy
+
+    if (format !== 'csv' && format !== 'json' && format !== 'ics') {
+      return NextResponse.json({ error: 'Format must be csv, json or ics' }, { status: 400 })
+    }
+
+    if (conflictStrategy !== 'overwrite' && conflictStrategy !== 'skip') {
+      return NextResponse.json({ error: 'Conflict strategy must be overwrite or skip' }, { status: 400 })
+    }
+
+    if (typeof content !== 'string' || content.length === 0) {
+      return NextResponse.json({ error: 'File content is required' }, { status: 400 })
+    }
+
+    if (content.length > MAX_IMPORT_BYTES) {
+      return NextResponse.json({ error: 'File is too large' }, { status: 413 })
+    }
+
+    // Ensure user exists in database
+    const user = await ensureUser({
+      id: userId,
+      email: session.user.email,
+      name: session.user.name || undefined,
+      image: session.user.image || undefined,
+      login: session.user.login || undefined
+    })
+
+    // Intensities are checked against the user's own scale, not the 5-level default
+    const scale = getIntensityScale(user.intensity_levels, user.intensity_labels)
+    const maxIntensity = getMaxIntensity(scale)
+
+    // Calendar events have no intensity of their own; a healthy day is not leave
+    if (intensity !== undefined && (typeof intensity !== 'number' || !Number.isInteger(intensity) || intensity < 1 || intensity > maxIntensity)) {
+      return NextResponse.json({ error: `Intensity must be a number between 1 and ${maxIntensity}` }, { status: 400 })
+    }
+
+    const parsed = parseImport(format, content, intensity ?? getDefaultIcsIntensity(scale))
+    if (parsed.error !== undefined) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 })
+    }
+
+    const today = getTodayInTimeZone(user.timezone || DEFAULT_TIMEZONE)
+    const candidateDates = parsed.rows
+      .map(row => row.date)
+      .filter((date): date is string => typeof date === 'string' && isValidDateKey(date))
+    const existingDates = await getExistingGridDates(userId, candidateDates)
+
+    const rows = planImport(parsed.rows, existingDates, conflictStrategy, today, maxIntensity)
+    const summary = summarizeImport(rows)
+
+    if (!dryRun) {
+      const entries = toGridEntries(rows)
+      if (entries.length > 0) {
+        await updateGridSquares(userId, entries, conflictStrategy === 'overwrite')
+      }
+    }
+
+    return NextResponse.json({ dryRun: Boolean(dryRun), summary, rows })
+  } catch (error) {
+    console.error('Error importing grid data:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
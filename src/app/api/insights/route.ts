@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { ensureUser, getUserSickDays } from '@/lib/database'
+import { getTodayInTimeZone, DEFAULT_TIMEZONE } from '@/lib/dates'
+import { getInsights } from '@/lib/insights'
+
+// Insights drawn from the signed-in user's whole history; the rules are in
+// src/lib/insights.ts
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const userId = session.user.id || session.user.email
+
+    // Ensure user exists in database
+    const user = await ensureUser({
+      id: userId,
+      email: session.user.email,
+      name: session.user.name || undefined,
+      image: session.user.image || undefined,
+      login: session.user.login || undefined
+    })
+
+    // "Today" is the user's, as on their grid and in their stats
+    const today = getTodayInTimeZone(user.timezone || DEFAULT_TIMEZONE)
+    const days = await getUserSickDays(userId)
+
+    return NextResponse.json({ insights: getInsights(days, today) })
+  } catch (error) {
+    console.error('Error fetching insights:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { deleteShareLink } from '@/lib/database'
+
+// Revoking a link deletes it, so its URL stops working straight away
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ linkId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const userId = session.user.id || session.user.email
+
+    const { linkId } = await params
+    const deleted = /^\d+$/.test(linkId) && await deleteShareLink(userId, Number(linkId))
+    if (!deleted) {
+      return NextResponse.json({ error: 'Share link not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error revoking share link:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,106 @@
+import { randomBytes } from 'crypto'
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { countShareLinks, createShareLink, ensureUser, getShareLinks } from '@/lib/database'
+import { getTodayInTimeZone, DEFAULT_TIMEZONE } from '@/lib/dates'
+import { rateLimit } from '@/lib/ratelimit'
+import { isShareExpiryDays, MAX_SHARE_LINKS, validateShareLinkLabel, validateShareRange } from '@/lib/shareLinks'
+
+// Share links live at /s/<token>; like calendar feeds, the URL is the secret,
+// and clients build it from the token.
+
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const userId = session.user.id || session.user.email
+
+    // Ensure user exists in database
+    const user = await ensureUser({
+      id: userId,
+      email: session.user.email,
+      name: session.user.name || undefined,
+      image: session.user.image || undefined,
+      login: session.user.login || undefined
+    })
+
+    // today lets the form offer ranges that end on the owner's today
+    return NextResponse.json({
+      links: await getShareLinks(userId),
+      today: getTodayInTimeZone(user.timezone || DEFAULT_TIMEZONE),
+    })
+  } catch (error) {
+    console.error('Error fetching share links:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const userId = session.user.id || session.user.email
+
+    // Rate limiting: 5 new links per minute per user
+    if (!rateLimit(`share-links:${userId}`, 5, 60000)) {
+      return NextResponse.json({ error: 'Too many requests' }, { status: 429 })
+    }
+
+    // Ensure user exists in database
+    const user = await ensureUser({
+      id: userId,
+      email: session.user.email,
+      name: session.user.name || undefined,
+      image: session.user.image || undefined,
+      login: session.user.login || undefined
+    })
+
+    const body = await request.json()
+    const label = typeof body.label === 'string' ? body.label.trim() : ''
+    const startDate = typeof body.start_date === 'string' ? body.start_date : ''
+    const endDate = typeof body.end_date === 'string' ? body.end_date : ''
+    const expiresInDays = body.expires_in_days ?? null
+
+    // "Today" is the owner's, as on their grid
+    const today = getTodayInTimeZone(user.timezone || DEFAULT_TIMEZONE)
+    const validationError = validateShareLinkLabel(label) || validateShareRange(startDate, endDate, today)
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
+    }
+    if (!isShareExpiryDays(expiresInDays)) {
+      return NextResponse.json({ error: 'Invalid expiry' }, { status: 400 })
+    }
+    if (typeof body.hide_notes !== 'boolean') {
+      return NextResponse.json({ error: 'hide_notes must be a boolean' }, { status: 400 })
+    }
+
+    if (await countShareLinks(userId) >= MAX_SHARE_LINKS) {
+      return NextResponse.json(
+        { error: `You can have at most ${MAX_SHARE_LINKS} share links. Revoke one first.` },
+        { status: 400 }
+      )
+    }
+
+    const link = await createShareLink(userId, randomBytes(24).toString('base64url'), {
+      label: label || null,
+      startDate,
+      endDate,
+      expiresInDays,
+      hideNotes: body.hide_notes,
+    })
+
+    return NextResponse.json({ link })
+  } catch (error) {
+    console.error('Error creating share link:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
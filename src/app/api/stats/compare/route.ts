@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { ensureUser, getMonthlyStatsByDateRange, getUserStatsByDateRange } from '@/lib/database'
+import { isIllnessCategory, UNCATEGORIZED } from '@/lib/categories'
+import { isValidDateKey, toDayNumber } from '@/lib/dates'
+import { computeStatsDeltas, type DateRange } from '@/lib/stats'
+
+// Longest range a comparison side may cover
+const MAX_RANGE_DAYS = 366 * 5
+
+function parseRange(searchParams: URLSearchParams, side: 'A' | 'B'): DateRange | string {
+  const startDate = searchParams.get(`start${side}`)
+  const endDate = searchParams.get(`end${side}`)
+
+  if (!startDate || !endDate || !isValidDateKey(startDate) || !isValidDateKey(endDate)) {
+    return `start${side} and end${side} must be dates in YYYY-MM-DD format`
+  }
+  if (startDate > endDate) {
+    return `start${side} must not be after end${side}`
+  }
+  if (toDayNumber(endDate) - toDayNumber(startDate) + 1 > MAX_RANGE_DAYS) {
+    return `Range ${side} can cover at most ${MAX_RANGE_DAYS} days`
+  }
+  return { startDate, endDate }
+}
+
+// Compares two date ranges, e.g. Q1 last year (A) with Q1 this year (B).
+// Deltas are B minus A, so a positive totalSickDays delta means more sick days in B.
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const rangeA = parseRange(searchParams, 'A')
+    const rangeB = parseRange(searchParams, 'B')
+    const category = searchParams.get('category')
+
+    if (typeof rangeA === 'string') {
+      return NextResponse.json({ error: rangeA }, { status: 400 })
+    }
+    if (typeof rangeB === 'string') {
+      return NextResponse.json({ error: rangeB }, { status: 400 })
+    }
+
+    // Validate category filter
+    if (category && category !== UNCATEGORIZED && !isIllnessCategory(category)) {
+      return NextResponse.json({ error: 'Unknown category' }, { status: 400 })
+    }
+
+    const userId = session.user.id || session.user.email
+
+    // Ensure user exists in database
+    await ensureUser({
+      id: userId,
+      email: session.user.email,
+      name: session.user.name || undefined,
+      image: session.user.image || undefined,
+      login: session.user.login || undefined
+    })
+
+    const [statsA, statsB, monthsA, monthsB] = await Promise.all([
+      getUserStatsByDateRange(userId, rangeA.startDate, rangeA.endDate, category),
+      getUserStatsByDateRange(userId, rangeB.startDate, rangeB.endDate, category),
+      getMonthlyStatsByDateRange(userId, rangeA.startDate, rangeA.endDate, category),
+      getMonthlyStatsByDateRange(userId, rangeB.startDate, rangeB.endDate, category)
+    ])
+
+    return NextResponse.json({
+      a: { range: rangeA, stats: statsA, months: monthsA },
+      b: { range: rangeB, stats: statsB, months: monthsB },
+      deltas: computeStatsDeltas(statsA, statsB)
+    })
+  } catch (error) {
+    console.error('Error comparing user stats:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
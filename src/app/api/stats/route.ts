@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
-import { getUserStats, getUserStatsByDateRange, ensureUser } from '@/lib/database'
+import { getCategoryStats, getCategoryStatsByDateRange, getUserStats, getUserStatsByDateRange, ensureUser } from '@/lib/database'
+import { isIllnessCategory, UNCATEGORIZED } from '@/lib/categories'
 
 export async function GET(request: NextRequest) {
   try {
@@ -15,6 +16,12 @@ export async function GET(request: NextRequest) {
     const startDate = searchParams.get('startDate')
     const endDate = searchParams.get('endDate')
     const year = searchParams.get('year')
+    const category = searchParams.get('category')
+
+    // Validate category filter
+    if (category && category !== UNCATEGORIZED && !isIllnessCategory(category)) {
+      return NextResponse.json({ error: 'Unknown category' }, { status: 400 })
+    }
 
     const userId = session.user.id || session.user.email
 
@@ -23,21 +30,29 @@ export async function GET(request: NextRequest) {
       id: userId,
       email: session.user.email,
       name: session.user.name || undefined,
-      image: session.user.image || undefined
+      image: session.user.image || undefined,
+      login: session.user.login || undefined
     })
 
     let stats
+    let categories
     if (startDate && endDate) {
       // Use date range query for rolling 12 months
-      stats = await getUserStatsByDateRange(userId, startDate, endDate)
+      [stats, categories] = await Promise.all([
+        getUserStatsByDateRange(userId, startDate, endDate, category),
+        getCategoryStatsByDateRange(userId, startDate, endDate)
+      ])
     } else if (year) {
       // Use year query for backward compatibility
-      stats = await getUserStats(userId, parseInt(year))
+      [stats, categories] = await Promise.all([
+        getUserStats(userId, parseInt(year), category),
+        getCategoryStats(userId, parseInt(year))
+      ])
     } else {
       return NextResponse.json({ error: 'Either year or date range (startDate and endDate) is required' }, { status: 400 })
     }
     
-    return NextResponse.json({ stats })
+    return NextResponse.json({ stats, categories })
   } catch (error) {
     console.error('Error fetching user stats:', error)
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
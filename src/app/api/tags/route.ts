@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { addCustomTag, deleteCustomTag, ensureUser, getCustomTags } from '@/lib/database'
+import { rateLimit } from '@/lib/ratelimit'
+import { isSymptomTag, normalizeTag, validateTag, SYMPTOM_TAGS } from '@/lib/tags'
+
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const userId = session.user.id || session.user.email
+
+    // Ensure user exists in database
+    await ensureUser({
+      id: userId,
+      email: session.user.email,
+      name: session.user.name || undefined,
+      image: session.user.image || undefined,
+      login: session.user.login || undefined
+    })
+
+    const custom = await getCustomTags(userId)
+
+    return NextResponse.json({ tags: { symptoms: SYMPTOM_TAGS, custom } })
+  } catch (error) {
+    console.error('Error fetching tags:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const userId = session.user.id || session.user.email
+
+    // Rate limiting: 30 tag changes per minute per user
+    if (!rateLimit(`tags:${userId}`, 30, 60000)) {
+      return NextResponse.json({ error: 'Too many requests' }, { status: 429 })
+    }
+
+    const body = await request.json()
+    if (typeof body.name !== 'string') {
+      return NextResponse.json({ error: 'Tag name is required' }, { status: 400 })
+    }
+
+    const name = normalizeTag(body.name)
+    const tagError = validateTag(name)
+    if (tagError) {
+      return NextResponse.json({ error: tagError }, { status: 400 })
+    }
+    if (isSymptomTag(name)) {
+      return NextResponse.json({ error: 'That tag is already built in' }, { status: 409 })
+    }
+
+    // Ensure user exists in database
+    await ensureUser({
+      id: userId,
+      email: session.user.email,
+      name: session.user.name || undefined,
+      image: session.user.image || undefined,
+      login: session.user.login || undefined
+    })
+
+    await addCustomTag(userId, name)
+
+    return NextResponse.json({ tag: name })
+  } catch (error) {
+    console.error('Error adding tag:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const userId = session.user.id || session.user.email
+
+    const { searchParams } = new URL(request.url)
+    const name = searchParams.get('name')
+    if (!name) {
+      return NextResponse.json({ error: 'Tag name is required' }, { status: 400 })
+    }
+
+    await deleteCustomTag(userId, normalizeTag(name))
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error deleting tag:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,130 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { ensureUser, getTeamForMember, getTeamMembers, removeTeamMember, toPublicTeamMember, updateTeamMemberRole, updateTeamShareMode } from '@/lib/database'
+import { rateLimit } from '@/lib/ratelimit'
+import { canRemoveMember, isShareMode, isTeamRole } from '@/lib/teams'
+
+// One membership, addressed by the member's username. Members pick their own
+// share mode and may leave; owners change roles; owners and admins remove people.
+
+async function getMembership(teamIdParam: string, username: string) {
+  const session = await getServerSession(authOptions)
+
+  if (!session?.user?.email) {
+    return null
+  }
+
+  const userId = session.user.id || session.user.email
+
+  // Ensure user exists in database
+  const user = await ensureUser({
+    id: userId,
+    email: session.user.email,
+    name: session.user.name || undefined,
+    image: session.user.image || undefined,
+    login: session.user.login || undefined
+  })
+
+  const team = /^\d+$/.test(teamIdParam) ? await getTeamForMember(Number(teamIdParam), userId) : null
+  const members = team ? await getTeamMembers(team.id) : []
+  const member = members.find(member => member.username === decodeURIComponent(username).toLowerCase()) ?? null
+
+  return { user, team, member }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ teamId: string; username: string }> }
+) {
+  try {
+    const { teamId, username } = await params
+    const membership = await getMembership(teamId, username)
+    if (!membership) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { user, team, member } = membership
+
+    // Rate limiting: 20 membership changes per minute per user
+    if (!rateLimit(`team-members:${user.id}`, 20, 60000)) {
+      return NextResponse.json({ error: 'Too many requests' }, { status: 429 })
+    }
+
+    if (!team || !member) {
+      return NextResponse.json({ error: 'Member not found' }, { status: 404 })
+    }
+
+    const body = await request.json()
+    const { role, share_mode: shareMode } = body
+
+    if (role === undefined && shareMode === undefined) {
+      return NextResponse.json({ error: 'Nothing to update' }, { status: 400 })
+    }
+
+    if (shareMode !== undefined) {
+      if (!isShareMode(shareMode)) {
+        return NextResponse.json({ error: 'Share mode must be none, anonymized or full' }, { status: 400 })
+      }
+      // Nobody decides what someone else shares
+      if (member.user_id !== user.id) {
+        return NextResponse.json({ error: 'You can only change your own sharing' }, { status: 403 })
+      }
+    }
+
+    if (role !== undefined) {
+      if (!isTeamRole(role)) {
+        return NextResponse.json({ error: 'Role must be owner, admin or member' }, { status: 400 })
+      }
+      if (team.role !== 'owner') {
+        return NextResponse.json({ error: 'Only owners can change roles' }, { status: 403 })
+      }
+      if (!(await updateTeamMemberRole(team.id, member.user_id, role))) {
+        return NextResponse.json({ error: 'A team needs at least one owner' }, { status: 409 })
+      }
+    }
+
+    if (shareMode !== undefined) {
+      await updateTeamShareMode(team.id, member.user_id, shareMode)
+    }
+
+    return NextResponse.json({
+      member: toPublicTeamMember({ ...member, role: role ?? member.role, share_mode: shareMode ?? member.share_mode })
+    })
+  } catch (error) {
+    console.error('Error updating team member:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ teamId: string; username: string }> }
+) {
+  try {
+    const { teamId, username } = await params
+    const membership = await getMembership(teamId, username)
+    if (!membership) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { user, team, member } = membership
+    if (!team || !member) {
+      return NextResponse.json({ error: 'Member not found' }, { status: 404 })
+    }
+
+    // Anyone may leave; removing someone else depends on both roles
+    if (member.user_id !== user.id && !canRemoveMember(team.role, member.role)) {
+      return NextResponse.json({ error: 'You cannot remove this member' }, { status: 403 })
+    }
+
+    if (!(await removeTeamMember(team.id, member.user_id))) {
+      return NextResponse.json({ error: 'Make someone else an owner first, or delete the team' }, { status: 409 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error removing team member:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
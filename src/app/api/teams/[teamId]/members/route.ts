@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { createTeamInvite, ensureUser, getTeamForMember, getUserByUsername } from '@/lib/database'
+import { rateLimit } from '@/lib/ratelimit'
+import { canAssignRole, canManageMembers, isTeamRole } from '@/lib/teams'
+
+// Loose on purpose: the invite only matters once someone signs in with it
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+// Invites someone by username or email address. They join once they accept.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ teamId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const userId = session.user.id || session.user.email
+
+    // Rate limiting: 20 invites per minute per user
+    if (!rateLimit(`team-invites:${userId}`, 20, 60000)) {
+      return NextResponse.json({ error: 'Too many requests' }, { status: 429 })
+    }
+
+    // Ensure user exists in database
+    await ensureUser({
+      id: userId,
+      email: session.user.email,
+      name: session.user.name || undefined,
+      image: session.user.image || undefined,
+      login: session.user.login || undefined
+    })
+
+    const { teamId } = await params
+    const team = /^\d+$/.test(teamId) ? await getTeamForMember(Number(teamId), userId) : null
+    if (!team) {
+      return NextResponse.json({ error: 'Team not found' }, { status: 404 })
+    }
+
+    if (!canManageMembers(team.role)) {
+      return NextResponse.json({ error: 'Only owners and admins can invite people' }, { status: 403 })
+    }
+
+    const body = await request.json()
+    const role = body.role ?? 'member'
+    if (typeof body.invitee !== 'string' || !body.invitee.trim()) {
+      return NextResponse.json({ error: 'Enter a username or email address' }, { status: 400 })
+    }
+    if (!isTeamRole(role)) {
+      return NextResponse.json({ error: 'Role must be owner, admin or member' }, { status: 400 })
+    }
+    if (!canAssignRole(team.role, role)) {
+      return NextResponse.json({ error: 'Only owners can invite owners' }, { status: 403 })
+    }
+
+    const invitee = body.invitee.trim().replace(/^@/, '')
+    let target: { userId: string } | { email: string }
+    if (invitee.includes('@')) {
+      if (!EMAIL_PATTERN.test(invitee)) {
+        return NextResponse.json({ error: 'That is not a valid email address' }, { status: 400 })
+      }
+      target = { email: invitee }
+    } else {
+      const user = await getUserByUsername(invitee.toLowerCase())
+      if (!user) {
+        return NextResponse.json({ error: 'No one has that username' }, { status: 404 })
+      }
+      target = { userId: user.id }
+    }
+
+    const invite = await createTeamInvite(team.id, userId, target, role)
+    if (!invite) {
+      return NextResponse.json({ error: 'They are already in the team or invited' }, { status: 409 })
+    }
+
+    return NextResponse.json({ invite })
+  } catch (error) {
+    console.error('Error inviting team member:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,137 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { deleteTeam, ensureUser, getTeamForMember, getTeamInvites, getTeamMembers, renameTeam, toPublicTeamMember } from '@/lib/database'
+import { rateLimit } from '@/lib/ratelimit'
+import { canManageMembers, validateTeamName } from '@/lib/teams'
+
+// Teams are only visible to their members; everyone else gets a 404, so team
+// ids reveal nothing
+
+async function getSessionUserId() {
+  const session = await getServerSession(authOptions)
+
+  if (!session?.user?.email) {
+    return null
+  }
+
+  const userId = session.user.id || session.user.email
+
+  // Ensure user exists in database
+  await ensureUser({
+    id: userId,
+    email: session.user.email,
+    name: session.user.name || undefined,
+    image: session.user.image || undefined,
+    login: session.user.login || undefined
+  })
+
+  return userId
+}
+
+function parseTeamId(value: string): number | null {
+  return /^\d+$/.test(value) ? Number(value) : null
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ teamId: string }> }
+) {
+  try {
+    const userId = await getSessionUserId()
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const teamId = parseTeamId((await params).teamId)
+    const team = teamId === null ? null : await getTeamForMember(teamId, userId)
+    if (!team) {
+      return NextResponse.json({ error: 'Team not found' }, { status: 404 })
+    }
+
+    const [members, invites] = await Promise.all([
+      getTeamMembers(team.id),
+      // Pending invites name people who have not joined; only managers see them
+      canManageMembers(team.role) ? getTeamInvites(team.id) : [],
+    ])
+
+    return NextResponse.json({ team, members: members.map(toPublicTeamMember), invites })
+  } catch (error) {
+    console.error('Error fetching team:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ teamId: string }> }
+) {
+  try {
+    const userId = await getSessionUserId()
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    // Rate limiting: 10 team changes per minute per user
+    if (!rateLimit(`team:${userId}`, 10, 60000)) {
+      return NextResponse.json({ error: 'Too many requests' }, { status: 429 })
+    }
+
+    const teamId = parseTeamId((await params).teamId)
+    const team = teamId === null ? null : await getTeamForMember(teamId, userId)
+    if (!team) {
+      return NextResponse.json({ error: 'Team not found' }, { status: 404 })
+    }
+
+    if (!canManageMembers(team.role)) {
+      return NextResponse.json({ error: 'Only owners and admins can rename the team' }, { status: 403 })
+    }
+
+    const body = await request.json()
+    if (typeof body.name !== 'string') {
+      return NextResponse.json({ error: 'Team name is required' }, { status: 400 })
+    }
+
+    const name = body.name.trim()
+    const nameError = validateTeamName(name)
+    if (nameError) {
+      return NextResponse.json({ error: nameError }, { status: 400 })
+    }
+
+    await renameTeam(team.id, name)
+
+    return NextResponse.json({ team: { ...team, name } })
+  } catch (error) {
+    console.error('Error updating team:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ teamId: string }> }
+) {
+  try {
+    const userId = await getSessionUserId()
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const teamId = parseTeamId((await params).teamId)
+    const team = teamId === null ? null : await getTeamForMember(teamId, userId)
+    if (!team) {
+      return NextResponse.json({ error: 'Team not found' }, { status: 404 })
+    }
+
+    if (team.role !== 'owner') {
+      return NextResponse.json({ error: 'Only owners can delete the team' }, { status: 403 })
+    }
+
+    await deleteTeam(team.id)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error deleting team:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
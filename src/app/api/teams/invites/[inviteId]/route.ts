@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { acceptTeamInvite, deleteTeamInvite, ensureUser, getPendingTeamInvites, getTeamForMember, getTeamInvite } from '@/lib/database'
+import { canManageMembers } from '@/lib/teams'
+
+// POST accepts an invite. DELETE declines it, or cancels it when called by an
+// owner or admin of the team.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ inviteId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const userId = session.user.id || session.user.email
+
+    // Ensure user exists in database
+    await ensureUser({
+      id: userId,
+      email: session.user.email,
+      name: session.user.name || undefined,
+      image: session.user.image || undefined,
+      login: session.user.login || undefined
+    })
+
+    const { inviteId } = await params
+    const teamId = /^\d+$/.test(inviteId) ? await acceptTeamInvite(Number(inviteId), userId, session.user.email) : null
+    if (teamId === null) {
+      return NextResponse.json({ error: 'Invite not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ team: await getTeamForMember(teamId, userId) })
+  } catch (error) {
+    console.error('Error accepting team invite:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ inviteId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const userId = session.user.id || session.user.email
+
+    const { inviteId } = await params
+    const invite = /^\d+$/.test(inviteId) ? await getTeamInvite(Number(inviteId)) : null
+    if (!invite) {
+      return NextResponse.json({ error: 'Invite not found' }, { status: 404 })
+    }
+
+    const [pending, team] = await Promise.all([
+      getPendingTeamInvites(userId, session.user.email),
+      getTeamForMember(invite.team_id, userId),
+    ])
+    const isInvitee = pending.some(pendingInvite => pendingInvite.id === invite.id)
+    if (!isInvitee && !(team && canManageMembers(team.role))) {
+      return NextResponse.json({ error: 'Invite not found' }, { status: 404 })
+    }
+
+    await deleteTeamInvite(invite.id)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error deleting team invite:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { createTeam, ensureUser, getPendingTeamInvites, getUserTeams } from '@/lib/database'
+import { rateLimit } from '@/lib/ratelimit'
+import { validateTeamName } from '@/lib/teams'
+
+// The signed-in user's teams and the invites waiting for them
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const userId = session.user.id || session.user.email
+
+    // Ensure user exists in database
+    await ensureUser({
+      id: userId,
+      email: session.user.email,
+      name: session.user.name || undefined,
+      image: session.user.image || undefined,
+      login: session.user.login || undefined
+    })
+
+    const [teams, invites] = await Promise.all([
+      getUserTeams(userId),
+      getPendingTeamInvites(userId, session.user.email),
+    ])
+
+    return NextResponse.json({ teams, invites })
+  } catch (error) {
+    console.error('Error fetching teams:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const userId = session.user.id || session.user.email
+
+    // Rate limiting: 5 new teams per minute per user
+    if (!rateLimit(`teams:${userId}`, 5, 60000)) {
+      return NextResponse.json({ error: 'Too many requests' }, { status: 429 })
+    }
+
+    const body = await request.json()
+    if (typeof body.name !== 'string') {
+      return NextResponse.json({ error: 'Team name is required' }, { status: 400 })
+    }
+
+    const name = body.name.trim()
+    const nameError = validateTeamName(name)
+    if (nameError) {
+      return NextResponse.json({ error: nameError }, { status: 400 })
+    }
+
+    // Ensure user exists in database
+    await ensureUser({
+      id: userId,
+      email: session.user.email,
+      name: session.user.name || undefined,
+      image: session.user.image || undefined,
+      login: session.user.login || undefined
+    })
+
+    const team = await createTeam(userId, name)
+
+    return NextResponse.json({ team })
+  } catch (error) {
+    console.error('Error creating team:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
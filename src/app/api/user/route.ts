@@ -0,0 +1,179 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { dismissUsernameNotice, ensureUser, getUserById, updateUsername, updateUserIntensityScale, updateUserPrivacy, updateUserShareActivity, updateUserTheme, updateUserTimezone } from '@/lib/database'
+import { isValidTimeZone } from '@/lib/dates'
+import { isScaleSize, validateIntensityLabels } from '@/lib/intensity'
+import { rateLimit } from '@/lib/ratelimit'
+import { isThemeId } from '@/lib/themes'
+import { validateUsername } from '@/lib/username'
+
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const userId = session.user.id || session.user.email
+
+    // Ensure user exists in database
+    const user = await ensureUser({
+      id: userId,
+      email: session.user.email,
+      name: session.user.name || undefined,
+      image: session.user.image || undefined,
+      login: session.user.login || undefined
+    })
+
+    return NextResponse.json({ user })
+  } catch (error) {
+    console.error('Error fetching user settings:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+export async function PATCH(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const userId = session.user.id || session.user.email
+
+    // Rate limiting: 10 settings changes per minute per user
+    if (!rateLimit(`user:${userId}`, 10, 60000)) {
+      return NextResponse.json({ error: 'Too many requests' }, { status: 429 })
+    }
+
+    const body = await request.json()
+    const {
+      username,
+      is_public: isPublic,
+      share_activity: shareActivity,
+      timezone,
+      theme,
+      intensity_levels: intensityLevels,
+      intensity_labels: intensityLabels,
+      username_notice_dismissed: noticeDismissed
+    } = body
+
+    if (
+      username === undefined &&
+      isPublic === undefined &&
+      shareActivity === undefined &&
+      timezone === undefined &&
+      theme === undefined &&
+      intensityLevels === undefined &&
+      intensityLabels === undefined &&
+      noticeDismissed === undefined
+    ) {
+      return NextResponse.json({ error: 'Nothing to update' }, { status: 400 })
+    }
+
+    // Validate username
+    if (username !== undefined) {
+      if (typeof username !== 'string') {
+        return NextResponse.json({ error: 'Username must be a string' }, { status: 400 })
+      }
+      const usernameError = validateUsername(username)
+      if (usernameError) {
+        return NextResponse.json({ error: usernameError }, { status: 400 })
+      }
+    }
+
+    // Validate privacy flag
+    if (isPublic !== undefined && typeof isPublic !== 'boolean') {
+      return NextResponse.json({ error: 'is_public must be a boolean' }, { status: 400 })
+    }
+
+    // Validate activity sharing
+    if (shareActivity !== undefined && typeof shareActivity !== 'boolean') {
+      return NextResponse.json({ error: 'share_activity must be a boolean' }, { status: 400 })
+    }
+
+    // Validate timezone
+    if (timezone !== undefined && (typeof timezone !== 'string' || !isValidTimeZone(timezone))) {
+      return NextResponse.json({ error: 'Unknown timezone' }, { status: 400 })
+    }
+
+    // Validate theme
+    if (theme !== undefined && !isThemeId(theme)) {
+      return NextResponse.json({ error: 'Unknown theme' }, { status: 400 })
+    }
+
+    // Validate intensity scale size; labels are checked once the size is known
+    if (intensityLevels !== undefined && !isScaleSize(intensityLevels)) {
+      return NextResponse.json({ error: 'intensity_levels must be 3 or 5' }, { status: 400 })
+    }
+
+    // Validate notice dismissal
+    if (noticeDismissed !== undefined && noticeDismissed !== true) {
+      return NextResponse.json({ error: 'username_notice_dismissed can only be set to true' }, { status: 400 })
+    }
+
+    // Ensure user exists in database
+    const currentUser = await ensureUser({
+      id: userId,
+      email: session.user.email,
+      name: session.user.name || undefined,
+      image: session.user.image || undefined,
+      login: session.user.login || undefined
+    })
+
+    // Labels default to the standard wording; switching sizes without new
+    // labels drops the old ones, which no longer fit
+    let scaleLabels: string[] | null = null
+    const scaleLevels = intensityLevels ?? (isScaleSize(currentUser.intensity_levels) ? currentUser.intensity_levels : 5)
+    if (intensityLabels !== undefined && intensityLabels !== null) {
+      const labelsError = validateIntensityLabels(intensityLabels, scaleLevels)
+      if (labelsError) {
+        return NextResponse.json({ error: labelsError }, { status: 400 })
+      }
+      scaleLabels = intensityLabels.map((label: string) => label.trim())
+    } else if (intensityLabels === undefined && scaleLevels === currentUser.intensity_levels) {
+      scaleLabels = currentUser.intensity_labels
+    }
+
+    if (username !== undefined) {
+      const updated = await updateUsername(userId, username)
+      if (!updated) {
+        return NextResponse.json({ error: 'That username is already taken' }, { status: 409 })
+      }
+    }
+
+    if (isPublic !== undefined) {
+      await updateUserPrivacy(userId, isPublic)
+    }
+
+    if (shareActivity !== undefined) {
+      await updateUserShareActivity(userId, shareActivity)
+    }
+
+    if (timezone !== undefined) {
+      await updateUserTimezone(userId, timezone)
+    }
+
+    if (theme !== undefined) {
+      await updateUserTheme(userId, theme)
+    }
+
+    if (intensityLevels !== undefined || intensityLabels !== undefined) {
+      await updateUserIntensityScale(userId, scaleLevels, scaleLabels)
+    }
+
+    if (noticeDismissed) {
+      await dismissUsernameNotice(userId)
+    }
+
+    const user = await getUserById(userId)
+
+    return NextResponse.json({ user })
+  } catch (error) {
+    console.error('Error updating user settings:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
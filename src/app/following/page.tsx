@@ -0,0 +1,146 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { getServerSession } from "next-auth";
+import ActivityFeed from "@/components/ActivityFeed";
+import AuthButton from "@/components/AuthButton";
+import DayGrid from "@/components/DayGrid";
+import FollowButton from "@/components/FollowButton";
+import SessionProvider from "@/components/SessionProvider";
+import UserPreferencesProvider from "@/components/UserPreferencesProvider";
+import { canViewGrid } from "@/lib/access";
+import { authOptions } from "@/lib/auth";
+import { ensureUser, getFollowedUsers, getUserGridDataByDateRange } from "@/lib/database";
+import { getRolling12MonthRange, getTodayInTimeZone, DEFAULT_TIMEZONE } from "@/lib/dates";
+import { getIntensityScale } from "@/lib/intensity";
+import { DEFAULT_THEME, isThemeId } from "@/lib/themes";
+
+export const dynamic = "force-dynamic";
+
+export const metadata: Metadata = {
+  title: "Following",
+  robots: { index: false },
+};
+
+async function loadFollowing() {
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.email) {
+    return null;
+  }
+
+  const viewer = await ensureUser({
+    id: session.user.id || session.user.email,
+    email: session.user.email,
+    name: session.user.name || undefined,
+    image: session.user.image || undefined,
+    login: session.user.login || undefined,
+  });
+
+  // Every grid on the page follows the viewer's calendar
+  const timezone = viewer.timezone || DEFAULT_TIMEZONE;
+  const { startDate, endDate } = getRolling12MonthRange(getTodayInTimeZone(timezone));
+  const followed = await getFollowedUsers(viewer.id);
+
+  const grids = await Promise.all(
+    followed.map(async (user) => {
+      if (!canViewGrid(user, viewer.id)) {
+        return { user, visible: false as const };
+      }
+
+      const gridData = await getUserGridDataByDateRange(user.id, startDate, endDate);
+      return {
+        user,
+        visible: true as const,
+        theme: isThemeId(user.theme) ? user.theme : DEFAULT_THEME,
+        scale: getIntensityScale(user.intensity_levels, user.intensity_labels),
+        // Notes stay private, as on public profiles
+        initialData: gridData.map((square) => ({
+          date: square.date,
+          intensity: square.intensity,
+          tags: square.tags,
+          category: square.category,
+        })),
+      };
+    })
+  );
+
+  return { timezone, grids };
+}
+
+export default async function Following() {
+  const following = await loadFollowing();
+
+  return (
+    <SessionProvider>
+      <div className="min-h-screen bg-gray-50 py-4 sm:py-8">
+        <div className="max-w-7xl mx-auto px-2 sm:px-4">
+          <header className="mb-6 sm:mb-8">
+            <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-4 mb-4">
+              <div>
+                <h1 className="text-3xl sm:text-4xl font-bold text-gray-900 mb-2">
+                  Following
+                </h1>
+                <Link href="/" className="text-gray-600 text-sm sm:text-base hover:text-gray-900">
+                  ← Back to your grid
+                </Link>
+              </div>
+              <div className="self-start sm:self-auto">
+                <AuthButton />
+              </div>
+            </div>
+          </header>
+
+          <main className="space-y-4 sm:space-y-6">
+            {!following ? (
+              <div className="bg-white rounded-lg shadow-sm border p-4 sm:p-6">
+                <p className="text-sm text-gray-600">Sign in with GitHub to follow other people&apos;s public grids.</p>
+              </div>
+            ) : (
+              <>
+                <UserPreferencesProvider>
+                  <ActivityFeed />
+                </UserPreferencesProvider>
+
+                {following.grids.length === 0 ? (
+                  <div className="bg-white rounded-lg shadow-sm border p-4 sm:p-6">
+                    <p className="text-sm text-gray-600">
+                      You are not following anyone yet. Open someone&apos;s public profile to follow them.
+                    </p>
+                  </div>
+                ) : (
+                  <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 sm:gap-6">
+                    {following.grids.map((grid) => (
+                      <div key={grid.user.username} className="bg-white rounded-lg shadow-sm border p-3 sm:p-4">
+                        <div className="flex items-center justify-between gap-2 mb-2">
+                          <div className="min-w-0">
+                            {grid.visible ? (
+                              <Link href={`/u/${grid.user.username}`} className="text-sm font-medium text-gray-900 hover:underline">
+                                {grid.user.name || grid.user.username}{" "}
+                                <span className="text-gray-500 font-normal">@{grid.user.username}</span>
+                              </Link>
+                            ) : (
+                              <span className="text-sm text-gray-500">@{grid.user.username}</span>
+                            )}
+                          </div>
+                          {grid.user.username && <FollowButton username={grid.user.username} initialFollowing />}
+                        </div>
+                        {grid.visible ? (
+                          <UserPreferencesProvider
+                            initialPreferences={{ timezone: following.timezone, theme: grid.theme, scale: grid.scale }}
+                          >
+                            <DayGrid readOnly compact initialData={grid.initialData} />
+                          </UserPreferencesProvider>
+                        ) : (
+                          <p className="text-sm text-gray-600">This grid is private now.</p>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </>
+            )}
+          </main>
+        </div>
+      </div>
+    </SessionProvider>
+  );
+}
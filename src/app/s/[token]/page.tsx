@@ -0,0 +1,140 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import DayGrid from "@/components/DayGrid";
+import IntensityLegend from "@/components/IntensityLegend";
+import SessionProvider from "@/components/SessionProvider";
+import UserPreferencesProvider from "@/components/UserPreferencesProvider";
+import { canViewSharedNotes, canViewShareLink } from "@/lib/access";
+import { APP_NAME } from "@/lib/app";
+import { getShareLinkByToken, getUserById, getUserGridDataByDateRange, recordShareLinkView } from "@/lib/database";
+import { formatDateKey, DEFAULT_TIMEZONE } from "@/lib/dates";
+import { getIntensityScale } from "@/lib/intensity";
+import { findSickPeriods } from "@/lib/stats";
+import { DEFAULT_THEME, isThemeId } from "@/lib/themes";
+
+export const dynamic = "force-dynamic";
+
+// Share links are private by nature; keep them out of search results
+export const metadata: Metadata = {
+  title: "Shared sick days",
+  robots: { index: false },
+};
+
+const DATE_FORMAT: Intl.DateTimeFormatOptions = { year: "numeric", month: "short", day: "numeric" };
+
+export default async function SharedGrid({
+  params,
+}: {
+  params: Promise<{ token: string }>;
+}) {
+  const { token } = await params;
+  const link = await getShareLinkByToken(token);
+
+  // Revoked, expired and made-up tokens all look the same
+  if (!link || !canViewShareLink(link)) {
+    notFound();
+  }
+
+  const user = await getUserById(link.user_id);
+  if (!user) {
+    notFound();
+  }
+
+  const range = { startDate: link.start_date, endDate: link.end_date };
+  const [gridData] = await Promise.all([
+    getUserGridDataByDateRange(user.id, range.startDate, range.endDate),
+    recordShareLinkView(link.id),
+  ]);
+
+  // Render the grid as the owner sees it, in their timezone, colors and scale
+  const timezone = user.timezone || DEFAULT_TIMEZONE;
+  const theme = isThemeId(user.theme) ? user.theme : DEFAULT_THEME;
+  const scale = getIntensityScale(user.intensity_levels, user.intensity_labels);
+
+  const initialData = gridData.map((square) => ({
+    date: square.date,
+    intensity: square.intensity,
+    tags: square.tags,
+    category: square.category,
+  }));
+  const notes = canViewSharedNotes(link)
+    ? gridData.filter((square) => square.notes?.trim())
+    : [];
+
+  const periods = findSickPeriods(gridData, range);
+  const totalSickDays = periods.reduce((sum, period) => sum + period.length, 0);
+  const longestStreak = Math.max(0, ...periods.map((period) => period.length));
+
+  const displayName = user.name || user.username || "Someone";
+
+  return (
+    <SessionProvider>
+      <UserPreferencesProvider initialPreferences={{ timezone, theme, scale }}>
+        <div className="min-h-screen bg-gray-50 py-4 sm:py-8">
+          <div className="max-w-7xl mx-auto px-2 sm:px-4">
+            <header className="mb-6 sm:mb-8">
+              <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-4 mb-4">
+                <div>
+                  <h1 className="text-2xl sm:text-3xl font-bold text-gray-900">
+                    {displayName}&apos;s Sick Days
+                  </h1>
+                  <p className="text-gray-600 text-sm sm:text-base">
+                    {formatDateKey(range.startDate, DATE_FORMAT)} – {formatDateKey(range.endDate, DATE_FORMAT)}
+                  </p>
+                </div>
+                <div className="self-start sm:self-auto">
+                  <Link
+                    href="/"
+                    className="text-sm text-gray-600 hover:text-gray-900"
+                  >
+                    Track your own on {APP_NAME}
+                  </Link>
+                </div>
+              </div>
+            </header>
+
+            <main className="space-y-4 sm:space-y-6">
+              <div className="bg-white rounded-lg shadow-sm border p-3 sm:p-6">
+                <div className="mb-4">
+                  <h2 className="text-base sm:text-lg font-semibold text-gray-800 mb-2">
+                    Shared Period
+                  </h2>
+                  <p className="text-xs sm:text-sm text-gray-600">
+                    {totalSickDays === 0
+                      ? "No sick days in this period."
+                      : `${totalSickDays} sick ${totalSickDays === 1 ? "day" : "days"} in ${periods.length} ${periods.length === 1 ? "stretch" : "stretches"}, the longest ${longestStreak} ${longestStreak === 1 ? "day" : "days"}.`}
+                  </p>
+                </div>
+
+                <DayGrid readOnly initialData={initialData} range={range} />
+
+                <div className="mt-4 sm:mt-6">
+                  <IntensityLegend />
+                </div>
+              </div>
+
+              {notes.length > 0 && (
+                <div className="bg-white rounded-lg shadow-sm border p-3 sm:p-6">
+                  <h2 className="text-base sm:text-lg font-semibold text-gray-800 mb-2">
+                    Notes
+                  </h2>
+                  <ul className="divide-y">
+                    {notes.map((square) => (
+                      <li key={square.date} className="py-2">
+                        <div className="text-xs text-gray-500">
+                          {formatDateKey(square.date, { weekday: "short", ...DATE_FORMAT })}
+                        </div>
+                        <p className="text-sm text-gray-800 whitespace-pre-wrap">{square.notes}</p>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </main>
+          </div>
+        </div>
+      </UserPreferencesProvider>
+    </SessionProvider>
+  );
+}
@@ -0,0 +1,36 @@
+import Link from "next/link";
+import AccountSettings from "@/components/AccountSettings";
+import AuthButton from "@/components/AuthButton";
+import SessionProvider from "@/components/SessionProvider";
+import ShareLinks from "@/components/ShareLinks";
+
+export default function Settings() {
+  return (
+    <SessionProvider>
+      <div className="min-h-screen bg-gray-50 py-4 sm:py-8">
+        <div className="max-w-3xl mx-auto px-2 sm:px-4">
+          <header className="mb-6 sm:mb-8">
+            <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-4 mb-4">
+              <div>
+                <h1 className="text-3xl sm:text-4xl font-bold text-gray-900 mb-2">
+                  Settings
+                </h1>
+                <Link href="/" className="text-gray-600 text-sm sm:text-base hover:text-gray-900">
+                  ← Back to your grid
+                </Link>
+              </div>
+              <div className="self-start sm:self-auto">
+                <AuthButton />
+              </div>
+            </div>
+          </header>
+
+          <main className="space-y-4 sm:space-y-6">
+            <AccountSettings />
+            <ShareLinks />
+          </main>
+        </div>
+      </div>
+    </SessionProvider>
+  );
+}
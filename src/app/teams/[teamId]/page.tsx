@@ -0,0 +1,184 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { getServerSession } from "next-auth";
+import AuthButton from "@/components/AuthButton";
+import DayGrid from "@/components/DayGrid";
+import IntensityLegend from "@/components/IntensityLegend";
+import SessionProvider from "@/components/SessionProvider";
+import TeamMembers from "@/components/TeamMembers";
+import UserPreferencesProvider from "@/components/UserPreferencesProvider";
+import UserStats from "@/components/UserStats";
+import { canViewTeamMemberGrid } from "@/lib/access";
+import { authOptions } from "@/lib/auth";
+import {
+  ensureUser,
+  getTeamForMember,
+  getTeamGrid,
+  getTeamInvites,
+  getTeamMembers,
+  getUserById,
+  getUserGridDataByDateRange,
+  toPublicTeamMember,
+} from "@/lib/database";
+import { getRolling12MonthRange, getTodayInTimeZone, DEFAULT_TIMEZONE } from "@/lib/dates";
+import { getIntensityScale } from "@/lib/intensity";
+import { canManageMembers, getTeamScale } from "@/lib/teams";
+import { DEFAULT_THEME, isThemeId } from "@/lib/themes";
+
+export const dynamic = "force-dynamic";
+
+export const metadata: Metadata = {
+  title: "Team",
+  robots: { index: false },
+};
+
+export default async function TeamPage({
+  params,
+}: {
+  params: Promise<{ teamId: string }>;
+}) {
+  const { teamId } = await params;
+  const session = await getServerSession(authOptions);
+
+  // Teams only exist for their members; anyone else gets the same 404
+  if (!session?.user?.email || !/^\d+$/.test(teamId)) {
+    notFound();
+  }
+
+  const viewer = await ensureUser({
+    id: session.user.id || session.user.email,
+    email: session.user.email,
+    name: session.user.name || undefined,
+    image: session.user.image || undefined,
+    login: session.user.login || undefined,
+  });
+  const team = await getTeamForMember(Number(teamId), viewer.id);
+  if (!team) {
+    notFound();
+  }
+
+  // The whole page follows the viewer's calendar and colors
+  const timezone = viewer.timezone || DEFAULT_TIMEZONE;
+  const theme = isThemeId(viewer.theme) ? viewer.theme : DEFAULT_THEME;
+  const today = getTodayInTimeZone(timezone);
+  const { startDate, endDate } = getRolling12MonthRange(today);
+
+  const [grid, members, invites] = await Promise.all([
+    getTeamGrid(team.id, startDate, endDate, today),
+    getTeamMembers(team.id),
+    canManageMembers(team.role) ? getTeamInvites(team.id) : [],
+  ]);
+
+  // Members sharing fully show their own grid, in their own scale and colors
+  const sharedGrids = await Promise.all(
+    members
+      .filter(canViewTeamMemberGrid)
+      .map(async (member) => {
+        const [user, gridData] = await Promise.all([
+          getUserById(member.user_id),
+          getUserGridDataByDateRange(member.user_id, startDate, endDate),
+        ]);
+        return {
+          member,
+          theme: user && isThemeId(user.theme) ? user.theme : DEFAULT_THEME,
+          scale: getIntensityScale(user?.intensity_levels, user?.intensity_labels),
+          // Notes stay private, as on public profiles
+          initialData: gridData.map((square) => ({
+            date: square.date,
+            intensity: square.intensity,
+            tags: square.tags,
+            category: square.category,
+          })),
+        };
+      })
+  );
+
+  return (
+    <SessionProvider>
+      <div className="min-h-screen bg-gray-50 py-4 sm:py-8">
+        <div className="max-w-7xl mx-auto px-2 sm:px-4">
+          <header className="mb-6 sm:mb-8">
+            <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-4 mb-4">
+              <div>
+                <h1 className="text-3xl sm:text-4xl font-bold text-gray-900 mb-2">
+                  {team.name}
+                </h1>
+                <Link href="/teams" className="text-gray-600 text-sm sm:text-base hover:text-gray-900">
+                  ← All teams
+                </Link>
+              </div>
+              <div className="self-start sm:self-auto">
+                <AuthButton />
+              </div>
+            </div>
+          </header>
+
+          <main className="space-y-4 sm:space-y-6">
+            <UserPreferencesProvider
+              initialPreferences={{ timezone, theme, scale: getTeamScale(grid.sharingMembers) }}
+            >
+              <div className="space-y-4 sm:space-y-6">
+                <div className="bg-white rounded-lg shadow-sm border p-3 sm:p-6">
+                  <div className="mb-4">
+                    <h2 className="text-base sm:text-lg font-semibold text-gray-800 mb-2">
+                      Team Sick Days, Last 12 Months
+                    </h2>
+                    <p className="text-xs sm:text-sm text-gray-600">
+                      {grid.sharingMembers === 0
+                        ? "Nobody shares with this team yet. Choose what you share below."
+                        : `Each square shows how many of the ${grid.sharingMembers} ${grid.sharingMembers === 1 ? "member" : "members"} sharing with the team were out sick.`}
+                    </p>
+                  </div>
+
+                  <DayGrid
+                    readOnly
+                    initialData={grid.days.map(({ date, intensity }) => ({ date, intensity }))}
+                  />
+
+                  <div className="mt-4 sm:mt-6">
+                    <IntensityLegend />
+                  </div>
+                </div>
+
+                <UserStats readOnly heading="Team Statistics" initialStats={grid.stats} />
+              </div>
+            </UserPreferencesProvider>
+
+            {sharedGrids.length > 0 && (
+              <div className="bg-white rounded-lg shadow-sm border p-3 sm:p-6 space-y-6">
+                <h2 className="text-base sm:text-lg font-semibold text-gray-800">
+                  Shared Grids
+                </h2>
+                {sharedGrids.map(({ member, theme, scale, initialData }) => (
+                  <UserPreferencesProvider
+                    key={member.username}
+                    initialPreferences={{ timezone, theme, scale }}
+                  >
+                    <div>
+                      <h3 className="text-sm font-medium text-gray-700 mb-2">
+                        {member.name || member.username}{" "}
+                        <span className="text-gray-500 font-normal">@{member.username}</span>
+                      </h3>
+                      <DayGrid readOnly initialData={initialData} />
+                    </div>
+                  </UserPreferencesProvider>
+                ))}
+              </div>
+            )}
+
+            <TeamMembers
+              teamId={team.id}
+              teamName={team.name}
+              viewerUsername={viewer.username}
+              viewerRole={team.role}
+              viewerShareMode={team.share_mode}
+              initialMembers={members.map(toPublicTeamMember)}
+              initialInvites={invites.map(({ id, username, email, role }) => ({ id, username, email, role }))}
+            />
+          </main>
+        </div>
+      </div>
+    </SessionProvider>
+  );
+}
@@ -0,0 +1,103 @@
+import { ImageResponse } from "next/og";
+import { APP_DESCRIPTION, APP_NAME, THEME_COLOR } from "@/lib/app";
+import { getUserGridDataByDateRange } from "@/lib/database";
+import { generateRolling12Months } from "@/lib/dates";
+import { EMBED_CACHE_CONTROL, layoutEmbed } from "@/lib/embed";
+import { EmbedGraphic } from "@/lib/embedImage";
+import { getIntensityScale } from "@/lib/intensity";
+import { getProfileRange, getProfileStats, getPublicProfile } from "@/lib/profile";
+import { getTheme } from "@/lib/themes";
+
+// Share image for /u/<username>, shown when the link unfurls in Slack,
+// Twitter and the like: the owner's last 12 months and two headline stats.
+
+export const alt = `Sick days tracked on ${APP_NAME}`;
+export const size = { width: 1200, height: 630 };
+export const contentType = "image/png";
+
+function Stat({ label, value }: { label: string; value: number }) {
+  return (
+    <div style={{ display: "flex", flexDirection: "column", marginRight: 64 }}>
+      <div style={{ fontSize: 64, fontWeight: 700, color: "#111827", lineHeight: 1 }}>{value}</div>
+      <div style={{ fontSize: 24, color: "#4b5563", marginTop: 8 }}>{label}</div>
+    </div>
+  );
+}
+
+export default async function Image({ params }: { params: Promise<{ username: string }> }) {
+  const { username } = await params;
+  const user = await getPublicProfile(username);
+  const headers = { "Cache-Control": EMBED_CACHE_CONTROL };
+
+  // Private and missing profiles get the generic card, so nothing leaks
+  if (!user) {
+    return new ImageResponse(
+      (
+        <div
+          style={{
+            display: "flex",
+            flexDirection: "column",
+            justifyContent: "center",
+            width: "100%",
+            height: "100%",
+            padding: 80,
+            backgroundColor: "#ffffff",
+          }}
+        >
+          <div style={{ fontSize: 72, fontWeight: 700, color: THEME_COLOR }}>{APP_NAME}</div>
+          <div style={{ fontSize: 32, color: "#4b5563", marginTop: 16 }}>{APP_DESCRIPTION}</div>
+        </div>
+      ),
+      { ...size, headers }
+    );
+  }
+
+  const { today, startDate, endDate } = getProfileRange(user);
+  const [gridData, stats] = await Promise.all([
+    getUserGridDataByDateRange(user.id, startDate, endDate),
+    getProfileStats(user),
+  ]);
+
+  const layout = layoutEmbed({
+    title: "Last 12 months",
+    dates: generateRolling12Months(today),
+    intensities: new Map(gridData.map(square => [square.date, square.intensity])),
+    today,
+    theme: getTheme(user.theme),
+    dark: false,
+    scale: getIntensityScale(user.intensity_levels, user.intensity_labels),
+    cellSize: 15,
+  });
+
+  return new ImageResponse(
+    (
+      <div
+        style={{
+          display: "flex",
+          flexDirection: "column",
+          justifyContent: "space-between",
+          width: "100%",
+          height: "100%",
+          padding: "48px 0",
+          backgroundColor: "#ffffff",
+        }}
+      >
+        <div style={{ display: "flex", justifyContent: "space-between", alignItems: "flex-start", padding: "0 48px" }}>
+          <div style={{ display: "flex", flexDirection: "column" }}>
+            <div style={{ fontSize: 52, fontWeight: 700, color: "#111827" }}>{user.name || user.username}</div>
+            <div style={{ fontSize: 28, color: "#6b7280", marginTop: 4 }}>@{user.username}</div>
+          </div>
+          <div style={{ fontSize: 28, fontWeight: 700, color: THEME_COLOR }}>{APP_NAME}</div>
+        </div>
+        <div style={{ display: "flex", padding: "0 48px" }}>
+          <Stat label="Total sick days" value={stats.totalSickDays} />
+          <Stat label="Longest streak" value={stats.longestStreak} />
+        </div>
+        <div style={{ display: "flex", justifyContent: "center" }}>
+          <EmbedGraphic layout={layout} />
+        </div>
+      </div>
+    ),
+    { ...size, headers }
+  );
+}
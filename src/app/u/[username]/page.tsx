@@ -0,0 +1,151 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import DayGrid from "@/components/DayGrid";
+import FollowButton from "@/components/FollowButton";
+import IntensityLegend from "@/components/IntensityLegend";
+import UserStats from "@/components/UserStats";
+import SessionProvider from "@/components/SessionProvider";
+import { getCategoryStatsByDateRange, getUserGridDataByDateRange } from "@/lib/database";
+import UserPreferencesProvider from "@/components/UserPreferencesProvider";
+import { APP_NAME } from "@/lib/app";
+import { DEFAULT_TIMEZONE } from "@/lib/dates";
+import { getIntensityScale } from "@/lib/intensity";
+import { getProfileRange, getProfileStats, getPublicProfile } from "@/lib/profile";
+import { DEFAULT_THEME, isThemeId } from "@/lib/themes";
+
+export const dynamic = "force-dynamic";
+
+// Unfurls in Slack, Twitter and the like; the image is opengraph-image.tsx
+export async function generateMetadata({
+  params,
+}: {
+  params: Promise<{ username: string }>;
+}): Promise<Metadata> {
+  const { username } = await params;
+  const user = await getPublicProfile(username);
+
+  if (!user) {
+    return { title: "Profile not found", robots: { index: false } };
+  }
+
+  const stats = await getProfileStats(user);
+  const displayName = user.name || user.username;
+  const title = `${displayName} (@${user.username})`;
+  const description = `${stats.totalSickDays} sick ${stats.totalSickDays === 1 ? "day" : "days"} in the last 12 months, longest streak ${stats.longestStreak} ${stats.longestStreak === 1 ? "day" : "days"}. Tracked on ${APP_NAME}.`;
+
+  return {
+    title,
+    description,
+    openGraph: {
+      type: "profile",
+      title,
+      description,
+      url: `/u/${user.username}`,
+      siteName: APP_NAME,
+      username: user.username ?? undefined,
+    },
+    twitter: {
+      card: "summary_large_image",
+      title,
+      description,
+    },
+  };
+}
+
+export default async function PublicProfile({
+  params,
+}: {
+  params: Promise<{ username: string }>;
+}) {
+  const { username } = await params;
+  const user = await getPublicProfile(username);
+
+  // Private and missing profiles are indistinguishable from the outside
+  if (!user) {
+    notFound();
+  }
+
+  // Render the grid as the owner sees it, in their timezone, colors and scale
+  const timezone = user.timezone || DEFAULT_TIMEZONE;
+  const theme = isThemeId(user.theme) ? user.theme : DEFAULT_THEME;
+  const scale = getIntensityScale(user.intensity_levels, user.intensity_labels);
+  const { startDate, endDate } = getProfileRange(user);
+  const [gridData, stats, categories] = await Promise.all([
+    getUserGridDataByDateRange(user.id, startDate, endDate),
+    getProfileStats(user),
+    getCategoryStatsByDateRange(user.id, startDate, endDate),
+  ]);
+
+  const initialData = gridData.map((square) => ({
+    date: square.date,
+    intensity: square.intensity,
+    // Notes stay private; tags are shown in the tooltip
+    tags: square.tags,
+    category: square.category,
+  }));
+
+  const displayName = user.name || user.username;
+
+  return (
+    <SessionProvider>
+      <UserPreferencesProvider initialPreferences={{ timezone, theme, scale }}>
+        <div className="min-h-screen bg-gray-50 py-4 sm:py-8">
+          <div className="max-w-7xl mx-auto px-2 sm:px-4">
+            <header className="mb-6 sm:mb-8">
+              <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-4 mb-4">
+                <div className="flex items-center gap-3">
+                  {user.image && (
+                    <img
+                      src={user.image}
+                      alt={displayName || "User"}
+                      className="w-12 h-12 rounded-full"
+                    />
+                  )}
+                  <div>
+                    <h1 className="text-2xl sm:text-3xl font-bold text-gray-900">
+                      {displayName}
+                    </h1>
+                    <p className="text-gray-600 text-sm sm:text-base">
+                      @{user.username}
+                    </p>
+                  </div>
+                </div>
+                <div className="self-start sm:self-auto flex items-center gap-4">
+                  {user.username && <FollowButton username={user.username} />}
+                  <Link
+                    href="/"
+                    className="text-sm text-gray-600 hover:text-gray-900"
+                  >
+                    Track your own on SickSquares
+                  </Link>
+                </div>
+              </div>
+            </header>
+
+            <main className="space-y-4 sm:space-y-6">
+              <div className="bg-white rounded-lg shadow-sm border p-3 sm:p-6">
+                <div className="mb-4">
+                  <h2 className="text-base sm:text-lg font-semibold text-gray-800 mb-2">
+                    Last 12 Months
+                  </h2>
+                  <p className="text-xs sm:text-sm text-gray-600">
+                    Hover over squares to see dates.
+                  </p>
+                </div>
+
+                <DayGrid readOnly initialData={initialData} />
+
+                <div className="mt-4 sm:mt-6">
+                  <IntensityLegend />
+                </div>
+              </div>
+
+              <UserStats readOnly initialStats={stats} initialCategories={categories} />
+            </main>
+          </div>
+        </div>
+      </UserPreferencesProvider>
+    </SessionProvider>
+  );
+}
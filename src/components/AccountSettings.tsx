@@ -0,0 +1,494 @@
+'use client';
+
+import React from 'react';
+import Link from 'next/link';
+import { useSession } from 'next-auth/react';
+import { getColorMode, setColorMode } from '@/lib/colorMode';
+import { DEFAULT_TIMEZONE } from '@/lib/dates';
+import { DEFAULT_LABELS, getIntensityScale, MAX_LABEL_LENGTH, SCALE_SIZES, validateIntensityLabels, type ScaleSize } from '@/lib/intensity';
+import { COLOR_MODES, getTheme, THEMES, type ColorMode } from '@/lib/themes';
+import { validateUsername, USERNAME_MAX_LENGTH } from '@/lib/username';
+import { useDarkMode } from './UserPreferencesProvider';
+
+const timeZones = Array.from(new Set([DEFAULT_TIMEZONE, ...Intl.supportedValuesOf('timeZone')]));
+
+interface AccountData {
+  username: string | null;
+  is_public: boolean;
+  share_activity: boolean;
+  username_adjusted: boolean;
+  timezone: string | null;
+  theme: string | null;
+  intensity_levels: number;
+  intensity_labels: string[] | null;
+}
+
+const AccountSettings: React.FC = () => {
+  const { data: session, status } = useSession();
+  const [account, setAccount] = React.useState<AccountData | null>(null);
+  const [username, setUsername] = React.useState('');
+  const [loading, setLoading] = React.useState(true);
+  const [saving, setSaving] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+  const [message, setMessage] = React.useState<string | null>(null);
+  const [calendarToken, setCalendarToken] = React.useState<string | null>(null);
+  const [scaleLevels, setScaleLevels] = React.useState<ScaleSize>(5);
+  const [scaleLabels, setScaleLabels] = React.useState<string[]>(DEFAULT_LABELS[5]);
+  const [colorMode, setColorModeState] = React.useState<ColorMode>('system');
+  const dark = useDarkMode();
+
+  // The page setting lives in this browser, not on the account
+  React.useEffect(() => {
+    setColorModeState(getColorMode());
+  }, []);
+
+  // Start the scale form from what is saved whenever the account changes
+  React.useEffect(() => {
+    if (!account) return;
+    const scale = getIntensityScale(account.intensity_levels, account.intensity_labels);
+    setScaleLevels(scale.levels);
+    setScaleLabels(scale.labels);
+  }, [account]);
+
+  React.useEffect(() => {
+    const loadAccount = async () => {
+      if (!session?.user?.email) {
+        setLoading(false);
+        return;
+      }
+
+      try {
+        const response = await fetch('/api/user');
+        if (response.ok) {
+          const { user } = await response.json();
+          setAccount(user);
+          setUsername(user.username || '');
+        }
+
+        const calendarResponse = await fetch('/api/calendar/subscription');
+        if (calendarResponse.ok) {
+          const { token } = await calendarResponse.json();
+          setCalendarToken(token);
+        }
+      } catch (error) {
+        console.error('Error loading account settings:', error);
+      }
+      setLoading(false);
+    };
+
+    loadAccount();
+  }, [session?.user?.email]);
+
+  const saveChanges = async (changes: Partial<AccountData>, successMessage: string) => {
+    setSaving(true);
+    setError(null);
+    setMessage(null);
+
+    try {
+      const response = await fetch('/api/user', {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(changes),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        setAccount(data.user);
+        setUsername(data.user.username || '');
+        setMessage(successMessage);
+      } else {
+        setError(data.error || 'Something went wrong');
+      }
+    } catch (error) {
+      console.error('Error saving account settings:', error);
+      setError('Could not reach the server');
+    }
+    setSaving(false);
+  };
+
+  const handleUsernameSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    const newUsername = username.trim().toLowerCase();
+
+    const validationError = validateUsername(newUsername);
+    if (validationError) {
+      setError(validationError);
+      setMessage(null);
+      return;
+    }
+
+    saveChanges({ username: newUsername }, 'Username updated');
+  };
+
+  const handleTimezoneChange = (timezone: string) => {
+    saveChanges({ timezone }, `Timezone set to ${timezone}`);
+  };
+
+  const handleThemeChange = (theme: string) => {
+    saveChanges({ theme }, `Theme set to ${getTheme(theme).name}`);
+  };
+
+  const handleScaleLevelsChange = (levels: ScaleSize) => {
+    setScaleLevels(levels);
+    setScaleLabels(DEFAULT_LABELS[levels]);
+  };
+
+  const handleScaleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    const labelsError = validateIntensityLabels(scaleLabels, scaleLevels);
+    if (labelsError) {
+      setError(labelsError);
+      setMessage(null);
+      return;
+    }
+
+    saveChanges({ intensity_levels: scaleLevels, intensity_labels: scaleLabels }, 'Intensity scale saved');
+  };
+
+  const handleColorModeChange = (mode: ColorMode) => {
+    setColorMode(mode);
+    setColorModeState(mode);
+  };
+
+  const handlePrivacyToggle = () => {
+    if (!account) return;
+    const isPublic = !account.is_public;
+    saveChanges({ is_public: isPublic }, isPublic ? 'Your grid is now public' : 'Your grid is now private');
+  };
+
+  const handleActivityToggle = () => {
+    if (!account) return;
+    const shareActivity = !account.share_activity;
+    saveChanges(
+      { share_activity: shareActivity },
+      shareActivity ? 'Followers now see your weekly activity' : 'Your activity is hidden from followers'
+    );
+  };
+
+  const updateCalendarSubscription = async (method: 'POST' | 'DELETE', successMessage: string) => {
+    setSaving(true);
+    setError(null);
+    setMessage(null);
+
+    try {
+      const response = await fetch('/api/calendar/subscription', { method });
+      const data = await response.json();
+
+      if (response.ok) {
+        setCalendarToken(data.token);
+        setMessage(successMessage);
+      } else {
+        setError(data.error || 'Something went wrong');
+      }
+    } catch (error) {
+      console.error('Error updating calendar subscription:', error);
+      setError('Could not reach the server');
+    }
+    setSaving(false);
+  };
+
+  const calendarUrl = calendarToken && typeof window !== 'undefined'
+    ? `${window.location.origin}/api/calendar/feed/${calendarToken}.ics`
+    : null;
+
+  const embedMarkdown = account?.is_public && account.username && typeof window !== 'undefined'
+    ? `![Sick days](${window.location.origin}/api/embed/${account.username}.svg)`
+    : null;
+
+  if (status === 'loading' || loading) {
+    return (
+      <div className="bg-white rounded-lg shadow-sm border p-4 sm:p-6">
+        <div className="text-gray-500">Loading settings...</div>
+      </div>
+    );
+  }
+
+  if (!session?.user?.email) {
+    return (
+      <div className="bg-white rounded-lg shadow-sm border p-4 sm:p-6">
+        <p className="text-sm text-gray-600">Sign in with GitHub to manage your account.</p>
+      </div>
+    );
+  }
+
+  if (!account) {
+    return (
+      <div className="bg-white rounded-lg shadow-sm border p-4 sm:p-6">
+        <div className="text-gray-500">Could not load your settings</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border p-4 sm:p-6 space-y-6">
+      <form onSubmit={handleUsernameSubmit}>
+        <h3 className="text-base sm:text-lg font-semibold text-gray-800 mb-2">Username</h3>
+        <p className="text-xs sm:text-sm text-gray-600 mb-3">
+          Used in your profile link. Lowercase letters, numbers and hyphens only.
+        </p>
+        {account.username_adjusted && (
+          <p className="text-xs sm:text-sm text-amber-700 mb-3">
+            The username matching your email was already taken, so we picked this one for you.
+          </p>
+        )}
+        <div className="flex flex-col sm:flex-row gap-2">
+          <input
+            type="text"
+            value={username}
+            onChange={event => setUsername(event.target.value)}
+            maxLength={USERNAME_MAX_LENGTH}
+            className="flex-1 px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            aria-label="Username"
+          />
+          <button
+            type="submit"
+            disabled={saving || username === account.username}
+            className="px-4 py-2 text-sm font-medium text-white bg-gray-900 rounded-md hover:bg-gray-800 disabled:opacity-50"
+          >
+            Save
+          </button>
+        </div>
+      </form>
+
+      <div>
+        <h3 className="text-base sm:text-lg font-semibold text-gray-800 mb-2">Privacy</h3>
+        <label className="flex items-center gap-3 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={account.is_public}
+            onChange={handlePrivacyToggle}
+            disabled={saving}
+            className="w-4 h-4"
+          />
+          Make my grid and stats public
+        </label>
+        {account.is_public && account.username && (
+          <p className="text-xs sm:text-sm text-gray-600 mt-2">
+            Anyone with the link can view{' '}
+            <Link href={`/u/${account.username}`} className="text-indigo-600 hover:underline">
+              /u/{account.username}
+            </Link>
+          </p>
+        )}
+        {account.is_public && (
+          <label className="flex items-center gap-3 text-sm text-gray-700 mt-3">
+            <input
+              type="checkbox"
+              checked={account.share_activity}
+              onChange={handleActivityToggle}
+              disabled={saving}
+              className="w-4 h-4"
+            />
+            Show people who follow me how many sick days I log each week
+          </label>
+        )}
+        {embedMarkdown && (
+          <div className="mt-3 space-y-1">
+            <p className="text-xs sm:text-sm text-gray-600">
+              Embed your grid in a README or wiki page (use <code>.png</code> where SVG is not supported;
+              add <code>?mode=dark</code>, <code>size=small</code> or <code>range=2024</code> to adjust it):
+            </p>
+            <input
+              type="text"
+              value={embedMarkdown}
+              readOnly
+              onFocus={event => event.target.select()}
+              className="w-full px-3 py-2 text-xs sm:text-sm text-gray-700 border border-gray-300 rounded-md bg-gray-50"
+              aria-label="Embed Markdown"
+            />
+          </div>
+        )}
+      </div>
+
+      <div>
+        <h3 className="text-base sm:text-lg font-semibold text-gray-800 mb-2">Timezone</h3>
+        <p className="text-xs sm:text-sm text-gray-600 mb-3">
+          Decides which day counts as today when you log and which days count as the future.
+        </p>
+        <select
+          value={account.timezone ?? DEFAULT_TIMEZONE}
+          onChange={event => handleTimezoneChange(event.target.value)}
+          disabled={saving}
+          className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md bg-white focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          aria-label="Timezone"
+        >
+          {timeZones.map(timeZone => (
+            <option key={timeZone} value={timeZone}>{timeZone.replace(/_/g, ' ')}</option>
+          ))}
+        </select>
+      </div>
+
+      <div>
+        <h3 className="text-base sm:text-lg font-semibold text-gray-800 mb-2">Appearance</h3>
+        <p className="text-xs sm:text-sm text-gray-600 mb-3">
+          The colors of your squares, also used on your public profile and embeds.
+        </p>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 mb-4" role="radiogroup" aria-label="Color theme">
+          {THEMES.map(theme => (
+            <label
+              key={theme.id}
+              className={`flex items-center justify-between gap-3 px-3 py-2 text-sm text-gray-700 border rounded-md cursor-pointer ${
+                getTheme(account.theme).id === theme.id ? 'border-indigo-500 ring-1 ring-indigo-500' : 'border-gray-300'
+              }`}
+            >
+              <span className="flex items-center gap-2">
+                <input
+                  type="radio"
+                  name="theme"
+                  value={theme.id}
+                  checked={getTheme(account.theme).id === theme.id}
+                  onChange={() => handleThemeChange(theme.id)}
+                  disabled={saving}
+                  className="w-4 h-4"
+                />
+                {theme.name}
+              </span>
+              <span className="flex gap-1" aria-hidden="true">
+                {(dark ? theme.dark : theme.light).map((color, level) => (
+                  <span
+                    key={level}
+                    className="w-3 h-3 border rounded-sm"
+                    style={{ backgroundColor: color.fill, borderColor: color.border }}
+                  />
+                ))}
+              </span>
+            </label>
+          ))}
+        </div>
+        <label className="block text-sm text-gray-700">
+          <span className="font-medium">Page appearance on this device</span>
+          <select
+            value={colorMode}
+            onChange={event => handleColorModeChange(event.target.value as ColorMode)}
+            className="mt-1 block w-full px-3 py-2 text-sm border border-gray-300 rounded-md bg-white focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          >
+            {COLOR_MODES.map(mode => (
+              <option key={mode.value} value={mode.value}>{mode.label}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <form onSubmit={handleScaleSubmit}>
+        <h3 className="text-base sm:text-lg font-semibold text-gray-800 mb-2">Intensity Scale</h3>
+        <p className="text-xs sm:text-sm text-gray-600 mb-3">
+          How many levels you log and what each one means, for example the severity of a flare.
+          The names show up in tooltips, the legend, your stats and exports.
+        </p>
+        <label className="block text-sm text-gray-700 mb-3">
+          <span className="font-medium">Levels</span>
+          <select
+            value={scaleLevels}
+            onChange={event => handleScaleLevelsChange(Number(event.target.value) as ScaleSize)}
+            disabled={saving}
+            className="mt-1 block w-full px-3 py-2 text-sm border border-gray-300 rounded-md bg-white focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          >
+            {SCALE_SIZES.map(size => (
+              <option key={size} value={size}>{size} levels (0 to {size - 1})</option>
+            ))}
+          </select>
+        </label>
+        <div className="space-y-2 mb-3">
+          {scaleLabels.map((label, level) => (
+            <label key={level} className="flex items-center gap-3 text-sm text-gray-700">
+              <span className="w-4 text-right font-medium">{level}</span>
+              <input
+                type="text"
+                value={label}
+                onChange={event => setScaleLabels(scaleLabels.map((existing, index) => (index === level ? event.target.value : existing)))}
+                maxLength={MAX_LABEL_LENGTH}
+                className="flex-1 px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                aria-label={`Name for level ${level}`}
+              />
+            </label>
+          ))}
+        </div>
+        {scaleLevels !== account.intensity_levels && (
+          <p className="text-xs sm:text-sm text-amber-700 mb-3">
+            Every day you have logged will be converted to the new scale.
+            {scaleLevels === 3
+              ? ' Levels 1 and 2 become 1, levels 3 and 4 become 2.'
+              : ' Level 1 becomes 2 and level 2 becomes 4.'}
+          </p>
+        )}
+        <div className="flex flex-wrap gap-2">
+          <button
+            type="submit"
+            disabled={saving}
+            className="px-4 py-2 text-sm font-medium text-white bg-gray-900 rounded-md hover:bg-gray-800 disabled:opacity-50"
+          >
+            Save scale
+          </button>
+          <button
+            type="button"
+            onClick={() => setScaleLabels(DEFAULT_LABELS[scaleLevels])}
+            disabled={saving}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+          >
+            Use default names
+          </button>
+        </div>
+      </form>
+
+      <div>
+        <h3 className="text-base sm:text-lg font-semibold text-gray-800 mb-2">Calendar</h3>
+        <p className="text-xs sm:text-sm text-gray-600 mb-3">
+          Your sick streaks as all-day events.{' '}
+          <a href="/api/calendar" download className="text-indigo-600 hover:underline">
+            Download an .ics file
+          </a>{' '}
+          or subscribe from Google Calendar or Outlook so the events stay up to date.
+        </p>
+        {calendarUrl ? (
+          <div className="space-y-2">
+            <input
+              type="text"
+              value={calendarUrl}
+              readOnly
+              onFocus={event => event.target.select()}
+              className="w-full px-3 py-2 text-xs sm:text-sm text-gray-700 border border-gray-300 rounded-md bg-gray-50"
+              aria-label="Calendar subscription URL"
+            />
+            <p className="text-xs text-gray-500">
+              Anyone with this link can see when you were sick. Replace it if it leaks.
+            </p>
+            <div className="flex flex-wrap gap-2">
+              <button
+                type="button"
+                onClick={() => updateCalendarSubscription('POST', 'Subscription link replaced')}
+                disabled={saving}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+              >
+                Replace link
+              </button>
+              <button
+                type="button"
+                onClick={() => updateCalendarSubscription('DELETE', 'Subscription link turned off')}
+                disabled={saving}
+                className="px-4 py-2 text-sm font-medium text-red-600 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+              >
+                Turn off
+              </button>
+            </div>
+          </div>
+        ) : (
+          <button
+            type="button"
+            onClick={() => updateCalendarSubscription('POST', 'Subscription link created')}
+            disabled={saving}
+            className="px-4 py-2 text-sm font-medium text-white bg-gray-900 rounded-md hover:bg-gray-800 disabled:opacity-50"
+          >
+            Create subscription link
+          </button>
+        )}
+      </div>
+
+      {error && <div className="text-sm text-red-600">{error}</div>}
+      {message && <div className="text-sm text-green-700">{message}</div>}
+    </div>
+  );
+};
+
+export default AccountSettings;
@@ -0,0 +1,70 @@
+'use client';
+
+import React from 'react';
+import Link from 'next/link';
+import { describeWeek } from '@/lib/feed';
+import { useToday, useUserPreferences } from './UserPreferencesProvider';
+
+interface ActivityItem {
+  username: string;
+  name: string | null;
+  image: string | null;
+  weekStart: string;
+  sickDays: number;
+}
+
+// "alex logged 3 sick days this week", for people who share their activity
+const ActivityFeed: React.FC = () => {
+  const { loading: preferencesLoading } = useUserPreferences();
+  const today = useToday();
+  const [items, setItems] = React.useState<ActivityItem[]>([]);
+  const [loading, setLoading] = React.useState(true);
+
+  React.useEffect(() => {
+    const loadFeed = async () => {
+      try {
+        const response = await fetch('/api/feed');
+        if (response.ok) {
+          const data = await response.json();
+          setItems(data.items);
+        }
+      } catch (error) {
+        console.error('Error loading activity feed:', error);
+      }
+      setLoading(false);
+    };
+
+    loadFeed();
+  }, []);
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border p-4 sm:p-6">
+      <h2 className="text-base sm:text-lg font-semibold text-gray-800 mb-3">Activity</h2>
+      {loading || preferencesLoading ? (
+        <div className="text-sm text-gray-500">Loading activity...</div>
+      ) : items.length === 0 ? (
+        <p className="text-sm text-gray-600">
+          No recent sick days from people you follow. Only people who choose to share their weekly activity appear here.
+        </p>
+      ) : (
+        <ul className="space-y-2">
+          {items.map(item => (
+            <li key={`${item.username}-${item.weekStart}`} className="flex items-center gap-2 text-sm text-gray-700">
+              {item.image && (
+                <img src={item.image} alt="" className="w-6 h-6 rounded-full" />
+              )}
+              <span>
+                <Link href={`/u/${item.username}`} className="font-medium text-gray-900 hover:underline">
+                  {item.name || item.username}
+                </Link>{' '}
+                logged {item.sickDays} sick {item.sickDays === 1 ? 'day' : 'days'} {describeWeek(item.weekStart, today)}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ActivityFeed;
@@ -1,10 +1,20 @@
 'use client';
 
+import Link from 'next/link';
 import { useSession, signIn, signOut } from 'next-auth/react';
+import { API_CACHE_NAME } from '@/lib/app';
 
 const AuthButton = () => {
   const { data: session } = useSession();
 
+  // Offline copies of this account's data must not outlive the session
+  const handleSignOut = async () => {
+    if ('caches' in window) {
+      await caches.delete(API_CACHE_NAME).catch(() => false);
+    }
+    signOut();
+  };
+
   if (session) {
     return (
       <div className="flex items-center gap-4">
@@ -18,8 +28,26 @@ const AuthButton = () => {
             {session.user?.name || session.user?.email}
           </span>
         </div>
+        <Link
+          href="/following"
+          className="text-sm font-medium text-gray-700 hover:text-gray-900"
+        >
+          Following
+        </Link>
+        <Link
+          href="/teams"
+          className="text-sm font-medium text-gray-700 hover:text-gray-900"
+        >
+          Teams
+        </Link>
+        <Link
+          href="/settings"
+          className="text-sm font-medium text-gray-700 hover:text-gray-900"
+        >
+          Settings
+        </Link>
         <button
-          onClick={() => signOut()}
+          onClick={handleSignOut}
           className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
         >
           Sign out
@@ -0,0 +1,282 @@
+'use client';
+
+import React from 'react';
+import { useSession } from 'next-auth/react';
+import { addDays, addYears, formatDateKey } from '@/lib/dates';
+import type { DateRange, MonthlyStats, NumericStatKey, UserStats } from '@/lib/stats';
+import { useToday, useUserPreferences } from './UserPreferencesProvider';
+
+interface ComparisonSide {
+  range: DateRange;
+  stats: UserStats;
+  months: MonthlyStats[];
+}
+
+interface ComparisonData {
+  a: ComparisonSide;
+  b: ComparisonSide;
+  deltas: Record<NumericStatKey, number>;
+}
+
+type Preset = 'ytd' | 'quarter' | 'last-90' | 'custom';
+
+const presetLabels: Record<Preset, string> = {
+  'ytd': 'This year vs last year, to date',
+  'quarter': 'This quarter vs the same quarter last year',
+  'last-90': 'Last 90 days vs the 90 days before',
+  'custom': 'Custom ranges',
+};
+
+// Metrics worth comparing; year-to-date and the current streak describe today,
+// not the range, so they would always match
+const comparedMetrics: { key: NumericStatKey; label: string; format: (value: number) => string }[] = [
+  { key: 'totalSickDays', label: 'Sick days', format: value => String(value) },
+  { key: 'percentageOfYear', label: 'Share of days sick', format: value => `${value}%` },
+  { key: 'averageIntensity', label: 'Average intensity', format: value => value.toFixed(1) },
+  { key: 'longestStreak', label: 'Longest streak', format: value => `${value}d` },
+  { key: 'averageSickStreak', label: 'Average streak', format: value => `${value}d` },
+  { key: 'recoveryRate', label: 'Days between illnesses', format: value => `${value}d` },
+];
+
+function getPresetRanges(preset: Exclude<Preset, 'custom'>, today: string): { a: DateRange; b: DateRange } {
+  if (preset === 'last-90') {
+    return {
+      a: { startDate: addDays(today, -179), endDate: addDays(today, -90) },
+      b: { startDate: addDays(today, -89), endDate: today },
+    };
+  }
+
+  // Year to date, or quarter to date, against the same days a year earlier
+  const month = Number(today.slice(5, 7));
+  const startMonth = preset === 'quarter' ? month - ((month - 1) % 3) : 1;
+  const startDate = `${today.slice(0, 4)}-${String(startMonth).padStart(2, '0')}-01`;
+  return {
+    a: { startDate: addYears(startDate, -1), endDate: addYears(today, -1) },
+    b: { startDate, endDate: today },
+  };
+}
+
+function formatRange(range: DateRange): string {
+  const options: Intl.DateTimeFormatOptions = { year: 'numeric', month: 'short', day: 'numeric' };
+  return `${formatDateKey(range.startDate, options)} – ${formatDateKey(range.endDate, options)}`;
+}
+
+function formatDelta(delta: number): string {
+  return delta > 0 ? `+${delta}` : String(delta);
+}
+
+// Paired bars per month: range A in gray, range B in green
+const MonthlyBars: React.FC<{
+  title: string;
+  monthsA: MonthlyStats[];
+  monthsB: MonthlyStats[];
+  value: (month: MonthlyStats) => number;
+}> = ({ title, monthsA, monthsB, value }) => {
+  const count = Math.max(monthsA.length, monthsB.length);
+  const max = Math.max(1, ...monthsA.map(value), ...monthsB.map(value));
+
+  return (
+    <figure className="bg-white rounded-lg border p-4">
+      <figcaption className="text-sm font-medium text-gray-700 mb-3">{title}</figcaption>
+      <div className="flex items-end gap-2 h-20 overflow-x-auto" role="img" aria-label={title}>
+        {Array.from({ length: count }, (_, index) => {
+          const monthA = monthsA[index];
+          const monthB = monthsB[index];
+          const label = monthB ?? monthA;
+          return (
+            <div key={index} className="flex flex-col items-center gap-1 flex-shrink-0">
+              <div className="flex items-end gap-0.5 h-14">
+                <div
+                  className="w-2 bg-gray-300 rounded-t-sm"
+                  style={{ height: `${monthA ? (value(monthA) / max) * 100 : 0}%` }}
+                  title={monthA ? `${formatDateKey(`${monthA.month}-01`, { month: 'short', year: 'numeric' })}: ${value(monthA)}` : undefined}
+                />
+                <div
+                  className="w-2 bg-green-600 rounded-t-sm"
+                  style={{ height: `${monthB ? (value(monthB) / max) * 100 : 0}%` }}
+                  title={monthB ? `${formatDateKey(`${monthB.month}-01`, { month: 'short', year: 'numeric' })}: ${value(monthB)}` : undefined}
+                />
+              </div>
+              <span className="text-[10px] text-gray-500">
+                {formatDateKey(`${label.month}-01`, { month: 'short' })}
+              </span>
+            </div>
+          );
+        })}
+      </div>
+    </figure>
+  );
+};
+
+const ComparisonPanel: React.FC = () => {
+  const { data: session } = useSession();
+  const { loading: preferencesLoading } = useUserPreferences();
+  const today = useToday();
+  const [preset, setPreset] = React.useState<Preset>('ytd');
+  const [customRanges, setCustomRanges] = React.useState<{ a: DateRange; b: DateRange } | null>(null);
+  const [comparison, setComparison] = React.useState<ComparisonData | null>(null);
+  const [loading, setLoading] = React.useState(true);
+  const [error, setError] = React.useState<string | null>(null);
+
+  const ranges = preset === 'custom'
+    ? customRanges ?? getPresetRanges('ytd', today)
+    : getPresetRanges(preset, today);
+  const query = `startA=${ranges.a.startDate}&endA=${ranges.a.endDate}&startB=${ranges.b.startDate}&endB=${ranges.b.endDate}`;
+
+  React.useEffect(() => {
+    if (!session?.user?.email || preferencesLoading) return;
+
+    const loadComparison = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const response = await fetch(`/api/stats/compare?${query}`);
+        const data = await response.json();
+        if (response.ok) {
+          setComparison(data);
+        } else {
+          setError(data.error || 'Could not compare these ranges');
+        }
+      } catch (error) {
+        console.error('Error loading comparison:', error);
+        setError('Could not reach the server');
+      }
+      setLoading(false);
+    };
+
+    loadComparison();
+  }, [session?.user?.email, preferencesLoading, query]);
+
+  if (!session?.user?.email) return null;
+
+  const updateCustomRange = (side: 'a' | 'b', field: keyof DateRange, value: string) => {
+    setCustomRanges({ ...ranges, [side]: { ...ranges[side], [field]: value } });
+  };
+
+  const sickDaysA = comparison?.a.stats.totalSickDays ?? 0;
+  const sickDaysB = comparison?.b.stats.totalSickDays ?? 0;
+  const difference = sickDaysB - sickDaysA;
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border p-4 sm:p-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 mb-4">
+        <h3 className="text-base sm:text-lg font-semibold text-gray-800">Compare Periods</h3>
+        <select
+          value={preset}
+          onChange={event => {
+            const next = event.target.value as Preset;
+            if (next === 'custom' && !customRanges) setCustomRanges(ranges);
+            setPreset(next);
+          }}
+          className="self-start sm:self-auto px-2 py-1 text-sm border border-gray-300 rounded-md bg-white"
+          aria-label="Periods to compare"
+        >
+          {(Object.keys(presetLabels) as Preset[]).map(key => (
+            <option key={key} value={key}>{presetLabels[key]}</option>
+          ))}
+        </select>
+      </div>
+
+      {preset === 'custom' && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 mb-4 text-sm text-gray-700">
+          {(['a', 'b'] as const).map(side => (
+            <fieldset key={side} className="flex flex-wrap items-center gap-2">
+              <legend className="sr-only">Range {side.toUpperCase()}</legend>
+              <span className="font-medium w-6">{side.toUpperCase()}</span>
+              <input
+                type="date"
+                value={ranges[side].startDate}
+                max={today}
+                onChange={event => updateCustomRange(side, 'startDate', event.target.value)}
+                className="px-2 py-1 border border-gray-300 rounded-md"
+                aria-label={`Range ${side.toUpperCase()} start`}
+              />
+              <span>to</span>
+              <input
+                type="date"
+                value={ranges[side].endDate}
+                max={today}
+                onChange={event => updateCustomRange(side, 'endDate', event.target.value)}
+                className="px-2 py-1 border border-gray-300 rounded-md"
+                aria-label={`Range ${side.toUpperCase()} end`}
+              />
+            </fieldset>
+          ))}
+        </div>
+      )}
+
+      {error && <div className="text-sm text-red-600">{error}</div>}
+      {loading && !comparison && <div className="text-gray-500">Loading comparison...</div>}
+
+      {comparison && !error && (
+        <div className={`space-y-4 ${loading ? 'opacity-50' : ''}`}>
+          <p className="text-sm text-gray-700">
+            {difference === 0
+              ? `Same number of sick days in both periods (${sickDaysB}).`
+              : `${Math.abs(difference)} ${difference > 0 ? 'more' : 'fewer'} sick ${Math.abs(difference) === 1 ? 'day' : 'days'} than before (${sickDaysB} vs ${sickDaysA}).`}
+          </p>
+
+          <div className="flex flex-wrap gap-4 text-xs text-gray-600">
+            <span className="flex items-center gap-1">
+              <span className="w-3 h-3 bg-gray-300 rounded-sm" /> A: {formatRange(comparison.a.range)}
+            </span>
+            <span className="flex items-center gap-1">
+              <span className="w-3 h-3 bg-green-600 rounded-sm" /> B: {formatRange(comparison.b.range)}
+            </span>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b">
+                  <th className="py-2 pr-4 font-medium">Metric</th>
+                  <th className="py-2 pr-4 font-medium">A</th>
+                  <th className="py-2 pr-4 font-medium">B</th>
+                  <th className="py-2 font-medium">Change</th>
+                </tr>
+              </thead>
+              <tbody>
+                {comparedMetrics.map(metric => {
+                  const delta = comparison.deltas[metric.key];
+                  return (
+                    <tr key={metric.key} className="border-b last:border-0">
+                      <td className="py-2 pr-4 text-gray-700">{metric.label}</td>
+                      <td className="py-2 pr-4 text-gray-900">{metric.format(comparison.a.stats[metric.key])}</td>
+                      <td className="py-2 pr-4 text-gray-900">{metric.format(comparison.b.stats[metric.key])}</td>
+                      <td className={`py-2 ${delta > 0 ? 'text-red-600' : delta < 0 ? 'text-green-700' : 'text-gray-500'}`}>
+                        {formatDelta(delta)}
+                      </td>
+                    </tr>
+                  );
+                })}
+                <tr>
+                  <td className="py-2 pr-4 text-gray-700">Most common sick day</td>
+                  <td className="py-2 pr-4 text-gray-900">{comparison.a.stats.mostCommonDay}</td>
+                  <td className="py-2 pr-4 text-gray-900">{comparison.b.stats.mostCommonDay}</td>
+                  <td className="py-2 text-gray-500">—</td>
+                </tr>
+              </tbody>
+            </table>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <MonthlyBars
+              title="Sick days per month"
+              monthsA={comparison.a.months}
+              monthsB={comparison.b.months}
+              value={month => month.sickDays}
+            />
+            <MonthlyBars
+              title="Average intensity per month"
+              monthsA={comparison.a.months}
+              monthsB={comparison.b.months}
+              value={month => month.averageIntensity}
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ComparisonPanel;
@@ -0,0 +1,240 @@
+'use client';
+
+import React from 'react';
+import { ILLNESS_CATEGORIES } from '@/lib/categories';
+import { formatDateKey } from '@/lib/dates';
+import { getIntensityLevels } from '@/lib/intensity';
+import { normalizeTag, validateTag, MAX_NOTES_LENGTH, MAX_TAGS_PER_DAY, SYMPTOM_TAGS } from '@/lib/tags';
+import { useIntensityScale } from './UserPreferencesProvider';
+
+export interface DayDetails {
+  intensity: number;
+  notes: string | null;
+  tags: string[];
+  category: string | null;
+}
+
+interface DayDetailEditorProps {
+  date: string; // YYYY-MM-DD
+  initialDetails: DayDetails;
+  onSave: (details: DayDetails) => Promise<string | null>;
+  onClose: () => void;
+}
+
+const DayDetailEditor: React.FC<DayDetailEditorProps> = ({ date, initialDetails, onSave, onClose }) => {
+  const scale = useIntensityScale();
+  const [intensity, setIntensity] = React.useState(initialDetails.intensity);
+  const [notes, setNotes] = React.useState(initialDetails.notes ?? '');
+  const [tags, setTags] = React.useState<string[]>(initialDetails.tags);
+  const [category, setCategory] = React.useState(initialDetails.category ?? '');
+  const [customTags, setCustomTags] = React.useState<string[]>([]);
+  const [newTag, setNewTag] = React.useState('');
+  const [saving, setSaving] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+
+  React.useEffect(() => {
+    const loadTags = async () => {
+      try {
+        const response = await fetch('/api/tags');
+        if (response.ok) {
+          const { tags: availableTags } = await response.json();
+          setCustomTags(availableTags.custom);
+        }
+      } catch (error) {
+        console.error('Error loading tags:', error);
+      }
+    };
+
+    loadTags();
+  }, []);
+
+  // Close on Escape like any other dialog
+  React.useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const toggleTag = (tag: string) => {
+    setTags(prev => prev.includes(tag) ? prev.filter(t => t !== tag) : [...prev, tag]);
+  };
+
+  const handleAddTag = (event: React.FormEvent) => {
+    event.preventDefault();
+    const tag = normalizeTag(newTag);
+    const tagError = validateTag(tag);
+    if (tagError) {
+      setError(tagError);
+      return;
+    }
+
+    if (!SYMPTOM_TAGS.includes(tag) && !customTags.includes(tag)) {
+      setCustomTags(prev => [...prev, tag].sort());
+    }
+    if (!tags.includes(tag)) {
+      setTags(prev => [...prev, tag]);
+    }
+    setNewTag('');
+    setError(null);
+  };
+
+  const handleSave = async () => {
+    if (tags.length > MAX_TAGS_PER_DAY) {
+      setError(`A day can have at most ${MAX_TAGS_PER_DAY} tags`);
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    const saveError = await onSave({
+      intensity,
+      notes: notes.trim() || null,
+      tags,
+      // A healthy day has no illness to categorize
+      category: intensity > 0 && category ? category : null,
+    });
+    if (saveError) {
+      setError(saveError);
+      setSaving(false);
+    }
+  };
+
+  const availableTags = [...SYMPTOM_TAGS, ...customTags.filter(tag => !SYMPTOM_TAGS.includes(tag))];
+  // Tags saved on this day that are no longer suggested still need a chip
+  const extraTags = tags.filter(tag => !availableTags.includes(tag));
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4"
+      onClick={onClose}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="day-detail-title"
+        className="w-full max-w-md bg-white rounded-lg shadow-lg p-4 sm:p-6 space-y-4"
+        onClick={event => event.stopPropagation()}
+      >
+        <h3 id="day-detail-title" className="text-base sm:text-lg font-semibold text-gray-800">
+          {formatDateKey(date, {
+            weekday: 'long',
+            year: 'numeric',
+            month: 'long',
+            day: 'numeric'
+          })}
+        </h3>
+
+        <div>
+          <h4 className="text-sm font-medium text-gray-700 mb-2">How sick were you?</h4>
+          <div className="flex flex-wrap gap-2">
+            {getIntensityLevels(scale).map(option => (
+              <button
+                key={option.value}
+                type="button"
+                onClick={() => setIntensity(option.value)}
+                className={`px-2 py-1 text-xs rounded-md border ${
+                  intensity === option.value
+                    ? 'bg-gray-900 text-white border-gray-900'
+                    : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+                }`}
+              >
+                {option.value} - {option.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {intensity > 0 && (
+          <div>
+            <label htmlFor="day-category" className="block text-sm font-medium text-gray-700 mb-2">Illness</label>
+            <select
+              id="day-category"
+              value={category}
+              onChange={event => setCategory(event.target.value)}
+              className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md bg-white focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            >
+              <option value="">Not specified</option>
+              {ILLNESS_CATEGORIES.map(option => (
+                <option key={option.id} value={option.id}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        <div>
+          <h4 className="text-sm font-medium text-gray-700 mb-2">Symptoms &amp; tags</h4>
+          <div className="flex flex-wrap gap-2 mb-2">
+            {[...availableTags, ...extraTags].map(tag => (
+              <button
+                key={tag}
+                type="button"
+                onClick={() => toggleTag(tag)}
+                aria-pressed={tags.includes(tag)}
+                className={`px-2 py-1 text-xs rounded-full border ${
+                  tags.includes(tag)
+                    ? 'bg-green-600 text-white border-green-700'
+                    : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+                }`}
+              >
+                {tag}
+              </button>
+            ))}
+          </div>
+          <form onSubmit={handleAddTag} className="flex gap-2">
+            <input
+              type="text"
+              value={newTag}
+              onChange={event => setNewTag(event.target.value)}
+              placeholder="Add a custom tag"
+              className="flex-1 px-3 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              aria-label="Custom tag"
+            />
+            <button
+              type="submit"
+              className="px-3 py-1 text-sm font-medium text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50"
+            >
+              Add
+            </button>
+          </form>
+        </div>
+
+        <div>
+          <label htmlFor="day-notes" className="block text-sm font-medium text-gray-700 mb-2">Notes</label>
+          <textarea
+            id="day-notes"
+            value={notes}
+            onChange={event => setNotes(event.target.value)}
+            maxLength={MAX_NOTES_LENGTH}
+            rows={4}
+            placeholder="What happened today?"
+            className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          />
+        </div>
+
+        {error && <div className="text-sm text-red-600">{error}</div>}
+
+        <div className="flex justify-end gap-2">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={saving}
+            className="px-4 py-2 text-sm font-medium text-white bg-gray-900 rounded-md hover:bg-gray-800 disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : 'Save'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DayDetailEditor;
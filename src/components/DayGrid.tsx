@@ -2,19 +2,44 @@
 
 import React from 'react';
 import { useSession } from 'next-auth/react';
+import { getCategoryLabel } from '@/lib/categories';
+import { formatDateKey, generateRangeDates, generateRolling12Months, generateYearDates } from '@/lib/dates';
+import { getMonthLabels, groupIntoWeeks } from '@/lib/gridLayout';
+import { formatIntensity, getIntensityLevels, getMaxIntensity } from '@/lib/intensity';
+import { deleteQueuedEdit, getQueuedEdits, putQueuedEdit, QueuedDetails, QueuedEdit } from '@/lib/offlineQueue';
+import { DAY_NAMES } from '@/lib/stats';
+import DayDetailEditor, { DayDetails } from './DayDetailEditor';
+import { useIntensityColors, useIntensityScale, useToday, useUserPreferences } from './UserPreferencesProvider';
+
+// An edit still on its way to the server, or one the server refused
+type SyncStatus = { state: 'pending' } | { state: 'failed'; error: string };
 
 interface DaySquareProps {
-  date: Date;
-  intensity: number; // 0-4 intensity levels like GitHub
+  date: string; // YYYY-MM-DD
+  today: string; // YYYY-MM-DD in the user's timezone
+  intensity: number; // 0 up to the top of the user's scale, like GitHub
+  tags?: string[];
+  category?: string | null;
+  hasNotes?: boolean;
   onIntensityChange?: (date: string, newIntensity: number) => void;
+  onOpenDetails?: (date: string) => void;
+  onSelectStart?: (date: string) => void;
+  onSelectExtend?: (date: string) => void;
+  onSelectTo?: (date: string) => void;
   isClickable?: boolean;
-  isOutsideYear?: boolean;
+  isSelected?: boolean;
+  isOutsideYear?: boolean; // outside the year or range the grid shows
+  outsideLabel?: string;
   isLoading?: boolean;
+  syncStatus?: SyncStatus;
+  tabIndex?: number; // roving tabindex: only the active cell is in the tab order
+  onFocus?: (date: string) => void;
+  compact?: boolean;
 }
 
-const DaySquare: React.FC<DaySquareProps> = ({ date, intensity, onIntensityChange, isClickable = false, isOutsideYear = false, isLoading = false }) => {
-  const formatDate = (date: Date) => {
-    return date.toLocaleDateString('en-US', {
+const DaySquare: React.FC<DaySquareProps> = ({ date, today, intensity, tags = [], category = null, hasNotes = false, onIntensityChange, onOpenDetails, onSelectStart, onSelectExtend, onSelectTo, isClickable = false, isSelected = false, isOutsideYear = false, outsideLabel = 'Outside target year', isLoading = false, syncStatus, tabIndex = -1, onFocus, compact = false }) => {
+  const formatDate = (date: string) => {
+    return formatDateKey(date, {
       weekday: 'short',
       year: 'numeric',
       month: 'short',
@@ -22,17 +47,15 @@ const DaySquare: React.FC<DaySquareProps> = ({ date, intensity, onIntensityChang
     });
   };
 
-  const isFutureDate = () => {
-    const today = new Date();
-    today.setHours(0, 0, 0, 0); // Set to start of today
-    const checkDate = new Date(date);
-    checkDate.setHours(0, 0, 0, 0); // Set to start of the date to check
-    return checkDate > today;
-  };
+  // Date keys compare correctly as strings
+  const isFuture = date > today;
 
-  const isFuture = isFutureDate();
+  const intensityColors = useIntensityColors();
+  const scale = useIntensityScale();
+  const maxIntensity = getMaxIntensity(scale);
 
-  const getIntensityClass = (intensity: number) => {
+  // Muted squares are not colored by intensity
+  const getMutedClass = () => {
     if (isLoading) {
       // Show disabled state while loading
       return 'bg-gray-50 border-gray-150 opacity-50 animate-pulse';
@@ -47,56 +70,130 @@ const DaySquare: React.FC<DaySquareProps> = ({ date, intensity, onIntensityChang
       // Gray out dates outside the target year
       return 'bg-gray-50 border-gray-150 opacity-40';
     }
-    
-    switch (intensity) {
-      case 0:
-        return 'bg-gray-100 border-gray-200';
-      case 1:
-        return 'bg-green-100 border-green-200';
-      case 2:
-        return 'bg-green-200 border-green-300';
-      case 3:
-        return 'bg-green-400 border-green-500';
-      case 4:
-        return 'bg-green-600 border-green-700';
-      default:
-        return 'bg-gray-100 border-gray-200';
+
+    return null;
+  };
+
+  const mutedClass = getMutedClass();
+  const color = intensityColors(intensity);
+
+  const isEditable = isClickable && !isOutsideYear && !isLoading && !isFuture;
+
+  const handleClick = (event: React.MouseEvent) => {
+    if (event.shiftKey && isEditable && onSelectTo) {
+      // Shift-click selects everything between the last square and this one
+      onSelectTo(date);
+      return;
+    }
+
+    if (isEditable && onIntensityChange) {
+      const newIntensity = (intensity + 1) % scale.levels; // Cycle 0->1->...->max->0
+      onIntensityChange(date, newIntensity);
     }
   };
 
-  const handleClick = () => {
-    if (isClickable && onIntensityChange && !isOutsideYear && !isLoading && !isFuture) {
-      const dateString = date.toISOString().split('T')[0]; // YYYY-MM-DD format
-      const newIntensity = (intensity + 1) % 5; // Cycle 0->1->2->3->4->0
-      onIntensityChange(dateString, newIntensity);
+  const handleMouseDown = (event: React.MouseEvent) => {
+    // Pressing and dragging across squares selects a range
+    if (event.button === 0 && !event.shiftKey && isEditable && onSelectStart) {
+      onSelectStart(date);
     }
   };
 
+  const handleMouseEnter = () => {
+    if (isEditable && onSelectExtend) {
+      onSelectExtend(date);
+    }
+  };
+
+  const handleContextMenu = (event: React.MouseEvent) => {
+    if (isEditable && onOpenDetails) {
+      // Right-click (or long-press on touch screens) opens notes and tags
+      event.preventDefault();
+      onOpenDetails(date);
+    }
+  };
+
+  // What a screen reader announces for the cell, in the legend's wording
+  const accessibleLabel = [
+    formatDateKey(date, { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' }),
+    isOutsideYear ? outsideLabel : isFuture ? 'Future date' : formatIntensity(intensity, scale),
+    category && getCategoryLabel(category),
+    tags.length > 0 && `Tags: ${tags.join(', ')}`,
+    hasNotes && 'Has notes',
+    syncStatus?.state === 'pending' && 'Not saved yet',
+    syncStatus?.state === 'failed' && `Not saved: ${syncStatus.error}`,
+  ].filter(Boolean).join('. ');
+
   return (
-    <div className="relative group">
+    <div
+      role="gridcell"
+      data-date={date}
+      tabIndex={tabIndex}
+      aria-label={accessibleLabel}
+      aria-selected={isSelected || undefined}
+      aria-readonly={!isEditable || undefined}
+      onFocus={() => onFocus?.(date)}
+      className="relative group rounded-sm outline-none focus-visible:ring-2 focus-visible:ring-indigo-600 focus-visible:ring-offset-1"
+    >
       <div
-        className={`w-3 h-3 border rounded-sm ${getIntensityClass(
-          intensity
-        )} transition-colors ${
-          isClickable && !isOutsideYear && !isLoading && !isFuture
-            ? 'cursor-pointer hover:border-gray-400' 
+        className={`${compact ? 'w-2 h-2' : 'w-3 h-3'} border rounded-sm ${mutedClass ?? ''} transition-colors ${
+          isEditable
+            ? 'cursor-pointer hover:opacity-75' 
             : 'cursor-default'
-        }`}
+        } ${isSelected ? 'ring-2 ring-indigo-500 ring-offset-1' : ''}`}
+        style={mutedClass ? undefined : { backgroundColor: color.fill, borderColor: color.border }}
         onClick={handleClick}
+        onMouseDown={handleMouseDown}
+        onMouseEnter={handleMouseEnter}
+        onContextMenu={handleContextMenu}
       />
-      <div className="absolute bottom-full left-1/2 transform -translate-x-1/2 mb-2 px-2 py-1 bg-gray-900 text-white text-xs rounded shadow-lg opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none whitespace-nowrap z-10">
+      {syncStatus && (
+        <div
+          className={`absolute -top-0.5 -right-0.5 w-1.5 h-1.5 rounded-full pointer-events-none ${
+            syncStatus.state === 'pending' ? 'bg-amber-400 animate-pulse' : 'bg-red-500'
+          }`}
+        />
+      )}
+      <div
+        aria-hidden="true"
+        className="absolute bottom-full left-1/2 transform -translate-x-1/2 mb-2 px-2 py-1 bg-gray-900 text-white text-xs rounded shadow-lg opacity-0 group-hover:opacity-100 group-focus-visible:opacity-100 transition-opacity pointer-events-none whitespace-nowrap z-10"
+      >
         {formatDate(date)}
+        {!isFuture && !isLoading && !isOutsideYear && (
+          <div className="text-xs">{formatIntensity(intensity, scale)}</div>
+        )}
+        {category && (
+          <div className="text-xs">{getCategoryLabel(category)}</div>
+        )}
+        {tags.length > 0 && (
+          <div className="text-xs">{tags.join(', ')}</div>
+        )}
+        {hasNotes && (
+          <div className="text-xs opacity-75">Has notes</div>
+        )}
         {isLoading && (
           <div className="text-xs opacity-75">Loading...</div>
         )}
+        {syncStatus?.state === 'pending' && (
+          <div className="text-xs text-amber-300">Saving... will retry when online</div>
+        )}
+        {syncStatus?.state === 'failed' && (
+          <div className="text-xs text-red-300">Not saved: {syncStatus.error}</div>
+        )}
         {isFuture && (
           <div className="text-xs opacity-75">Future date - cannot modify</div>
         )}
-        {!isLoading && !isFuture && isClickable && !isOutsideYear && (
-          <div className="text-xs opacity-75">Click to change intensity</div>
+        {isEditable && (
+          <div className="text-xs opacity-75">Click to change intensity, right-click for notes &amp; tags</div>
+        )}
+        {isEditable && (
+          <div className="text-xs opacity-75">Drag or shift-click to select a range</div>
+        )}
+        {isEditable && (
+          <div className="text-xs opacity-75">Keys 0-{maxIntensity} set intensity, Enter opens details</div>
         )}
         {isOutsideYear && (
-          <div className="text-xs opacity-75">Outside target year</div>
+          <div className="text-xs opacity-75">{outsideLabel}</div>
         )}
         <div className="absolute top-full left-1/2 transform -translate-x-1/2 border-4 border-transparent border-t-gray-900"></div>
       </div>
@@ -104,64 +201,317 @@ const DaySquare: React.FC<DaySquareProps> = ({ date, intensity, onIntensityChang
   );
 };
 
+interface GridDay {
+  date: string; // YYYY-MM-DD
+  intensity: number;
+  notes?: string | null;
+  tags?: string[];
+  category?: string | null;
+  updated_at?: string | null; // ISO timestamp of the last saved change
+}
+
+type DayData = Omit<GridDay, 'date'>;
+
+const detailsOf = (day?: DayData): QueuedDetails => ({
+  notes: day?.notes ?? null,
+  tags: day?.tags ?? [],
+  category: day?.category ?? null,
+});
+
 interface DayGridProps {
   readOnly?: boolean;
-  initialData?: { date: string; intensity: number }[];
+  initialData?: GridDay[];
+  year?: number; // show this calendar year instead of the rolling 12 months
+  compact?: boolean; // smaller squares without weekday labels, for pages listing many grids
+  range?: { startDate: string; endDate: string }; // read-only grids of a shared range; days outside it are muted
 }
 
-const DayGrid: React.FC<DayGridProps> = ({ readOnly = false, initialData }) => {
+const DayGrid: React.FC<DayGridProps> = ({ readOnly = false, initialData, year, compact = false, range }) => {
   const { data: session, status } = useSession();
-  const [gridData, setGridData] = React.useState<{ date: Date; intensity: number }[]>([]);
+  const { loading: preferencesLoading } = useUserPreferences();
+  const today = useToday();
+  const scale = useIntensityScale();
+  const [gridData, setGridData] = React.useState<GridDay[]>([]);
   const [loading, setLoading] = React.useState(true);
-  const [demoTimeout, setDemoTimeout] = React.useState<NodeJS.Timeout | null>(null);
+  const [editingDate, setEditingDate] = React.useState<string | null>(null);
+  // Range selection: anchor is where it started, focus where it currently ends
+  const [selection, setSelection] = React.useState<{ anchor: string; focus: string } | null>(null);
+  const [dragging, setDragging] = React.useState(false);
+  const [batchError, setBatchError] = React.useState<string | null>(null);
+  const lastClickedRef = React.useRef<string | null>(null);
+  const [syncStatus, setSyncStatus] = React.useState<Record<string, SyncStatus>>({});
+  const [syncNotice, setSyncNotice] = React.useState<string | null>(null);
+  // Edits not yet confirmed by the server, mirrored to IndexedDB
+  const queueRef = React.useRef(new Map<string, QueuedEdit>());
+  const flushingRef = React.useRef(false);
+  // Why the server refused the last edit of a day, for the details editor to show
+  const rejectedRef = React.useRef(new Map<string, string>());
+  const owner = session?.user?.email ?? null;
+  // Keyboard focus: the cell in the tab order, and whether focus should follow it
+  const [focusedDate, setFocusedDate] = React.useState<string | null>(null);
+  const [announcement, setAnnouncement] = React.useState('');
+  const gridRef = React.useRef<HTMLDivElement>(null);
+  const helpId = React.useId();
+  const keyboardMoveRef = React.useRef(false);
+  const gridFocusedRef = React.useRef(false);
 
-  const generateRolling12Months = () => {
-    // Use consistent timezone handling - always work in local timezone
-    const today = new Date();
-    today.setHours(0, 0, 0, 0); // Normalize to start of day
-    
-    // Calculate exactly 365 days ago (not 1 year ago to avoid leap year issues)
-    const startDate = new Date(today);
-    startDate.setDate(startDate.getDate() - 365);
-    
-    // Find the Sunday before or on the start date
-    const firstSunday = new Date(startDate);
-    firstSunday.setDate(firstSunday.getDate() - firstSunday.getDay());
-    
-    const dates = [];
-    const currentDate = new Date(firstSunday);
-    
-    // Generate dates for complete weeks that include today
-    while (currentDate <= today) {
-      dates.push(new Date(currentDate));
-      currentDate.setDate(currentDate.getDate() + 1);
+  const clearSyncStatus = (date: string) => {
+    setSyncStatus(prev => {
+      const next = { ...prev };
+      delete next[date];
+      return next;
+    });
+  };
+
+  const isCurrentEdit = (edit: QueuedEdit) => queueRef.current.get(edit.date)?.editedAt === edit.editedAt;
+
+  const removeEdit = React.useCallback((edit: QueuedEdit) => {
+    queueRef.current.delete(edit.date);
+    deleteQueuedEdit(edit.owner, edit.date).catch(error => console.error('Error removing queued edit:', error));
+  }, []);
+
+  const storeEdit = React.useCallback((edit: QueuedEdit) => {
+    queueRef.current.set(edit.date, edit);
+    putQueuedEdit(edit).catch(error => console.error('Error queueing grid edit:', error));
+  }, []);
+
+  // The server saved the edit. Clicked again while it was in flight, the newer
+  // edit builds on it instead.
+  const settleSaved = React.useCallback((edit: QueuedEdit, square: GridDay) => {
+    // The server tidies notes and tags, so show them as saved
+    const saved = isCurrentEdit(edit) && edit.details ? detailsOf(square) : {};
+    setGridData(prev => prev.map(item => (item.date === edit.date ? { ...item, ...saved, updated_at: square.updated_at } : item)));
+
+    if (isCurrentEdit(edit)) {
+      removeEdit(edit);
+      clearSyncStatus(edit.date);
+      return;
     }
-    
-    // Add remaining days to complete the final week
-    while (dates.length % 7 !== 0) {
-      dates.push(new Date(currentDate));
-      currentDate.setDate(currentDate.getDate() + 1);
+    const newer = queueRef.current.get(edit.date);
+    if (newer) {
+      storeEdit({
+        ...newer,
+        baseIntensity: square.intensity,
+        baseDetails: detailsOf(square),
+        baseUpdatedAt: square.updated_at ?? null,
+      });
     }
+  }, [removeEdit, storeEdit]);
 
-    return dates;
-  };
+  // The day changed since the edit was based on it. Returns the edit rebased
+  // onto the current day to send again, or null when the other change is newer
+  // and wins.
+  const settleConflict = React.useCallback((edit: QueuedEdit, square: GridDay): QueuedEdit | null => {
+    const { intensity, updated_at } = square;
+
+    if (new Date(updated_at!).getTime() > new Date(edit.editedAt).getTime()) {
+      // Changed elsewhere after this edit was made: the newer change wins
+      if (isCurrentEdit(edit)) {
+        removeEdit(edit);
+        clearSyncStatus(edit.date);
+        setGridData(prev =>
+          prev.map(item =>
+            item.date === edit.date
+              ? { ...item, intensity, ...detailsOf(square), updated_at }
+              : item
+          )
+        );
+        setSyncNotice('Some days were changed on another device more recently, so those changes were kept.');
+      }
+      return null;
+    }
+
+    // This edit is the newer one: apply it on top of the other change
+    const rebased = { ...edit, baseIntensity: intensity, baseDetails: detailsOf(square), baseUpdatedAt: updated_at ?? null };
+    if (isCurrentEdit(edit)) {
+      storeEdit(rebased);
+    }
+    return rebased;
+  }, [removeEdit, storeEdit]);
+
+  // Anything else (validation, signed out) will not succeed on a retry
+  const settleRejected = React.useCallback((edit: QueuedEdit, error: string) => {
+    if (!isCurrentEdit(edit)) return;
+
+    removeEdit(edit);
+    rejectedRef.current.set(edit.date, error);
+    setGridData(prev =>
+      prev.map(item =>
+        item.date === edit.date
+          ? { ...item, intensity: edit.baseIntensity, ...edit.baseDetails }
+          : item
+      )
+    );
+    setSyncStatus(prev => ({ ...prev, [edit.date]: { state: 'failed', error } }));
+  }, [removeEdit]);
+
+  // Sends one queued edit. Returns false when the server could not be reached
+  // (or is struggling), so the rest of the queue waits for the next retry.
+  const sendEdit = React.useCallback(async (edit: QueuedEdit): Promise<boolean> => {
+    let response: Response;
+    try {
+      response = await fetch('/api/grid', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          date: edit.date,
+          intensity: edit.intensity,
+          ...edit.details,
+          expectedUpdatedAt: edit.baseUpdatedAt,
+        }),
+      });
+    } catch {
+      return false;
+    }
+
+    if (response.status >= 500 || response.status === 429) {
+      return false;
+    }
+
+    const data = await response.json().catch(() => ({}));
+
+    if (response.ok) {
+      settleSaved(edit, data.square);
+      return true;
+    }
+
+    if (response.status === 409 && data.square) {
+      const rebased = settleConflict(edit, data.square);
+      return rebased ? sendEdit(rebased) : true;
+    }
+
+    settleRejected(edit, data.error || 'Could not save this day');
+    return true;
+  }, [settleSaved, settleConflict, settleRejected]);
+
+  // Sends intensity edits for several days in one request, conflict-checked
+  // day by day. Returns false like sendEdit.
+  const sendBatch = React.useCallback(async (edits: QueuedEdit[]): Promise<boolean> => {
+    let response: Response;
+    try {
+      response = await fetch('/api/grid/batch', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          changes: edits.map(edit => ({
+            date: edit.date,
+            intensity: edit.intensity,
+            expectedUpdatedAt: edit.baseUpdatedAt,
+          })),
+        }),
+      });
+    } catch {
+      return false;
+    }
+
+    if (response.status >= 500 || response.status === 429) {
+      return false;
+    }
+
+    const data = await response.json().catch(() => ({}));
+
+    if (response.ok) {
+      const saved = new Map<string, GridDay>(data.squares.map((square: GridDay) => [square.date, square]));
+      edits.forEach(edit => {
+        const square = saved.get(edit.date);
+        if (square) settleSaved(edit, square);
+      });
+      return true;
+    }
+
+    if (response.status === 409 && data.squares) {
+      // Nothing was written, so the days without a conflict go again too
+      const current = new Map<string, GridDay>(data.squares.map((square: GridDay) => [square.date, square]));
+      const retry = edits
+        .map(edit => {
+          const square = current.get(edit.date);
+          return square ? settleConflict(edit, square) : edit;
+        })
+        .filter((edit): edit is QueuedEdit => edit !== null);
+      return retry.length > 0 ? sendBatch(retry) : true;
+    }
+
+    const error = data.error || 'Could not update these days';
+    edits.forEach(edit => settleRejected(edit, error));
+    setBatchError(error);
+    return true;
+  }, [settleSaved, settleConflict, settleRejected]);
+
+  // Replays queued edits until the queue is empty or the network fails. Plain
+  // intensity changes go together in one batch, which counts once against the
+  // rate limit however long a range was (a grid's days always fit in one);
+  // edits with notes and tags follow one by one, oldest first.
+  const flushQueue = React.useCallback(async () => {
+    if (flushingRef.current) return;
+    flushingRef.current = true;
+
+    try {
+      const attempted = new Map<string, string>();
+      const pendingEdits = () => Array.from(queueRef.current.values())
+        .filter(edit => attempted.get(edit.date) !== edit.editedAt)
+        .sort((a, b) => a.editedAt.localeCompare(b.editedAt));
+
+      for (let edits = pendingEdits(); edits.length > 0; edits = pendingEdits()) {
+        const batch = edits.filter(edit => !edit.details);
+        const sending = batch.length > 0 ? batch : [edits[0]];
+        sending.forEach(edit => attempted.set(edit.date, edit.editedAt));
+        if (!await (batch.length > 0 ? sendBatch(batch) : sendEdit(edits[0]))) break;
+      }
+    } finally {
+      flushingRef.current = false;
+    }
+  }, [sendEdit, sendBatch]);
+
+  // Shows queued edits from an earlier visit on top of the server's data. Each
+  // grid only takes the edits for its own days, so when several years are shown
+  // at once every edit is still sent by exactly one of them.
+  const restoreQueuedEdits = React.useCallback(async (data: GridDay[]): Promise<GridDay[]> => {
+    if (!owner) return data;
+
+    const ownDates = new Set(
+      data.map(day => day.date).filter(date => year === undefined || date.startsWith(`${year}-`))
+    );
+
+    try {
+      const queued = (await getQueuedEdits(owner)).filter(edit => ownDates.has(edit.date));
+      queueRef.current = new Map(queued.map(edit => [edit.date, edit]));
+      setSyncStatus(Object.fromEntries(queued.map(edit => [edit.date, { state: 'pending' } as SyncStatus])));
+    } catch (error) {
+      console.error('Error loading queued edits:', error);
+    }
+
+    return data.map(day => {
+      const edit = queueRef.current.get(day.date);
+      return edit ? { ...day, intensity: edit.intensity, ...edit.details } : day;
+    });
+  }, [owner, year]);
+  const [demoTimeout, setDemoTimeout] = React.useState<NodeJS.Timeout | null>(null);
 
   const loadGridData = React.useCallback(async () => {
-    const dates = generateRolling12Months();
+    // "Today" depends on the user's timezone, so wait until it is known
+    if (preferencesLoading) {
+      return;
+    }
+
+    const dates = range
+      ? generateRangeDates(range.startDate, range.endDate)
+      : year ? generateYearDates(year) : generateRolling12Months(today);
 
     // If we have initial data (for read-only mode), use it
     if (readOnly && initialData) {
-      const userDataMap = new Map(
-        initialData.map(item => [item.date, item.intensity])
+      const userDataMap = new Map<string, DayData>(
+        initialData.map(({ date, ...day }) => [date, day])
       );
 
-      const mergedData = dates.map(date => {
-        const normalizedDate = new Date(date);
-        normalizedDate.setHours(0, 0, 0, 0);
-        const dateKey = normalizedDate.toISOString().split('T')[0];
-        const intensity = userDataMap.get(dateKey) ?? 0;
-        return { date, intensity };
-      });
+      const mergedData = dates.map(date => ({
+        date,
+        intensity: 0,
+        ...userDataMap.get(date),
+      }));
 
       setGridData(mergedData);
       setLoading(false);
@@ -197,50 +547,78 @@ const DayGrid: React.FC<DayGridProps> = ({ readOnly = false, initialData }) => {
     // For logged-in users, fetch their real data
     try {
       // Get the date range for the API call
-      const startDate = dates[0].toISOString().split('T')[0];
-      const endDate = dates[dates.length - 1].toISOString().split('T')[0];
+      const startDate = dates[0];
+      const endDate = dates[dates.length - 1];
       
-      const response = await fetch(`/api/grid?startDate=${startDate}&endDate=${endDate}`);
+      const response = await fetch(year ? `/api/grid?year=${year}` : `/api/grid?startDate=${startDate}&endDate=${endDate}`);
       if (response.ok) {
         const { gridData: userGridData } = await response.json();
         
         // Create a map of user data with proper date normalization
-        const userDataMap = new Map<string, number>(
-          userGridData.map((item: { date: string; intensity: string | number }) => {
-            // Extract date part and normalize
-            const dateKey = item.date.split('T')[0]; // YYYY-MM-DD
+        const userDataMap = new Map<string, DayData>(
+          userGridData.map((item: { date: string; intensity: string | number; notes: string | null; tags: string[]; category: string | null; updated_at: string }) => {
             const intensity = parseInt(String(item.intensity));
-            return [dateKey, intensity];
+            return [item.date, { intensity, notes: item.notes, tags: item.tags, category: item.category, updated_at: item.updated_at }];
           })
         );
 
-        // Merge with user data - ensure date keys match exactly
-        const mergedData = dates.map(date => {
-          // Normalize date to YYYY-MM-DD format to match database
-          const normalizedDate = new Date(date);
-          normalizedDate.setHours(0, 0, 0, 0);
-          const dateKey = normalizedDate.toISOString().split('T')[0];
-          const intensity = userDataMap.get(dateKey) ?? 0;
-          return { date, intensity };
-        });
-
-        setGridData(mergedData);
+        // Merge with user data - both sides are YYYY-MM-DD keys
+        const mergedData = dates.map(date => ({
+          date,
+          intensity: 0,
+          ...userDataMap.get(date),
+        }));
+
+        setGridData(await restoreQueuedEdits(mergedData));
         setLoading(false);
       } else {
         // If API call fails, keep the empty grid
+        setGridData(await restoreQueuedEdits(emptyData));
         setLoading(false);
       }
     } catch (error) {
       console.error('Error loading grid data:', error);
       // If API call fails, keep the empty grid
+      setGridData(await restoreQueuedEdits(emptyData));
       setLoading(false);
     }
-  }, [session?.user?.email, status, readOnly, initialData]);
+
+    flushQueue();
+  }, [session?.user?.email, status, readOnly, initialData, preferencesLoading, today, year, range, restoreQueuedEdits, flushQueue]);
 
   React.useEffect(() => {
     loadGridData();
   }, [loadGridData]);
 
+  // Retry queued edits when the connection comes back, and every so often in
+  // case the browser does not notice it was offline
+  React.useEffect(() => {
+    if (!owner || readOnly) return;
+
+    const retry = () => {
+      if (queueRef.current.size > 0 && navigator.onLine) flushQueue();
+    };
+    window.addEventListener('online', retry);
+    const interval = setInterval(retry, 30000);
+    return () => {
+      window.removeEventListener('online', retry);
+      clearInterval(interval);
+    };
+  }, [owner, readOnly, flushQueue]);
+
+  // Move DOM focus to the active cell after arrow keys, and put it back when a
+  // reload re-renders the grid while the user was in it
+  React.useEffect(() => {
+    const grid = gridRef.current;
+    if (loading || !focusedDate || !grid) return;
+
+    const lostFocus = gridFocusedRef.current && !grid.contains(document.activeElement);
+    if (keyboardMoveRef.current || lostFocus) {
+      keyboardMoveRef.current = false;
+      grid.querySelector<HTMLElement>(`[data-date="${focusedDate}"]`)?.focus();
+    }
+  }, [focusedDate, loading, gridData]);
+
   // Cleanup effect to clear timeouts on unmount
   React.useEffect(() => {
     return () => {
@@ -250,37 +628,146 @@ const DayGrid: React.FC<DayGridProps> = ({ readOnly = false, initialData }) => {
     };
   }, [demoTimeout]);
 
-  const handleIntensityChange = async (dateString: string, newIntensity: number) => {
-    if (!session?.user?.email) return;
+  // A drag ends wherever the mouse is released, even outside the grid
+  React.useEffect(() => {
+    if (!dragging) return;
 
-    try {
-      const response = await fetch('/api/grid', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          date: dateString,
-          intensity: newIntensity,
-        }),
+    const handleMouseUp = () => {
+      setDragging(false);
+      // Pressing and releasing on one square is a plain click, not a range
+      setSelection(prev => (prev && prev.anchor === prev.focus ? null : prev));
+    };
+    window.addEventListener('mouseup', handleMouseUp);
+    return () => window.removeEventListener('mouseup', handleMouseUp);
+  }, [dragging]);
+
+  React.useEffect(() => {
+    if (!selection) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') setSelection(null);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [selection]);
+
+  const handleSelectStart = (dateString: string) => {
+    lastClickedRef.current = dateString;
+    setBatchError(null);
+    setSelection({ anchor: dateString, focus: dateString });
+    setDragging(true);
+  };
+
+  const handleSelectExtend = (dateString: string) => {
+    if (dragging) {
+      setSelection(prev => (prev ? { ...prev, focus: dateString } : prev));
+    }
+  };
+
+  const handleSelectTo = (dateString: string) => {
+    const anchor = selection?.anchor ?? lastClickedRef.current;
+    setBatchError(null);
+    setSelection({ anchor: anchor ?? dateString, focus: dateString });
+  };
+
+  // Shows an intensity change immediately and queues it; the queue survives
+  // reloads and keeps retrying until the server has it. A queued edit keeps the
+  // server state it was based on, and any notes and tags waiting with it.
+  const queueIntensityChange = (dates: string[], newIntensity: number) => {
+    if (!owner) return;
+
+    const editedAt = new Date().toISOString();
+    const days = new Map(gridData.map(item => [item.date, item]));
+    dates.forEach(date => {
+      const day = days.get(date);
+      const queued = queueRef.current.get(date);
+      storeEdit({
+        owner,
+        date,
+        intensity: newIntensity,
+        details: queued?.details,
+        baseIntensity: queued ? queued.baseIntensity : day?.intensity ?? 0,
+        baseDetails: queued?.baseDetails,
+        baseUpdatedAt: queued ? queued.baseUpdatedAt : day?.updated_at ?? null,
+        editedAt,
       });
+    });
 
-      if (response.ok) {
-        // Update local state with proper date normalization
-        setGridData(prev => 
-          prev.map(item => {
-            const normalizedDate = new Date(item.date);
-            normalizedDate.setHours(0, 0, 0, 0);
-            const itemDateString = normalizedDate.toISOString().split('T')[0];
-            return itemDateString === dateString
-              ? { ...item, intensity: newIntensity }
-              : item;
-          })
-        );
-      }
-    } catch (error) {
-      console.error('Error updating grid square:', error);
+    const changed = new Set(dates);
+    setGridData(prev =>
+      prev.map(item =>
+        changed.has(item.date)
+          ? { ...item, intensity: newIntensity }
+          : item
+      )
+    );
+    setSyncStatus(prev => ({
+      ...prev,
+      ...Object.fromEntries(dates.map(date => [date, { state: 'pending' } as SyncStatus])),
+    }));
+    setSyncNotice(null);
+  };
+
+  // Sets every selected day at once. The range goes through the queue like a
+  // single click, so it is conflict-checked, waits out being offline and is
+  // replayed as one batch.
+  const handleRangeIntensityChange = (dates: string[], newIntensity: number) => {
+    if (!owner || dates.length === 0) return;
+
+    queueIntensityChange(dates, newIntensity);
+    setSelection(null);
+    setBatchError(null);
+    flushQueue();
+  };
+
+  const handleIntensityChange = (dateString: string, newIntensity: number) => {
+    if (!owner) return;
+    lastClickedRef.current = dateString;
+
+    queueIntensityChange([dateString], newIntensity);
+    flushQueue();
+  };
+
+  // Queued and conflict-checked like a single click. Returns an error message
+  // for the editor to show, or null once saved or queued for later.
+  const handleDetailsSave = async (dateString: string, { intensity, ...details }: DayDetails): Promise<string | null> => {
+    if (!owner) return 'Could not save this day';
+
+    const day = gridData.find(item => item.date === dateString);
+    const queued = queueRef.current.get(dateString);
+    rejectedRef.current.delete(dateString);
+    storeEdit({
+      owner,
+      date: dateString,
+      intensity,
+      details,
+      baseIntensity: queued ? queued.baseIntensity : day?.intensity ?? 0,
+      baseDetails: queued?.baseDetails ?? detailsOf(day),
+      baseUpdatedAt: queued ? queued.baseUpdatedAt : day?.updated_at ?? null,
+      editedAt: new Date().toISOString(),
+    });
+
+    setGridData(prev =>
+      prev.map(item =>
+        item.date === dateString
+          ? { ...item, intensity, ...details }
+          : item
+      )
+    );
+    setSyncStatus(prev => ({ ...prev, [dateString]: { state: 'pending' } }));
+    setSyncNotice(null);
+
+    // Wait for the first attempt so a refusal shows in the editor; offline the
+    // edit just stays queued
+    await flushQueue();
+    const error = rejectedRef.current.get(dateString);
+    if (error) {
+      rejectedRef.current.delete(dateString);
+      return error;
     }
+
+    setEditingDate(null);
+    return null;
   };
 
   if (loading) {
@@ -292,91 +779,246 @@ const DayGrid: React.FC<DayGridProps> = ({ readOnly = false, initialData }) => {
   }
 
   const days = gridData;
-  const weeks: { date: Date; intensity: number }[][] = [];
+  const weeks = groupIntoWeeks(days);
 
-  // Group days into weeks
-  for (let i = 0; i < days.length; i += 7) {
-    weeks.push(days.slice(i, i + 7));
-  }
+  // Year and range grids pad the first and last week with days outside them
+  const isOutsideYear = (date: string) => range
+    ? date < range.startDate || date > range.endDate
+    : year !== undefined && !date.startsWith(`${year}-`);
 
-  const dayLabels = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+  // Month labels positioned over the weeks they start in; a week column is a
+  // square plus the gap after it
+  const weekWidth = compact ? 10 : 16;
+  const monthLabels = getMonthLabels(weeks.map(week => week.map(day => day.date).filter(date => !isOutsideYear(date))));
 
-  // Generate month labels based on the actual grid data  
-  const generateMonthLabels = () => {
-    if (weeks.length === 0) return [];
-    
-    const labels: { month: string; position: number }[] = [];
-    let currentMonth = -1;
-    
-    weeks.forEach((week, weekIndex) => {
-      // Check the first day of each week
-      const firstDay = week[0];
-      if (firstDay && firstDay.date.getMonth() !== currentMonth) {
-        currentMonth = firstDay.date.getMonth();
-        const monthName = firstDay.date.toLocaleDateString('en-US', { month: 'short' });
-        labels.push({ month: monthName, position: weekIndex });
-      }
-    });
-    
-    return labels;
+  // Date keys compare correctly as strings; future days are never selected
+  const selectionStart = selection ? (selection.anchor < selection.focus ? selection.anchor : selection.focus) : null;
+  const selectionEnd = selection ? (selection.anchor < selection.focus ? selection.focus : selection.anchor) : null;
+  const selectedDates = selectionStart && selectionEnd
+    ? days
+        .map(day => day.date)
+        .filter(date => date >= selectionStart && date <= selectionEnd && date <= today && !isOutsideYear(date))
+    : [];
+  const canEdit = !readOnly && !!session?.user?.email;
+
+  // The cell reachable with Tab: the last focused one, otherwise today
+  const activeDate = focusedDate && days.some(day => day.date === focusedDate)
+    ? focusedDate
+    : days.find(day => day.date === today)?.date ?? days[days.length - 1]?.date;
+
+  const handleGridKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+    const date = (event.target as HTMLElement).dataset.date;
+    const index = days.findIndex(day => day.date === date);
+    if (!date || index === -1) return;
+
+    // Rows are weekdays and columns are weeks, so moving a row is one day and
+    // moving a column is seven
+    const row = index % 7;
+    const lastInRow = days.length - 1 - ((days.length - 1 - row) % 7);
+    const isEditable = canEdit && date <= today && !isOutsideYear(date);
+    let target: number | null = null;
+
+    switch (event.key) {
+      case 'ArrowUp':
+        target = row > 0 ? index - 1 : index;
+        break;
+      case 'ArrowDown':
+        target = row < 6 && index + 1 < days.length ? index + 1 : index;
+        break;
+      case 'ArrowLeft':
+        target = Math.max(index - 7, row);
+        break;
+      case 'ArrowRight':
+        target = Math.min(index + 7, lastInRow);
+        break;
+      case 'PageUp':
+        target = Math.max(index - 28, row);
+        break;
+      case 'PageDown':
+        target = Math.min(index + 28, lastInRow);
+        break;
+      case 'Home':
+        target = event.ctrlKey ? 0 : row;
+        break;
+      case 'End':
+        target = event.ctrlKey ? days.length - 1 : lastInRow;
+        break;
+      case 'Enter':
+        if (isEditable) {
+          event.preventDefault();
+          setEditingDate(date);
+        }
+        return;
+      case ' ':
+        if (isEditable) {
+          event.preventDefault();
+          const newIntensity = (days[index].intensity + 1) % scale.levels;
+          handleIntensityChange(date, newIntensity);
+          setAnnouncement(`${formatDateKey(date, { month: 'long', day: 'numeric' })} set to ${formatIntensity(newIntensity, scale)}`);
+        }
+        return;
+      default:
+        if (/^\d$/.test(event.key) && Number(event.key) <= getMaxIntensity(scale) && isEditable) {
+          event.preventDefault();
+          const newIntensity = Number(event.key);
+          handleIntensityChange(date, newIntensity);
+          setAnnouncement(`${formatDateKey(date, { month: 'long', day: 'numeric' })} set to ${formatIntensity(newIntensity, scale)}`);
+        }
+        return;
+    }
+
+    event.preventDefault();
+    keyboardMoveRef.current = true;
+    setFocusedDate(days[target].date);
   };
 
-  const monthLabels = generateMonthLabels();
+  const pendingCount = Object.values(syncStatus).filter(entry => entry.state === 'pending').length;
+  const isSelected = (date: string) => selectedDates.length > 0 && date >= selectedDates[0] && date <= selectedDates[selectedDates.length - 1];
+  const editingDay = editingDate ? days.find(day => day.date === editingDate) : undefined;
 
   return (
     <div className="w-full">
       {/* Container with horizontal scroll */}
       <div className="overflow-x-auto pb-2">
-        <div className="min-w-max p-4">
+        <div className={`min-w-max ${compact ? 'p-2' : 'p-4'}`}>
           <div className="flex flex-col gap-2">
             {/* Month labels positioned over actual weeks */}
-            <div className="flex gap-1 ml-8 relative h-4">
+            <div className={`flex relative h-4 ${compact ? '' : 'ml-8'}`} aria-hidden="true">
               {monthLabels.map((label, index) => (
                 <div
                   key={`${label.month}-${index}`}
                   className="text-xs text-gray-600 absolute whitespace-nowrap"
-                  style={{ left: `${label.position * 16}px` }}
+                  style={{ left: `${label.position * weekWidth}px` }}
                 >
                   {label.month}
                 </div>
               ))}
             </div>
 
-            <div className="flex gap-1">
-              {/* Day of week labels - fixed width to prevent shifting */}
-              <div className="flex flex-col gap-1 mr-2 flex-shrink-0">
-                {dayLabels.map((day, index) => (
+            <div
+              ref={gridRef}
+              role="grid"
+              aria-label={range
+                ? `Sick days from ${formatDateKey(range.startDate, { year: 'numeric', month: 'long', day: 'numeric' })} to ${formatDateKey(range.endDate, { year: 'numeric', month: 'long', day: 'numeric' })}`
+                : year ? `Sick days in ${year}` : 'Sick days over the last 12 months'}
+              aria-readonly={!canEdit || undefined}
+              aria-describedby={canEdit ? helpId : undefined}
+              className={`flex flex-col ${compact ? 'gap-0.5' : 'gap-1'} select-none`}
+              onKeyDown={handleGridKeyDown}
+              onFocus={() => { gridFocusedRef.current = true; }}
+              onBlur={event => {
+                if (!event.currentTarget.contains(event.relatedTarget as Node | null)) {
+                  gridFocusedRef.current = false;
+                }
+              }}
+            >
+              {/* One row per weekday so rows read Sunday to Saturday, like the labels */}
+              {DAY_NAMES.map((dayName, dayIndex) => (
+                <div key={dayName} role="row" className={`flex ${compact ? 'gap-0.5' : 'gap-1'}`}>
+                  {/* Day of week labels - fixed width to prevent shifting */}
                   <div
-                    key={day}
-                    className="text-xs text-gray-600 h-3 flex items-center w-6 text-right"
+                    role="rowheader"
+                    aria-label={dayName}
+                    className={compact ? 'sr-only' : 'text-xs text-gray-600 h-3 flex items-center justify-end w-6 mr-2 flex-shrink-0'}
                   >
-                    {index % 2 === 1 ? day : ''}
+                    {dayIndex % 2 === 1 ? dayName.slice(0, 3) : ''}
                   </div>
-                ))}
-              </div>
-
-              {/* Grid of days - scrollable content */}
-              <div className="flex gap-1 min-w-max">
-                {weeks.map((week, weekIndex) => (
-                  <div key={weekIndex} className="flex flex-col gap-1">
-                    {week.map((day, dayIndex) => (
-                      <DaySquare
-                        key={`${weekIndex}-${dayIndex}`}
-                        date={day.date}
-                        intensity={day.intensity}
-                        onIntensityChange={handleIntensityChange}
-                        isClickable={!readOnly && !!session?.user?.email}
-                        isOutsideYear={false}
-                        isLoading={loading}
-                      />
-                    ))}
-                  </div>
-                ))}
-              </div>
+
+                  {weeks.map(week => week[dayIndex]).filter(Boolean).map(day => (
+                    <DaySquare
+                      key={day.date}
+                      date={day.date}
+                      today={today}
+                      intensity={day.intensity}
+                      tags={day.tags}
+                      category={day.category}
+                      hasNotes={!!day.notes}
+                      onIntensityChange={handleIntensityChange}
+                      onOpenDetails={setEditingDate}
+                      onSelectStart={handleSelectStart}
+                      onSelectExtend={handleSelectExtend}
+                      onSelectTo={handleSelectTo}
+                      isClickable={canEdit}
+                      isSelected={isSelected(day.date)}
+                      syncStatus={syncStatus[day.date]}
+                      isOutsideYear={isOutsideYear(day.date)}
+                      outsideLabel={range ? 'Outside the shared range' : undefined}
+                      isLoading={loading}
+                      tabIndex={day.date === activeDate ? 0 : -1}
+                      onFocus={setFocusedDate}
+                      compact={compact}
+                    />
+                  ))}
+                </div>
+              ))}
             </div>
           </div>
         </div>
       </div>
+
+      {canEdit && (
+        <p id={helpId} className="sr-only">
+          Use the arrow keys to move between days and weeks, 0 to {getMaxIntensity(scale)} to set how sick you were,
+          Space to cycle the intensity and Enter to open notes and tags.
+        </p>
+      )}
+      <div aria-live="polite" className="sr-only">{announcement}</div>
+
+      {!dragging && selectedDates.length > 1 && (
+        <div className="mx-4 mb-2 flex flex-wrap items-center gap-2 text-xs sm:text-sm text-gray-700">
+          <span className="whitespace-nowrap">
+            {selectedDates.length} days selected
+            ({formatDateKey(selectedDates[0], { month: 'short', day: 'numeric' })} – {formatDateKey(selectedDates[selectedDates.length - 1], { month: 'short', day: 'numeric' })}).
+            Set intensity:
+          </span>
+          {getIntensityLevels(scale).map(level => (
+            <button
+              key={level.value}
+              type="button"
+              onClick={() => handleRangeIntensityChange(selectedDates, level.value)}
+              title={level.label}
+              className="px-2 py-1 text-xs rounded-md border bg-white text-gray-700 border-gray-300 hover:bg-gray-50"
+            >
+              {level.value}
+            </button>
+          ))}
+          <button
+            type="button"
+            onClick={() => setSelection(null)}
+            className="px-2 py-1 text-xs text-gray-500 hover:text-gray-700"
+          >
+            Cancel
+          </button>
+        </div>
+      )}
+
+      {pendingCount > 0 && (
+        <div className="mx-4 mb-2 text-xs text-amber-700">
+          {pendingCount} {pendingCount === 1 ? 'change is' : 'changes are'} waiting to be saved and will sync when you are back online.
+        </div>
+      )}
+
+      {syncNotice && (
+        <div className="mx-4 mb-2 text-xs text-gray-600">{syncNotice}</div>
+      )}
+
+      {batchError && (
+        <div className="mx-4 mb-2 text-sm text-red-600">{batchError}</div>
+      )}
+
+      {editingDay && (
+        <DayDetailEditor
+          date={editingDay.date}
+          initialDetails={{
+            intensity: editingDay.intensity,
+            notes: editingDay.notes ?? null,
+            tags: editingDay.tags ?? [],
+            category: editingDay.category ?? null,
+          }}
+          onSave={details => handleDetailsSave(editingDay.date, details)}
+          onClose={() => setEditingDate(null)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,31 @@
+'use client';
+
+import { useSession } from 'next-auth/react';
+
+const ExportButton = () => {
+  const { data: session } = useSession();
+
+  if (!session?.user?.email) return null;
+
+  return (
+    <div className="flex items-center gap-2 text-xs sm:text-sm text-gray-600">
+      <span className="whitespace-nowrap">Download your data:</span>
+      <a
+        href="/api/export?format=csv"
+        download
+        className="px-3 py-1 font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+      >
+        CSV
+      </a>
+      <a
+        href="/api/export?format=json"
+        download
+        className="px-3 py-1 font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+      >
+        JSON
+      </a>
+    </div>
+  );
+};
+
+export default ExportButton;
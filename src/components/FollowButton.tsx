@@ -0,0 +1,88 @@
+'use client';
+
+import React from 'react';
+import { useSession } from 'next-auth/react';
+
+interface FollowButtonProps {
+  username: string;
+  // Known on the following page; elsewhere it is looked up
+  initialFollowing?: boolean;
+}
+
+// Follow or unfollow someone's public grid. Hidden when signed out and on
+// your own profile.
+const FollowButton: React.FC<FollowButtonProps> = ({ username, initialFollowing }) => {
+  const { data: session } = useSession();
+  const [following, setFollowing] = React.useState<boolean | null>(initialFollowing ?? null);
+  const [isSelf, setIsSelf] = React.useState(false);
+  const [saving, setSaving] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+
+  React.useEffect(() => {
+    if (initialFollowing !== undefined || !session?.user?.email) return;
+
+    const loadFollowing = async () => {
+      try {
+        const response = await fetch('/api/follows');
+        if (response.ok) {
+          const data = await response.json();
+          setIsSelf(data.username === username);
+          setFollowing(data.following.some((followee: { username: string }) => followee.username === username));
+        }
+      } catch (error) {
+        console.error('Error loading follows:', error);
+      }
+    };
+
+    loadFollowing();
+  }, [session?.user?.email, username, initialFollowing]);
+
+  const handleClick = async () => {
+    setSaving(true);
+    setError(null);
+
+    try {
+      const response = following
+        ? await fetch(`/api/follows?username=${encodeURIComponent(username)}`, { method: 'DELETE' })
+        : await fetch('/api/follows', {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({ username }),
+          });
+
+      if (response.ok) {
+        setFollowing(!following);
+      } else {
+        const data = await response.json().catch(() => ({}));
+        setError(data.error || 'Something went wrong');
+      }
+    } catch (error) {
+      console.error('Error updating follow:', error);
+      setError('Could not reach the server');
+    }
+    setSaving(false);
+  };
+
+  if (!session?.user?.email || isSelf || following === null) {
+    return null;
+  }
+
+  return (
+    <div className="flex items-center gap-2">
+      <button
+        onClick={handleClick}
+        disabled={saving}
+        className={following
+          ? 'px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50'
+          : 'px-4 py-2 text-sm font-medium text-white bg-gray-900 rounded-md hover:bg-gray-800 disabled:opacity-50'}
+      >
+        {following ? 'Unfollow' : 'Follow'}
+      </button>
+      {error && <span className="text-sm text-red-600">{error}</span>}
+    </div>
+  );
+};
+
+export default FollowButton;
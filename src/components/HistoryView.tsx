@@ -0,0 +1,109 @@
+'use client';
+
+import React from 'react';
+import { useSession } from 'next-auth/react';
+import DayGrid from './DayGrid';
+import InsightsCard from './InsightsCard';
+import UserStats from './UserStats';
+import { useToday } from './UserPreferencesProvider';
+
+// 'rolling' is the last 12 months, a number one calendar year
+type HistoryPeriod = 'rolling' | 'all' | number;
+
+interface HistoryViewProps {
+  // Legend and data buttons, shown under the grid
+  children?: React.ReactNode;
+}
+
+const HistoryView: React.FC<HistoryViewProps> = ({ children }) => {
+  const { data: session } = useSession();
+  const today = useToday();
+  const currentYear = Number(today.slice(0, 4));
+  const [period, setPeriod] = React.useState<HistoryPeriod>('rolling');
+  const [loggedYears, setLoggedYears] = React.useState<number[]>([]);
+
+  React.useEffect(() => {
+    const loadYears = async () => {
+      if (!session?.user?.email) return;
+
+      try {
+        const response = await fetch('/api/grid/years');
+        if (response.ok) {
+          const { years } = await response.json();
+          setLoggedYears(years);
+        }
+      } catch (error) {
+        console.error('Error loading grid years:', error);
+      }
+    };
+
+    loadYears();
+  }, [session?.user?.email]);
+
+  // The current year is always offered, even before anything is logged in it
+  const years = Array.from(new Set([currentYear, ...loggedYears])).sort((a, b) => b - a);
+
+  const heading = period === 'rolling' ? 'Last 12 Months' : period === 'all' ? 'All Years' : String(period);
+
+  return (
+    <>
+      <div className="bg-white rounded-lg shadow-sm border p-3 sm:p-6">
+        <div className="mb-4 flex flex-col sm:flex-row sm:items-start sm:justify-between gap-2">
+          <div>
+            <h2 className="text-base sm:text-lg font-semibold text-gray-800 mb-2">
+              {heading}
+            </h2>
+            <p className="text-xs sm:text-sm text-gray-600">
+              Hover over squares to see dates. Click squares when logged in
+              to track your sick days.
+            </p>
+          </div>
+          {session?.user?.email && (
+            <select
+              value={String(period)}
+              onChange={event => {
+                const { value } = event.target;
+                setPeriod(value === 'rolling' || value === 'all' ? value : Number(value));
+              }}
+              className="self-start px-2 py-1 text-sm border border-gray-300 rounded-md bg-white"
+              aria-label="Choose which period to show"
+            >
+              <option value="rolling">Last 12 months</option>
+              {years.map(year => (
+                <option key={year} value={year}>{year}</option>
+              ))}
+              <option value="all">All years</option>
+            </select>
+          )}
+        </div>
+
+        {period === 'rolling' && <DayGrid />}
+        {typeof period === 'number' && <DayGrid key={period} year={period} />}
+
+        {children}
+      </div>
+
+      {/* Insights cover the whole history, so they sit with the current period */}
+      {period === 'rolling' && (
+        <>
+          <UserStats />
+          <InsightsCard />
+        </>
+      )}
+      {typeof period === 'number' && <UserStats key={period} year={period} />}
+
+      {/* One grid and its stats per year, newest first, to compare years */}
+      {period === 'all' && years.map(year => (
+        <section key={year} className="space-y-4 sm:space-y-6" aria-label={String(year)}>
+          <div className="bg-white rounded-lg shadow-sm border p-3 sm:p-6">
+            <h3 className="text-base sm:text-lg font-semibold text-gray-800 mb-2">{year}</h3>
+            <DayGrid year={year} />
+          </div>
+          <UserStats year={year} />
+        </section>
+      ))}
+    </>
+  );
+};
+
+export default HistoryView;
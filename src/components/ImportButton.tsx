@@ -0,0 +1,247 @@
+'use client';
+
+import React from 'react';
+import { useSession } from 'next-auth/react';
+import { formatDateKey } from '@/lib/dates';
+import { formatIntensity, getIntensityLevels, getMaxIntensity } from '@/lib/intensity';
+import { getDefaultIcsIntensity, type ConflictStrategy, type ImportFormat, type ImportRowResult, type ImportSummary } from '@/lib/import';
+import { useIntensityScale } from './UserPreferencesProvider';
+
+interface ImportResult {
+  dryRun: boolean;
+  summary: ImportSummary;
+  rows: ImportRowResult[];
+}
+
+const actionLabels: Record<ImportRowResult['action'], string> = {
+  create: 'Create',
+  overwrite: 'Overwrite',
+  skip: 'Skip',
+  reject: 'Reject',
+};
+
+const actionClasses: Record<ImportRowResult['action'], string> = {
+  create: 'text-green-700',
+  overwrite: 'text-amber-700',
+  skip: 'text-gray-500',
+  reject: 'text-red-600',
+};
+
+const ImportButton = () => {
+  const { data: session } = useSession();
+  const [open, setOpen] = React.useState(false);
+
+  if (!session?.user?.email) return null;
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={() => setOpen(true)}
+        className="px-3 py-1 text-xs sm:text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+      >
+        Import
+      </button>
+      {open && <ImportDialog onClose={() => setOpen(false)} />}
+    </>
+  );
+};
+
+const ImportDialog: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+  const scale = useIntensityScale();
+  const [file, setFile] = React.useState<File | null>(null);
+  const [conflictStrategy, setConflictStrategy] = React.useState<ConflictStrategy>('overwrite');
+  const [icsIntensity, setIcsIntensity] = React.useState(() => getDefaultIcsIntensity(scale));
+  const [result, setResult] = React.useState<ImportResult | null>(null);
+  const [working, setWorking] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+
+  // The scale can finish loading after the dialog opens
+  React.useEffect(() => {
+    setIcsIntensity(getDefaultIcsIntensity(scale));
+  }, [scale]);
+
+  // Close on Escape like any other dialog
+  React.useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const fileName = file?.name.toLowerCase() ?? '';
+  const format: ImportFormat = fileName.endsWith('.json') ? 'json' : fileName.endsWith('.ics') ? 'ics' : 'csv';
+
+  const runImport = async (dryRun: boolean) => {
+    if (!file) return;
+
+    setWorking(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/import', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          format,
+          content: await file.text(),
+          dryRun,
+          conflictStrategy,
+          intensity: format === 'ics' ? icsIntensity : undefined,
+        }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.error || 'Import failed');
+        setResult(null);
+      } else if (dryRun) {
+        setResult(data);
+      } else {
+        // The grid and stats load their data once, so start fresh
+        window.location.reload();
+      }
+    } catch (error) {
+      console.error('Error importing data:', error);
+      setError('Import failed');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const writes = result ? result.summary.created + result.summary.overwritten : 0;
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4"
+      onClick={onClose}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="import-title"
+        className="w-full max-w-lg bg-white rounded-lg shadow-lg p-4 sm:p-6 space-y-4"
+        onClick={event => event.stopPropagation()}
+      >
+        <h3 id="import-title" className="text-base sm:text-lg font-semibold text-gray-800">
+          Import days
+        </h3>
+
+        <p className="text-xs sm:text-sm text-gray-600">
+          Upload a CSV with <code>date</code> and <code>intensity</code> columns, a JSON export, or an
+          .ics calendar of sick leave. Dates use YYYY-MM-DD and intensity runs from 0 to {getMaxIntensity(scale)}.
+        </p>
+
+        <input
+          type="file"
+          accept=".csv,.json,.ics,text/csv,application/json,text/calendar"
+          onChange={event => {
+            setFile(event.target.files?.[0] ?? null);
+            setResult(null);
+            setError(null);
+          }}
+          className="block w-full text-sm text-gray-700"
+        />
+
+        {format === 'ics' && (
+          <label className="block text-sm text-gray-700">
+            <span className="font-medium">Intensity for calendar days</span>
+            <select
+              value={icsIntensity}
+              onChange={event => {
+                setIcsIntensity(Number(event.target.value));
+                setResult(null);
+              }}
+              className="mt-1 block w-full px-2 py-1 border border-gray-300 rounded-md bg-white"
+            >
+              {getIntensityLevels(scale).filter(level => level.value > 0).map(level => (
+                <option key={level.value} value={level.value}>{formatIntensity(level.value, scale)}</option>
+              ))}
+            </select>
+          </label>
+        )}
+
+        <label className="block text-sm text-gray-700">
+          <span className="font-medium">Days that already have an entry</span>
+          <select
+            value={conflictStrategy}
+            onChange={event => {
+              setConflictStrategy(event.target.value as ConflictStrategy);
+              setResult(null);
+            }}
+            className="mt-1 block w-full px-2 py-1 border border-gray-300 rounded-md bg-white"
+          >
+            <option value="overwrite">Overwrite with the imported intensity</option>
+            <option value="skip">Keep what is already there</option>
+          </select>
+        </label>
+
+        {result && (
+          <div className="space-y-2">
+            <p className="text-sm text-gray-700">
+              {result.summary.created} new, {result.summary.overwritten} overwritten,{' '}
+              {result.summary.skipped} skipped, {result.summary.rejected} rejected
+            </p>
+            <div className="max-h-60 overflow-y-auto border border-gray-200 rounded-md">
+              <table className="w-full text-xs">
+                <thead className="bg-gray-50 text-gray-600 sticky top-0">
+                  <tr>
+                    <th className="px-2 py-1 text-left font-medium">Row</th>
+                    <th className="px-2 py-1 text-left font-medium">Date</th>
+                    <th className="px-2 py-1 text-left font-medium">Intensity</th>
+                    <th className="px-2 py-1 text-left font-medium">Result</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {result.rows.map(row => (
+                    <tr key={row.row} className="border-t border-gray-100">
+                      <td className="px-2 py-1 text-gray-500">{row.row}</td>
+                      <td className="px-2 py-1 text-gray-800">
+                        {row.action === 'reject' ? row.date : formatDateKey(row.date, { year: 'numeric', month: 'short', day: 'numeric' })}
+                      </td>
+                      <td className="px-2 py-1 text-gray-800">{row.intensity ?? '—'}</td>
+                      <td className={`px-2 py-1 ${actionClasses[row.action]}`}>
+                        {actionLabels[row.action]}
+                        {row.reason && <span className="text-gray-500">: {row.reason}</span>}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        <div className="flex justify-end gap-2">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={() => runImport(true)}
+            disabled={!file || working}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+          >
+            Preview
+          </button>
+          <button
+            type="button"
+            onClick={() => runImport(false)}
+            disabled={!result || writes === 0 || working}
+            className="px-4 py-2 text-sm font-medium text-white bg-gray-900 rounded-md hover:bg-gray-800 disabled:opacity-50"
+          >
+            {working ? 'Working…' : `Import ${writes} ${writes === 1 ? 'day' : 'days'}`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportButton;
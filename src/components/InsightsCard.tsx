@@ -0,0 +1,69 @@
+'use client';
+
+import React from 'react';
+import { useSession } from 'next-auth/react';
+import type { Insight } from '@/lib/insights';
+import { useToday, useUserPreferences } from './UserPreferencesProvider';
+
+// Patterns and alerts from the user's whole history, shown next to their stats
+const InsightsCard: React.FC = () => {
+  const { data: session } = useSession();
+  const { loading: preferencesLoading } = useUserPreferences();
+  const today = useToday();
+  const [insights, setInsights] = React.useState<Insight[]>([]);
+  const [loading, setLoading] = React.useState(true);
+
+  React.useEffect(() => {
+    if (preferencesLoading) return;
+
+    const loadInsights = async () => {
+      if (!session?.user?.email) {
+        setLoading(false);
+        return;
+      }
+
+      try {
+        const response = await fetch('/api/insights');
+        if (response.ok) {
+          const data = await response.json();
+          setInsights(data.insights);
+        }
+      } catch (error) {
+        console.error('Error loading insights:', error);
+      }
+      setLoading(false);
+    };
+
+    loadInsights();
+  }, [session?.user?.email, preferencesLoading, today]);
+
+  if (!session?.user?.email) {
+    return null;
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border p-4 sm:p-6">
+      <h3 className="text-base sm:text-lg font-semibold text-gray-800 mb-4">Insights</h3>
+      {loading ? (
+        <div className="text-gray-500">Loading insights...</div>
+      ) : insights.length === 0 ? (
+        <p className="text-sm text-gray-600">
+          Nothing stands out yet. Patterns show up here as your history grows.
+        </p>
+      ) : (
+        <ul className="space-y-2">
+          {insights.map(insight => (
+            <li
+              key={insight.kind}
+              className={`text-sm pl-3 border-l-4 ${insight.alert ? 'border-amber-500 text-amber-700' : 'border-gray-200 text-gray-700'}`}
+            >
+              {insight.message}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default InsightsCard;
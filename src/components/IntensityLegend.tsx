@@ -0,0 +1,33 @@
+'use client';
+
+import React from 'react';
+import { getIntensityLevels } from '@/lib/intensity';
+import { useIntensityColors, useIntensityScale } from './UserPreferencesProvider';
+
+// The "Less sick ... More sick" scale under the grid, in the preferred theme
+const IntensityLegend: React.FC = () => {
+  const intensityColors = useIntensityColors();
+  const scale = useIntensityScale();
+
+  return (
+    <div className="flex items-center gap-2 text-xs sm:text-sm text-gray-600 overflow-x-auto">
+      <span className="whitespace-nowrap">Less sick</span>
+      <div className="flex gap-1 flex-shrink-0">
+        {getIntensityLevels(scale).map(level => {
+          const color = intensityColors(level.value);
+          return (
+            <div
+              key={level.value}
+              className="w-3 h-3 border rounded-sm"
+              style={{ backgroundColor: color.fill, borderColor: color.border }}
+              title={level.label}
+            ></div>
+          );
+        })}
+      </div>
+      <span className="whitespace-nowrap">More sick</span>
+    </div>
+  );
+};
+
+export default IntensityLegend;
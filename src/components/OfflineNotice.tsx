@@ -0,0 +1,28 @@
+'use client';
+
+import React from 'react';
+
+const OfflineNotice = () => {
+  const [offline, setOffline] = React.useState(false);
+
+  React.useEffect(() => {
+    const update = () => setOffline(!navigator.onLine);
+    update();
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    return () => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+    };
+  }, []);
+
+  if (!offline) return null;
+
+  return (
+    <div className="bg-gray-100 border border-gray-200 rounded-lg px-4 py-3 text-sm text-gray-700">
+      You are offline. Showing the data from your last visit; changes you make will sync when you reconnect.
+    </div>
+  );
+};
+
+export default OfflineNotice;
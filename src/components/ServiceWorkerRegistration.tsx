@@ -0,0 +1,19 @@
+'use client';
+
+import React from 'react';
+
+// Registers public/sw.js, which makes the app installable and usable offline.
+// Skipped in development, where cached chunks would fight hot reloading.
+const ServiceWorkerRegistration = () => {
+  React.useEffect(() => {
+    if (process.env.NODE_ENV !== 'production' || !('serviceWorker' in navigator)) return;
+
+    navigator.serviceWorker.register('/sw.js').catch(error => {
+      console.error('Error registering service worker:', error);
+    });
+  }, []);
+
+  return null;
+};
+
+export default ServiceWorkerRegistration;
@@ -0,0 +1,334 @@
+'use client';
+
+import React from 'react';
+import { useSession } from 'next-auth/react';
+import { formatDateKey } from '@/lib/dates';
+import {
+  getPresetRange,
+  SHARE_EXPIRY_OPTIONS,
+  SHARE_LINK_LABEL_MAX_LENGTH,
+  SHARE_RANGE_PRESETS,
+  validateShareLinkLabel,
+  validateShareRange,
+} from '@/lib/shareLinks';
+
+interface ShareLinkData {
+  id: number;
+  token: string;
+  label: string | null;
+  start_date: string;
+  end_date: string;
+  expires_at: string | null;
+  expired: boolean;
+  hide_notes: boolean;
+  view_count: number;
+  last_viewed_at: string | null;
+}
+
+const DATE_FORMAT: Intl.DateTimeFormatOptions = { year: 'numeric', month: 'short', day: 'numeric' };
+
+function formatTimestamp(value: string): string {
+  return new Date(value).toLocaleDateString(undefined, DATE_FORMAT);
+}
+
+// Links that show part of the grid to anyone holding them, e.g. a doctor,
+// without making the profile public
+const ShareLinks: React.FC = () => {
+  const { data: session, status } = useSession();
+  const [links, setLinks] = React.useState<ShareLinkData[]>([]);
+  const [today, setToday] = React.useState<string | null>(null);
+  const [label, setLabel] = React.useState('');
+  const [preset, setPreset] = React.useState<string>('90');
+  const [customStart, setCustomStart] = React.useState('');
+  const [customEnd, setCustomEnd] = React.useState('');
+  const [expiry, setExpiry] = React.useState('');
+  const [hideNotes, setHideNotes] = React.useState(true);
+  const [confirmingRevoke, setConfirmingRevoke] = React.useState<number | null>(null);
+  const [loading, setLoading] = React.useState(true);
+  const [saving, setSaving] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+  const [message, setMessage] = React.useState<string | null>(null);
+
+  React.useEffect(() => {
+    const loadLinks = async () => {
+      if (!session?.user?.email) {
+        setLoading(false);
+        return;
+      }
+
+      try {
+        const response = await fetch('/api/share-links');
+        if (response.ok) {
+          const data = await response.json();
+          setLinks(data.links);
+          setToday(data.today);
+          setCustomStart(getPresetRange(90, data.today).startDate);
+          setCustomEnd(data.today);
+        }
+      } catch (error) {
+        console.error('Error loading share links:', error);
+      }
+      setLoading(false);
+    };
+
+    loadLinks();
+  }, [session?.user?.email]);
+
+  const range = preset === 'custom' || !today
+    ? { startDate: customStart, endDate: customEnd }
+    : getPresetRange(Number(preset), today);
+
+  const handleCreate = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!today) return;
+    const linkLabel = label.trim();
+
+    const validationError = validateShareLinkLabel(linkLabel) || validateShareRange(range.startDate, range.endDate, today);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const response = await fetch('/api/share-links', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          label: linkLabel,
+          start_date: range.startDate,
+          end_date: range.endDate,
+          expires_in_days: expiry ? Number(expiry) : null,
+          hide_notes: hideNotes,
+        }),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        setLinks(prev => [data.link, ...prev]);
+        setLabel('');
+        setMessage('Share link created');
+      } else {
+        setError(data.error || 'Could not create the link');
+      }
+    } catch (error) {
+      console.error('Error creating share link:', error);
+      setError('Could not reach the server');
+    }
+    setSaving(false);
+  };
+
+  const handleRevoke = async (link: ShareLinkData) => {
+    setSaving(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const response = await fetch(`/api/share-links/${link.id}`, { method: 'DELETE' });
+
+      if (response.ok) {
+        setLinks(prev => prev.filter(item => item.id !== link.id));
+        setConfirmingRevoke(null);
+        setMessage('Share link revoked');
+      } else {
+        const data = await response.json();
+        setError(data.error || 'Could not revoke the link');
+      }
+    } catch (error) {
+      console.error('Error revoking share link:', error);
+      setError('Could not reach the server');
+    }
+    setSaving(false);
+  };
+
+  if (status === 'loading' || loading) {
+    return (
+      <div className="bg-white rounded-lg shadow-sm border p-4 sm:p-6">
+        <div className="text-gray-500">Loading share links...</div>
+      </div>
+    );
+  }
+
+  if (!session?.user?.email || !today) {
+    return null;
+  }
+
+  const origin = typeof window !== 'undefined' ? window.location.origin : '';
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border p-4 sm:p-6 space-y-6">
+      <div>
+        <h3 className="text-base sm:text-lg font-semibold text-gray-800 mb-2">Share Links</h3>
+        <p className="text-xs sm:text-sm text-gray-600 mb-3">
+          Show part of your grid to someone, such as a doctor, without making your profile public.
+          Anyone with a link can open it until it expires or you revoke it.
+        </p>
+
+        {links.length === 0 ? (
+          <p className="text-sm text-gray-600">You have no share links.</p>
+        ) : (
+          <ul className="divide-y border rounded-md">
+            {links.map(link => (
+              <li key={link.id} className="px-3 py-3 space-y-2">
+                <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-1">
+                  <span className="text-sm font-medium text-gray-900">
+                    {link.label || 'Untitled link'}
+                  </span>
+                  <span className="text-xs text-gray-500">
+                    {formatDateKey(link.start_date, DATE_FORMAT)} – {formatDateKey(link.end_date, DATE_FORMAT)}
+                  </span>
+                </div>
+                {link.expired ? (
+                  <p className="text-xs sm:text-sm text-amber-700">
+                    Expired {link.expires_at && formatTimestamp(link.expires_at)}. The link no longer works.
+                  </p>
+                ) : (
+                  <input
+                    type="text"
+                    value={`${origin}/s/${link.token}`}
+                    readOnly
+                    onFocus={event => event.target.select()}
+                    className="w-full px-3 py-2 text-xs sm:text-sm text-gray-700 border border-gray-300 rounded-md bg-gray-50"
+                    aria-label={`URL of ${link.label || 'untitled link'}`}
+                  />
+                )}
+                <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+                  <span className="text-xs text-gray-500">
+                    {link.view_count} {link.view_count === 1 ? 'view' : 'views'}
+                    {link.last_viewed_at && <>, last {formatTimestamp(link.last_viewed_at)}</>}
+                    {' · '}
+                    {link.expired ? 'Expired' : link.expires_at ? `Expires ${formatTimestamp(link.expires_at)}` : 'Never expires'}
+                    {' · '}
+                    {link.hide_notes ? 'Notes hidden' : 'Notes shown'}
+                  </span>
+                  {confirmingRevoke === link.id ? (
+                    <div className="flex gap-2">
+                      <button
+                        type="button"
+                        onClick={() => handleRevoke(link)}
+                        disabled={saving}
+                        className="px-4 py-2 text-sm font-medium text-red-600 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+                      >
+                        Revoke link
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => setConfirmingRevoke(null)}
+                        disabled={saving}
+                        className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+                      >
+                        Keep it
+                      </button>
+                    </div>
+                  ) : (
+                    <button
+                      type="button"
+                      onClick={() => setConfirmingRevoke(link.id)}
+                      disabled={saving}
+                      className="self-start sm:self-auto px-4 py-2 text-sm font-medium text-red-600 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+                    >
+                      Revoke…
+                    </button>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <form onSubmit={handleCreate} className="space-y-3">
+        <h3 className="text-base sm:text-lg font-semibold text-gray-800">New Share Link</h3>
+        <input
+          type="text"
+          value={label}
+          onChange={event => setLabel(event.target.value)}
+          maxLength={SHARE_LINK_LABEL_MAX_LENGTH}
+          placeholder="Label, e.g. Dr. Rivera (only you see it)"
+          className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          aria-label="Label"
+        />
+        <div className="flex flex-col sm:flex-row gap-3">
+          <label className="flex-1 text-sm text-gray-700">
+            <span className="block mb-1">Days shown</span>
+            <select
+              value={preset}
+              onChange={event => setPreset(event.target.value)}
+              className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            >
+              {SHARE_RANGE_PRESETS.map(option => (
+                <option key={option.days} value={option.days}>{option.label}</option>
+              ))}
+              <option value="custom">Custom range</option>
+            </select>
+          </label>
+          <label className="flex-1 text-sm text-gray-700">
+            <span className="block mb-1">Link expires</span>
+            <select
+              value={expiry}
+              onChange={event => setExpiry(event.target.value)}
+              className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            >
+              {SHARE_EXPIRY_OPTIONS.map(option => (
+                <option key={option.label} value={option.days ?? ''}>{option.label}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+        {preset === 'custom' && (
+          <div className="flex flex-col sm:flex-row gap-3">
+            <label className="flex-1 text-sm text-gray-700">
+              <span className="block mb-1">From</span>
+              <input
+                type="date"
+                value={customStart}
+                max={today}
+                onChange={event => setCustomStart(event.target.value)}
+                className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              />
+            </label>
+            <label className="flex-1 text-sm text-gray-700">
+              <span className="block mb-1">To</span>
+              <input
+                type="date"
+                value={customEnd}
+                max={today}
+                onChange={event => setCustomEnd(event.target.value)}
+                className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              />
+            </label>
+          </div>
+        )}
+        <label className="flex items-start gap-3">
+          <input
+            type="checkbox"
+            checked={hideNotes}
+            onChange={event => setHideNotes(event.target.checked)}
+            className="mt-1"
+          />
+          <span className="text-sm text-gray-700">
+            Hide notes
+            <span className="block text-xs text-gray-500">
+              Intensities, tags and illness types are always shown. Notes are only included when this is off.
+            </span>
+          </span>
+        </label>
+        <button
+          type="submit"
+          disabled={saving}
+          className="px-4 py-2 text-sm font-medium text-white bg-gray-900 rounded-md hover:bg-gray-800 disabled:opacity-50"
+        >
+          Create share link
+        </button>
+      </form>
+
+      {error && <div className="text-sm text-red-600">{error}</div>}
+      {message && <div className="text-sm text-green-700">{message}</div>}
+    </div>
+  );
+};
+
+export default ShareLinks;
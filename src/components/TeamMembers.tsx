@@ -0,0 +1,379 @@
+'use client';
+
+import React from 'react';
+import { useRouter } from 'next/navigation';
+import {
+  canAssignRole,
+  canManageMembers,
+  canRemoveMember,
+  SHARE_MODE_LABELS,
+  SHARE_MODES,
+  TEAM_NAME_MAX_LENGTH,
+  TEAM_ROLE_LABELS,
+  TEAM_ROLES,
+  validateTeamName,
+  type ShareMode,
+  type TeamRole,
+} from '@/lib/teams';
+
+interface MemberData {
+  username: string | null;
+  name: string | null;
+  image: string | null;
+  role: TeamRole;
+  shares_grid: boolean;
+}
+
+interface InviteData {
+  id: number;
+  username: string | null;
+  email: string | null;
+  role: TeamRole;
+}
+
+interface TeamMembersProps {
+  teamId: number;
+  teamName: string;
+  viewerUsername: string | null;
+  viewerRole: TeamRole;
+  viewerShareMode: ShareMode;
+  initialMembers: MemberData[];
+  initialInvites: InviteData[];
+}
+
+// Everything on a team page that changes the team: the viewer's sharing, the
+// member list, invites and, for owners and admins, the team itself. The grid
+// and stats are rendered by the server, so changes that affect them refresh it.
+const TeamMembers: React.FC<TeamMembersProps> = ({ teamId, teamName, viewerUsername, viewerRole, viewerShareMode, initialMembers, initialInvites }) => {
+  const router = useRouter();
+  const [members, setMembers] = React.useState(initialMembers);
+  const [invites, setInvites] = React.useState(initialInvites);
+  const [shareMode, setShareMode] = React.useState(viewerShareMode);
+  const [invitee, setInvitee] = React.useState('');
+  const [inviteRole, setInviteRole] = React.useState<TeamRole>('member');
+  const [name, setName] = React.useState(teamName);
+  const [confirmingDelete, setConfirmingDelete] = React.useState(false);
+  const [saving, setSaving] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+  const [message, setMessage] = React.useState<string | null>(null);
+
+  const canManage = canManageMembers(viewerRole);
+
+  // Sends one change; returns the response body, or null after showing the error
+  const send = async (url: string, method: string, body?: object) => {
+    setSaving(true);
+    setError(null);
+    setMessage(null);
+
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: body ? { 'Content-Type': 'application/json' } : undefined,
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      const data = await response.json();
+      setSaving(false);
+
+      if (!response.ok) {
+        setError(data.error || 'Something went wrong');
+        return null;
+      }
+      return data;
+    } catch (error) {
+      console.error('Error updating team:', error);
+      setError('Could not reach the server');
+      setSaving(false);
+      return null;
+    }
+  };
+
+  const memberUrl = (username: string) => `/api/teams/${teamId}/members/${encodeURIComponent(username)}`;
+
+  const handleShareModeChange = async (mode: ShareMode) => {
+    if (!viewerUsername) return;
+    if (await send(memberUrl(viewerUsername), 'PATCH', { share_mode: mode })) {
+      setShareMode(mode);
+      setMembers(prev => prev.map(member =>
+        member.username === viewerUsername ? { ...member, shares_grid: mode === 'full' } : member
+      ));
+      setMessage(`Sharing set to ${SHARE_MODE_LABELS[mode].label.toLowerCase()}`);
+      router.refresh();
+    }
+  };
+
+  const handleRoleChange = async (member: MemberData, role: TeamRole) => {
+    if (!member.username) return;
+    const data = await send(memberUrl(member.username), 'PATCH', { role });
+    if (data) {
+      setMembers(prev => prev.map(item => item.username === member.username ? data.member : item));
+      if (member.username === viewerUsername) {
+        router.refresh();
+      }
+    }
+  };
+
+  const handleRemove = async (member: MemberData) => {
+    if (!member.username) return;
+    if (await send(memberUrl(member.username), 'DELETE')) {
+      if (member.username === viewerUsername) {
+        window.location.href = '/teams';
+        return;
+      }
+      setMembers(prev => prev.filter(item => item.username !== member.username));
+      router.refresh();
+    }
+  };
+
+  const handleInvite = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!invitee.trim()) return;
+
+    const data = await send(`/api/teams/${teamId}/members`, 'POST', { invitee: invitee.trim(), role: inviteRole });
+    if (data) {
+      setInvites(prev => [...prev, data.invite]);
+      setInvitee('');
+      setMessage(`Invited ${data.invite.username ? `@${data.invite.username}` : data.invite.email}`);
+    }
+  };
+
+  const handleCancelInvite = async (invite: InviteData) => {
+    if (await send(`/api/teams/invites/${invite.id}`, 'DELETE')) {
+      setInvites(prev => prev.filter(item => item.id !== invite.id));
+    }
+  };
+
+  const handleRename = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const teamName = name.trim();
+
+    const validationError = validateTeamName(teamName);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    if (await send(`/api/teams/${teamId}`, 'PATCH', { name: teamName })) {
+      setMessage('Team renamed');
+      router.refresh();
+    }
+  };
+
+  const handleDelete = async () => {
+    if (await send(`/api/teams/${teamId}`, 'DELETE')) {
+      window.location.href = '/teams';
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border p-4 sm:p-6 space-y-6">
+      <div>
+        <h3 className="text-base sm:text-lg font-semibold text-gray-800 mb-2">Your Sharing</h3>
+        <p className="text-xs sm:text-sm text-gray-600 mb-3">
+          Only applies to this team. Notes are never shared.
+        </p>
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-2" role="radiogroup" aria-label="What you share with this team">
+          {SHARE_MODES.map(mode => (
+            <label
+              key={mode}
+              className={`flex items-start gap-2 px-3 py-2 text-sm text-gray-700 border rounded-md cursor-pointer ${
+                shareMode === mode ? 'border-indigo-500 ring-1 ring-indigo-500' : 'border-gray-300'
+              }`}
+            >
+              <input
+                type="radio"
+                name="share-mode"
+                value={mode}
+                checked={shareMode === mode}
+                onChange={() => handleShareModeChange(mode)}
+                disabled={saving}
+                className="w-4 h-4 mt-0.5"
+              />
+              <span>
+                <span className="block font-medium">{SHARE_MODE_LABELS[mode].label}</span>
+                <span className="block text-xs text-gray-500">{SHARE_MODE_LABELS[mode].description}</span>
+              </span>
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <h3 className="text-base sm:text-lg font-semibold text-gray-800 mb-2">Members</h3>
+        <ul className="divide-y border rounded-md">
+          {members.map(member => {
+            const isViewer = member.username === viewerUsername;
+            return (
+              <li key={member.username} className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 px-3 py-2">
+                <div className="flex items-center gap-2 min-w-0">
+                  {member.image && (
+                    <img src={member.image} alt="" className="w-8 h-8 rounded-full" />
+                  )}
+                  <div className="min-w-0">
+                    <div className="text-sm font-medium text-gray-900 truncate">
+                      {member.name || member.username}
+                      {isViewer && <span className="text-gray-500 font-normal"> (you)</span>}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      @{member.username}
+                      {member.shares_grid && ' · Grid shared'}
+                    </div>
+                  </div>
+                </div>
+                <div className="flex items-center gap-2">
+                  {viewerRole === 'owner' ? (
+                    <select
+                      value={member.role}
+                      onChange={event => handleRoleChange(member, event.target.value as TeamRole)}
+                      disabled={saving}
+                      className="px-2 py-1 text-sm border border-gray-300 rounded-md bg-white"
+                      aria-label={`Role of ${member.username}`}
+                    >
+                      {TEAM_ROLES.map(role => (
+                        <option key={role} value={role}>{TEAM_ROLE_LABELS[role]}</option>
+                      ))}
+                    </select>
+                  ) : (
+                    <span className="text-sm text-gray-600">{TEAM_ROLE_LABELS[member.role]}</span>
+                  )}
+                  {(isViewer || canRemoveMember(viewerRole, member.role)) && (
+                    <button
+                      onClick={() => handleRemove(member)}
+                      disabled={saving}
+                      className="px-3 py-1 text-sm font-medium text-red-600 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+                    >
+                      {isViewer ? 'Leave' : 'Remove'}
+                    </button>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+
+      {canManage && (
+        <form onSubmit={handleInvite}>
+          <h3 className="text-base sm:text-lg font-semibold text-gray-800 mb-2">Invite</h3>
+          <p className="text-xs sm:text-sm text-gray-600 mb-3">
+            By username, or by email for people who have not signed up yet. They join once they accept.
+          </p>
+          <div className="flex flex-col sm:flex-row gap-2">
+            <input
+              type="text"
+              value={invitee}
+              onChange={event => setInvitee(event.target.value)}
+              placeholder="username or email"
+              className="flex-1 px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              aria-label="Username or email to invite"
+            />
+            <select
+              value={inviteRole}
+              onChange={event => setInviteRole(event.target.value as TeamRole)}
+              className="px-3 py-2 text-sm border border-gray-300 rounded-md bg-white"
+              aria-label="Role"
+            >
+              {TEAM_ROLES.filter(role => canAssignRole(viewerRole, role)).map(role => (
+                <option key={role} value={role}>{TEAM_ROLE_LABELS[role]}</option>
+              ))}
+            </select>
+            <button
+              type="submit"
+              disabled={saving || !invitee.trim()}
+              className="px-4 py-2 text-sm font-medium text-white bg-gray-900 rounded-md hover:bg-gray-800 disabled:opacity-50"
+            >
+              Invite
+            </button>
+          </div>
+
+          {invites.length > 0 && (
+            <ul className="mt-3 divide-y border rounded-md">
+              {invites.map(invite => (
+                <li key={invite.id} className="flex items-center justify-between gap-2 px-3 py-2 text-sm text-gray-700">
+                  <span>
+                    {invite.username ? `@${invite.username}` : invite.email}
+                    <span className="text-gray-500"> · {TEAM_ROLE_LABELS[invite.role]} · Pending</span>
+                  </span>
+                  <button
+                    type="button"
+                    onClick={() => handleCancelInvite(invite)}
+                    disabled={saving}
+                    className="px-3 py-1 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+                  >
+                    Cancel
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </form>
+      )}
+
+      {canManage && (
+        <form onSubmit={handleRename}>
+          <h3 className="text-base sm:text-lg font-semibold text-gray-800 mb-2">Team</h3>
+          <div className="flex flex-col sm:flex-row gap-2">
+            <input
+              type="text"
+              value={name}
+              onChange={event => setName(event.target.value)}
+              maxLength={TEAM_NAME_MAX_LENGTH}
+              className="flex-1 px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              aria-label="Team name"
+            />
+            <button
+              type="submit"
+              disabled={saving || name.trim() === teamName}
+              className="px-4 py-2 text-sm font-medium text-white bg-gray-900 rounded-md hover:bg-gray-800 disabled:opacity-50"
+            >
+              Rename
+            </button>
+          </div>
+
+          {viewerRole === 'owner' && (
+            <div className="mt-3">
+              {confirmingDelete ? (
+                <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+                  <p className="text-xs sm:text-sm text-amber-700">
+                    Deleting removes the team for everyone. Nobody&apos;s own grid is affected.
+                  </p>
+                  <div className="flex gap-2">
+                    <button
+                      type="button"
+                      onClick={handleDelete}
+                      disabled={saving}
+                      className="px-4 py-2 text-sm font-medium text-red-600 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+                    >
+                      Delete team
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setConfirmingDelete(false)}
+                      disabled={saving}
+                      className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+                    >
+                      Keep it
+                    </button>
+                  </div>
+                </div>
+              ) : (
+                <button
+                  type="button"
+                  onClick={() => setConfirmingDelete(true)}
+                  disabled={saving}
+                  className="px-4 py-2 text-sm font-medium text-red-600 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+                >
+                  Delete team…
+                </button>
+              )}
+            </div>
+          )}
+        </form>
+      )}
+
+      {error && <div className="text-sm text-red-600">{error}</div>}
+      {message && <div className="text-sm text-green-700">{message}</div>}
+    </div>
+  );
+};
+
+export default TeamMembers;
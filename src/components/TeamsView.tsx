@@ -0,0 +1,222 @@
+'use client';
+
+import React from 'react';
+import Link from 'next/link';
+import { useSession } from 'next-auth/react';
+import { SHARE_MODE_LABELS, TEAM_NAME_MAX_LENGTH, TEAM_ROLE_LABELS, validateTeamName, type ShareMode, type TeamRole } from '@/lib/teams';
+
+interface TeamData {
+  id: number;
+  name: string;
+  role: TeamRole;
+  share_mode: ShareMode;
+  member_count: number;
+}
+
+interface InviteData {
+  id: number;
+  team_name: string;
+  role: TeamRole;
+  invited_by: string | null;
+}
+
+// The signed-in user's teams, invites waiting for them and a form to start a team
+const TeamsView: React.FC = () => {
+  const { data: session, status } = useSession();
+  const [teams, setTeams] = React.useState<TeamData[]>([]);
+  const [invites, setInvites] = React.useState<InviteData[]>([]);
+  const [name, setName] = React.useState('');
+  const [loading, setLoading] = React.useState(true);
+  const [saving, setSaving] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+
+  React.useEffect(() => {
+    const loadTeams = async () => {
+      if (!session?.user?.email) {
+        setLoading(false);
+        return;
+      }
+
+      try {
+        const response = await fetch('/api/teams');
+        if (response.ok) {
+          const data = await response.json();
+          setTeams(data.teams);
+          setInvites(data.invites);
+        }
+      } catch (error) {
+        console.error('Error loading teams:', error);
+      }
+      setLoading(false);
+    };
+
+    loadTeams();
+  }, [session?.user?.email]);
+
+  const handleCreate = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const teamName = name.trim();
+
+    const validationError = validateTeamName(teamName);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/teams', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ name: teamName }),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        setTeams(prev => [...prev, data.team].sort((a, b) => a.name.localeCompare(b.name)));
+        setName('');
+      } else {
+        setError(data.error || 'Could not create the team');
+      }
+    } catch (error) {
+      console.error('Error creating team:', error);
+      setError('Could not reach the server');
+    }
+    setSaving(false);
+  };
+
+  const handleInvite = async (invite: InviteData, accept: boolean) => {
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/teams/invites/${invite.id}`, { method: accept ? 'POST' : 'DELETE' });
+      const data = await response.json();
+
+      if (response.ok) {
+        setInvites(prev => prev.filter(item => item.id !== invite.id));
+        if (accept && data.team) {
+          setTeams(prev => [...prev, data.team].sort((a, b) => a.name.localeCompare(b.name)));
+        }
+      } else {
+        setError(data.error || 'Could not answer the invite');
+      }
+    } catch (error) {
+      console.error('Error answering team invite:', error);
+      setError('Could not reach the server');
+    }
+    setSaving(false);
+  };
+
+  if (status === 'loading' || loading) {
+    return (
+      <div className="bg-white rounded-lg shadow-sm border p-4 sm:p-6">
+        <div className="text-gray-500">Loading teams...</div>
+      </div>
+    );
+  }
+
+  if (!session?.user?.email) {
+    return (
+      <div className="bg-white rounded-lg shadow-sm border p-4 sm:p-6">
+        <p className="text-sm text-gray-600">Sign in with GitHub to see your teams.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border p-4 sm:p-6 space-y-6">
+      {invites.length > 0 && (
+        <div>
+          <h3 className="text-base sm:text-lg font-semibold text-gray-800 mb-2">Invites</h3>
+          <ul className="divide-y border rounded-md">
+            {invites.map(invite => (
+              <li key={invite.id} className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 px-3 py-2">
+                <div className="text-sm text-gray-700">
+                  <span className="font-medium">{invite.team_name}</span>
+                  <span className="text-gray-500">
+                    {' '}as {TEAM_ROLE_LABELS[invite.role].toLowerCase()}
+                    {invite.invited_by && <>, from @{invite.invited_by}</>}
+                  </span>
+                </div>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => handleInvite(invite, true)}
+                    disabled={saving}
+                    className="px-4 py-2 text-sm font-medium text-white bg-gray-900 rounded-md hover:bg-gray-800 disabled:opacity-50"
+                  >
+                    Join
+                  </button>
+                  <button
+                    onClick={() => handleInvite(invite, false)}
+                    disabled={saving}
+                    className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+                  >
+                    Decline
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+          <p className="text-xs text-gray-500 mt-2">
+            Joining shares nothing yet. You choose what each team sees on its page.
+          </p>
+        </div>
+      )}
+
+      <div>
+        <h3 className="text-base sm:text-lg font-semibold text-gray-800 mb-2">Your Teams</h3>
+        {teams.length === 0 ? (
+          <p className="text-sm text-gray-600">You are not in any teams yet.</p>
+        ) : (
+          <ul className="divide-y border rounded-md">
+            {teams.map(team => (
+              <li key={team.id}>
+                <Link
+                  href={`/teams/${team.id}`}
+                  className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-1 px-3 py-2 hover:bg-gray-50"
+                >
+                  <span className="text-sm font-medium text-gray-900">{team.name}</span>
+                  <span className="text-xs text-gray-500">
+                    {team.member_count} {team.member_count === 1 ? 'member' : 'members'} · {TEAM_ROLE_LABELS[team.role]} · Sharing: {SHARE_MODE_LABELS[team.share_mode].label}
+                  </span>
+                </Link>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <form onSubmit={handleCreate}>
+        <h3 className="text-base sm:text-lg font-semibold text-gray-800 mb-2">New Team</h3>
+        <p className="text-xs sm:text-sm text-gray-600 mb-3">
+          You become its owner and can invite people by username or email.
+        </p>
+        <div className="flex flex-col sm:flex-row gap-2">
+          <input
+            type="text"
+            value={name}
+            onChange={event => setName(event.target.value)}
+            maxLength={TEAM_NAME_MAX_LENGTH}
+            placeholder="Team name"
+            className="flex-1 px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            aria-label="Team name"
+          />
+          <button
+            type="submit"
+            disabled={saving || !name.trim()}
+            className="px-4 py-2 text-sm font-medium text-white bg-gray-900 rounded-md hover:bg-gray-800 disabled:opacity-50"
+          >
+            Create team
+          </button>
+        </div>
+      </form>
+
+      {error && <div className="text-sm text-red-600">{error}</div>}
+    </div>
+  );
+};
+
+export default TeamsView;
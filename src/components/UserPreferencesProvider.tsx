@@ -0,0 +1,121 @@
+'use client';
+
+import React from 'react';
+import { useSession } from 'next-auth/react';
+import { isDarkMode, subscribeColorMode } from '@/lib/colorMode';
+import { getTodayInTimeZone, isValidTimeZone, DEFAULT_TIMEZONE } from '@/lib/dates';
+import { DEFAULT_SCALE, getIntensityScale, toColorLevel, type IntensityScale } from '@/lib/intensity';
+import { DEFAULT_THEME, getIntensityColor, getTheme, isThemeId, type ThemeId } from '@/lib/themes';
+
+export interface UserPreferences {
+  timezone: string;
+  theme: ThemeId;
+  scale: IntensityScale;
+}
+
+interface UserPreferencesContextValue {
+  preferences: UserPreferences;
+  loading: boolean;
+}
+
+const getBrowserTimeZone = () => {
+  const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+  return timeZone && isValidTimeZone(timeZone) ? timeZone : DEFAULT_TIMEZONE;
+};
+
+const UserPreferencesContext = React.createContext<UserPreferencesContextValue>({
+  preferences: { timezone: DEFAULT_TIMEZONE, theme: DEFAULT_THEME, scale: DEFAULT_SCALE },
+  loading: true,
+});
+
+interface UserPreferencesProviderProps {
+  children: React.ReactNode;
+  // Server-rendered pages showing someone else's grid pass that person's preferences
+  initialPreferences?: UserPreferences;
+}
+
+const UserPreferencesProvider: React.FC<UserPreferencesProviderProps> = ({ children, initialPreferences }) => {
+  const { data: session, status } = useSession();
+  const [preferences, setPreferences] = React.useState<UserPreferences>(
+    initialPreferences ?? { timezone: DEFAULT_TIMEZONE, theme: DEFAULT_THEME, scale: DEFAULT_SCALE }
+  );
+  const [loading, setLoading] = React.useState(!initialPreferences);
+
+  React.useEffect(() => {
+    if (initialPreferences || status === 'loading') return;
+
+    const loadPreferences = async () => {
+      const browserTimeZone = getBrowserTimeZone();
+
+      if (!session?.user?.email) {
+        setPreferences({ timezone: browserTimeZone, theme: DEFAULT_THEME, scale: DEFAULT_SCALE });
+        setLoading(false);
+        return;
+      }
+
+      try {
+        const response = await fetch('/api/user');
+        if (response.ok) {
+          const { user } = await response.json();
+          setPreferences({
+            timezone: user.timezone || browserTimeZone,
+            theme: isThemeId(user.theme) ? user.theme : DEFAULT_THEME,
+            scale: getIntensityScale(user.intensity_levels, user.intensity_labels),
+          });
+
+          // First visit: remember the browser's zone so the server agrees on "today"
+          if (!user.timezone) {
+            await fetch('/api/user', {
+              method: 'PATCH',
+              headers: {
+                'Content-Type': 'application/json',
+              },
+              body: JSON.stringify({ timezone: browserTimeZone }),
+            });
+          }
+        } else {
+          setPreferences({ timezone: browserTimeZone, theme: DEFAULT_THEME, scale: DEFAULT_SCALE });
+        }
+      } catch (error) {
+        console.error('Error loading user preferences:', error);
+        setPreferences({ timezone: browserTimeZone, theme: DEFAULT_THEME, scale: DEFAULT_SCALE });
+      }
+      setLoading(false);
+    };
+
+    loadPreferences();
+  }, [session?.user?.email, status, initialPreferences]);
+
+  return (
+    <UserPreferencesContext.Provider value={{ preferences, loading }}>
+      {children}
+    </UserPreferencesContext.Provider>
+  );
+};
+
+export const useUserPreferences = () => React.useContext(UserPreferencesContext);
+
+// Today's date key in the preferred timezone
+export const useToday = () => {
+  const { preferences } = useUserPreferences();
+  return React.useMemo(() => getTodayInTimeZone(preferences.timezone), [preferences.timezone]);
+};
+
+// Whether the page is currently dark; false during server rendering
+export const useDarkMode = () =>
+  React.useSyncExternalStore(subscribeColorMode, isDarkMode, () => false);
+
+// The intensity levels and their names
+export const useIntensityScale = () => useUserPreferences().preferences.scale;
+
+// Fill and border for an intensity level in the preferred theme and scale
+export const useIntensityColors = () => {
+  const { preferences } = useUserPreferences();
+  const dark = useDarkMode();
+  return React.useCallback(
+    (intensity: number) => getIntensityColor(getTheme(preferences.theme), toColorLevel(intensity, preferences.scale), dark),
+    [preferences.theme, preferences.scale, dark]
+  );
+};
+
+export default UserPreferencesProvider;
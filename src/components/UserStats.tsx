@@ -2,6 +2,10 @@
 
 import React from 'react';
 import { useSession } from 'next-auth/react';
+import { getCategoryLabel } from '@/lib/categories';
+import { getRolling12MonthRange } from '@/lib/dates';
+import { formatIntensity, getIntensityLabel, getIntensityLevels } from '@/lib/intensity';
+import { useIntensityColors, useIntensityScale, useToday, useUserPreferences } from './UserPreferencesProvider';
 
 interface StatsData {
   // Overall Stats
@@ -20,43 +24,37 @@ interface StatsData {
   averageSickStreak: number;
 }
 
-const UserStats: React.FC = () => {
+interface CategoryStatsData {
+  category: string;
+  totalSickDays: number;
+  longestStreak: number;
+  averageIntensity: number;
+  mostCommonDay: string;
+}
+
+interface UserStatsProps {
+  readOnly?: boolean;
+  year?: number; // stats for this calendar year instead of the rolling 12 months
+  initialStats?: StatsData | null;
+  initialCategories?: CategoryStatsData[];
+  heading?: string; // replaces "Statistics", e.g. for a team
+}
+
+const UserStats: React.FC<UserStatsProps> = ({ readOnly = false, year, initialStats, initialCategories = [], heading }) => {
   const { data: session } = useSession();
-  const [stats, setStats] = React.useState<StatsData | null>(null);
-  const [loading, setLoading] = React.useState(true);
-
-  const generateRolling12Months = () => {
-    // Use consistent timezone handling - always work in local timezone
-    const today = new Date();
-    today.setHours(0, 0, 0, 0); // Normalize to start of day
-    
-    // Calculate exactly 365 days ago (not 1 year ago to avoid leap year issues)
-    const startDate = new Date(today);
-    startDate.setDate(startDate.getDate() - 365);
-    
-    // Find the Sunday before or on the start date
-    const firstSunday = new Date(startDate);
-    firstSunday.setDate(firstSunday.getDate() - firstSunday.getDay());
-    
-    const dates = [];
-    const currentDate = new Date(firstSunday);
-    
-    // Generate dates for complete weeks that include today
-    while (currentDate <= today) {
-      dates.push(new Date(currentDate));
-      currentDate.setDate(currentDate.getDate() + 1);
-    }
-    
-    // Add remaining days to complete the final week
-    while (dates.length % 7 !== 0) {
-      dates.push(new Date(currentDate));
-      currentDate.setDate(currentDate.getDate() + 1);
-    }
-
-    return dates;
-  };
+  const { loading: preferencesLoading } = useUserPreferences();
+  const today = useToday();
+  const intensityColors = useIntensityColors();
+  const scale = useIntensityScale();
+  const [stats, setStats] = React.useState<StatsData | null>(initialStats ?? null);
+  const [categories, setCategories] = React.useState<CategoryStatsData[]>(initialCategories);
+  const [category, setCategory] = React.useState(''); // '' means all sick days
+  const [loading, setLoading] = React.useState(!readOnly);
 
   React.useEffect(() => {
+    // Read-only renders (public profiles) are handed their stats by the server
+    if (readOnly || preferencesLoading) return;
+
     const loadStats = async () => {
       if (!session?.user?.email) {
         setLoading(false);
@@ -64,14 +62,16 @@ const UserStats: React.FC = () => {
       }
 
       try {
-        const dates = generateRolling12Months();
-        const startDate = dates[0].toISOString().split('T')[0];
-        const endDate = dates[dates.length - 1].toISOString().split('T')[0];
+        const { startDate, endDate } = getRolling12MonthRange(today);
+        const rangeParams = year ? `year=${year}` : `startDate=${startDate}&endDate=${endDate}`;
         
-        const response = await fetch(`/api/stats?startDate=${startDate}&endDate=${endDate}`);
+        const categoryParam = category ? `&category=${encodeURIComponent(category)}` : '';
+        
+        const response = await fetch(`/api/stats?${rangeParams}${categoryParam}`);
         if (response.ok) {
-          const { stats: userStats } = await response.json();
+          const { stats: userStats, categories: categoryStats } = await response.json();
           setStats(userStats);
+          setCategories(categoryStats);
         }
       } catch (error) {
         console.error('Error loading user stats:', error);
@@ -80,9 +80,12 @@ const UserStats: React.FC = () => {
     };
 
     loadStats();
-  }, [session?.user?.email]);
+  }, [session?.user?.email, readOnly, category, preferencesLoading, today, year]);
+
+  const period = year ? String(year) : 'Last 12 Months';
+  const title = `${heading ?? (readOnly ? 'Statistics' : 'Your Statistics')} (${period})`;
 
-  if (!session?.user?.email) {
+  if (!readOnly && !session?.user?.email) {
     return (
       <div className="bg-white rounded-lg shadow-sm border p-4 sm:p-6">
         <h3 className="text-base sm:text-lg font-semibold text-gray-800 mb-4">Your Health Journey Matters</h3>
@@ -117,7 +120,7 @@ const UserStats: React.FC = () => {
   if (loading) {
     return (
       <div className="bg-white rounded-lg shadow-sm border p-4 sm:p-6">
-        <h3 className="text-base sm:text-lg font-semibold text-gray-800 mb-4">Your Statistics (Last 12 Months)</h3>
+        <h3 className="text-base sm:text-lg font-semibold text-gray-800 mb-4">{title}</h3>
         <div className="text-gray-500">Loading stats...</div>
       </div>
     );
@@ -126,7 +129,7 @@ const UserStats: React.FC = () => {
   if (!stats) {
     return (
       <div className="bg-white rounded-lg shadow-sm border p-4 sm:p-6">
-        <h3 className="text-base sm:text-lg font-semibold text-gray-800 mb-4">Your Statistics (Last 12 Months)</h3>
+        <h3 className="text-base sm:text-lg font-semibold text-gray-800 mb-4">{title}</h3>
         <div className="text-gray-500">No data available</div>
       </div>
     );
@@ -148,7 +151,24 @@ const UserStats: React.FC = () => {
 
   return (
     <div className="bg-white rounded-lg shadow-sm border p-4 sm:p-6">
-      <h3 className="text-base sm:text-lg font-semibold text-gray-800 mb-4">Your Statistics (Last 12 Months)</h3>
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 mb-4">
+        <h3 className="text-base sm:text-lg font-semibold text-gray-800">{title}</h3>
+        {!readOnly && (categories.length > 0 || category) && (
+          <select
+            value={category}
+            onChange={event => setCategory(event.target.value)}
+            className="self-start sm:self-auto px-2 py-1 text-sm border border-gray-300 rounded-md bg-white"
+            aria-label="Filter statistics by illness"
+          >
+            <option value="">All illnesses</option>
+            {categories.map(categoryStats => (
+              <option key={categoryStats.category} value={categoryStats.category}>
+                {getCategoryLabel(categoryStats.category)}
+              </option>
+            ))}
+          </select>
+        )}
+      </div>
       
       {/* Overall Stats */}
       <div className="mb-6">
@@ -160,9 +180,9 @@ const UserStats: React.FC = () => {
             description="Days with any intensity > 0"
           />
           <StatCard 
-            label="Last 12 Months"
+            label={period}
             value={`${stats.percentageOfYear}%`}
-            description="Percentage of rolling year"
+            description={year ? 'Percentage of the year' : 'Percentage of rolling year'}
           />
           <StatCard 
             label="Year-to-Date"
@@ -172,7 +192,9 @@ const UserStats: React.FC = () => {
           <StatCard 
             label="Average Intensity"
             value={stats.averageIntensity.toFixed(1)}
-            description="Mean intensity when sick"
+            description={stats.averageIntensity > 0
+              ? `Mean intensity when sick, about "${getIntensityLabel(Math.round(stats.averageIntensity), scale)}"`
+              : 'Mean intensity when sick'}
           />
         </div>
       </div>
@@ -216,37 +238,49 @@ const UserStats: React.FC = () => {
         </div>
       </div>
 
-      <div className="text-xs text-gray-500 mt-4">
-        <div className="flex items-center gap-2 mb-2">
-          <div className="flex gap-1">
-            <div className="w-3 h-3 bg-gray-100 border border-gray-200 rounded-sm"></div>
-            <span>0 - Feeling great</span>
-          </div>
-        </div>
-        <div className="flex items-center gap-2 mb-2">
-          <div className="flex gap-1">
-            <div className="w-3 h-3 bg-green-100 border border-green-200 rounded-sm"></div>
-            <span>1 - Slightly unwell</span>
-          </div>
-        </div>
-        <div className="flex items-center gap-2 mb-2">
-          <div className="flex gap-1">
-            <div className="w-3 h-3 bg-green-200 border border-green-300 rounded-sm"></div>
-            <span>2 - Moderately sick</span>
+      {/* Category Stats */}
+      {categories.length > 0 && (
+        <div className="mb-4">
+          <h4 className="text-sm font-medium text-gray-700 mb-3">🩺 By Illness</h4>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm text-left">
+              <thead className="text-xs text-gray-500 border-b">
+                <tr>
+                  <th className="py-2 pr-4 font-medium">Illness</th>
+                  <th className="py-2 pr-4 font-medium">Days</th>
+                  <th className="py-2 pr-4 font-medium">Longest Streak</th>
+                  <th className="py-2 pr-4 font-medium">Avg Intensity</th>
+                  <th className="py-2 font-medium">Most Common Day</th>
+                </tr>
+              </thead>
+              <tbody className="text-gray-700">
+                {categories.map(categoryStats => (
+                  <tr key={categoryStats.category} className="border-b last:border-0">
+                    <td className="py-2 pr-4">{getCategoryLabel(categoryStats.category)}</td>
+                    <td className="py-2 pr-4">{categoryStats.totalSickDays}</td>
+                    <td className="py-2 pr-4">{categoryStats.longestStreak}</td>
+                    <td className="py-2 pr-4">{categoryStats.averageIntensity.toFixed(1)}</td>
+                    <td className="py-2">{categoryStats.mostCommonDay}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
           </div>
         </div>
-        <div className="flex items-center gap-2 mb-2">
-          <div className="flex gap-1">
-            <div className="w-3 h-3 bg-green-400 border border-green-500 rounded-sm"></div>
-            <span>3 - Quite unwell</span>
-          </div>
-        </div>
-        <div className="flex items-center gap-2">
-          <div className="flex gap-1">
-            <div className="w-3 h-3 bg-green-600 border border-green-700 rounded-sm"></div>
-            <span>4 - Very sick</span>
+      )}
+
+      <div className="text-xs text-gray-500 mt-4 space-y-2">
+        {getIntensityLevels(scale).map(level => (
+          <div key={level.value} className="flex items-center gap-2">
+            <div className="flex gap-1">
+              <div
+                className="w-3 h-3 border rounded-sm"
+                style={{ backgroundColor: intensityColors(level.value).fill, borderColor: intensityColors(level.value).border }}
+              ></div>
+              <span>{formatIntensity(level.value, scale)}</span>
+            </div>
           </div>
-        </div>
+        ))}
       </div>
     </div>
   );
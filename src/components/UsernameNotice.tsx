@@ -0,0 +1,68 @@
+'use client';
+
+import React from 'react';
+import Link from 'next/link';
+import { useSession } from 'next-auth/react';
+
+// Tells users whose email-derived handle was taken which username they got instead
+const UsernameNotice: React.FC = () => {
+  const { data: session } = useSession();
+  const [username, setUsername] = React.useState<string | null>(null);
+
+  React.useEffect(() => {
+    const loadNotice = async () => {
+      if (!session?.user?.email) return;
+
+      try {
+        const response = await fetch('/api/user');
+        if (response.ok) {
+          const { user } = await response.json();
+          setUsername(user.username_adjusted ? user.username : null);
+        }
+      } catch (error) {
+        console.error('Error loading username notice:', error);
+      }
+    };
+
+    loadNotice();
+  }, [session?.user?.email]);
+
+  const handleDismiss = async () => {
+    setUsername(null);
+
+    try {
+      await fetch('/api/user', {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ username_notice_dismissed: true }),
+      });
+    } catch (error) {
+      console.error('Error dismissing username notice:', error);
+    }
+  };
+
+  if (!username) return null;
+
+  return (
+    <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 sm:p-4 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 text-sm text-amber-900">
+      <p>
+        The username matching your email was already taken, so your username is{' '}
+        <span className="font-semibold">{username}</span>. You can{' '}
+        <Link href="/settings" className="underline">
+          change it in settings
+        </Link>
+        .
+      </p>
+      <button
+        onClick={handleDismiss}
+        className="self-start sm:self-auto px-3 py-1 text-xs font-medium text-amber-900 border border-amber-300 rounded-md hover:bg-amber-100"
+      >
+        Dismiss
+      </button>
+    </div>
+  );
+};
+
+export default UsernameNotice;
@@ -0,0 +1,17 @@
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') return
+
+  const { assertSchemaCurrent, SchemaOutdatedError } = await import('./lib/migrate')
+
+  try {
+    await assertSchemaCurrent()
+  } catch (error) {
+    if (error instanceof SchemaOutdatedError) {
+      // Serving against an old schema corrupts data in subtle ways, so refuse to start
+      console.error(error.message)
+      process.exit(1)
+    }
+    // The database may simply not be reachable yet; requests will surface that
+    console.error('Could not verify database schema version:', error)
+  }
+}
@@ -0,0 +1,42 @@
+import type { ShareLink, TeamMember, User } from './database'
+
+// Who may see what of someone else's data. Every page and route that shows
+// another user's grid, activity or membership details asks here rather than
+// checking is_public or share modes itself, so the rules live in one place.
+//
+// `viewerId` is the signed-in user's id, or null for anonymous visitors,
+// crawlers and embeds.
+
+type Owner = Pick<User, 'id' | 'is_public'>
+
+// Public profiles, embeds, share images and the following page
+export function canViewGrid(owner: Owner, viewerId: string | null): boolean {
+  return owner.id === viewerId || owner.is_public
+}
+
+// Only public grids can be followed, and never your own
+export function canFollow(owner: Owner, viewerId: string | null): boolean {
+  return viewerId !== null && owner.id !== viewerId && owner.is_public
+}
+
+// Weekly activity in followers' feeds needs a public grid and a separate opt-in
+export function canViewActivity(owner: Owner & Pick<User, 'share_activity'>, viewerId: string | null): boolean {
+  return canViewGrid(owner, viewerId) && owner.share_activity
+}
+
+// Teammates see an individual grid only when its owner shares it fully with
+// that team; anonymized members are only counted
+export function canViewTeamMemberGrid(member: Pick<TeamMember, 'share_mode'>): boolean {
+  return member.share_mode === 'full'
+}
+
+// Share links work for anyone holding the URL, whether or not the grid is
+// public, until they expire or are revoked
+export function canViewShareLink(link: Pick<ShareLink, 'expired'>): boolean {
+  return !link.expired
+}
+
+// Notes travel with a share link only when its owner left them visible
+export function canViewSharedNotes(link: Pick<ShareLink, 'expired' | 'hide_notes'>): boolean {
+  return canViewShareLink(link) && !link.hide_notes
+}
@@ -0,0 +1,17 @@
+// App identity shared by the root metadata, the web manifest and the icons
+export const APP_NAME = 'SickSquares'
+export const APP_DESCRIPTION = 'Track your sick days like GitHub contributions'
+export const THEME_COLOR = '#16a34a' // green-600, the darkest grid square
+export const BACKGROUND_COLOR = '#f9fafb' // gray-50, the page background
+
+// Cache the service worker keeps API responses in; cleared on sign-out so the
+// next person on the device never sees them
+export const API_CACHE_NAME = 'sicksquares-api-v1'
+
+// Absolute base URL for metadata and share images, which crawlers need in
+// full. Server-only: these variables are not available in the browser.
+export function getSiteUrl(): string {
+  if (process.env.NEXTAUTH_URL) return process.env.NEXTAUTH_URL
+  if (process.env.VERCEL_URL) return `https://${process.env.VERCEL_URL}`
+  return 'http://localhost:3000'
+}
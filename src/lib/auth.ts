@@ -13,12 +13,20 @@ export const authOptions: NextAuthOptions = {
       if (session?.user && token?.sub) {
         session.user.id = token.sub
       }
+      if (session?.user && token?.login) {
+        session.user.login = token.login
+      }
       return session
     },
-    jwt: async ({ user, token }) => {
+    jwt: async ({ user, token, profile }) => {
       if (user) {
         token.uid = user.id
       }
+      // Keep the GitHub login around as a username fallback
+      const login = (profile as { login?: string } | undefined)?.login
+      if (login) {
+        token.login = login
+      }
       return token
     },
   },
@@ -0,0 +1,23 @@
+import { createHash, randomBytes } from 'crypto'
+import type { User } from './database'
+import type { CalendarOptions } from './ical'
+
+// Calendar feeds are fetched by calendar apps without a session, so the URL
+// itself is the secret. 24 random bytes are not guessable.
+export function generateCalendarToken(): string {
+  return randomBytes(24).toString('base64url')
+}
+
+export function getCalendarOptions(user: User): CalendarOptions {
+  const displayName = user.name || user.username || 'Someone'
+  return {
+    name: `Sick Squares: ${displayName}`,
+    // Phrased for shared calendars, where it says who is out
+    summary: `${displayName} out sick`,
+    uidPrefix: createHash('sha256').update(user.id).digest('hex').slice(0, 16),
+  }
+}
+
+export function calendarFilename(user: User): string {
+  return `sicksquares-${user.username || 'calendar'}.ics`
+}
@@ -0,0 +1,24 @@
+// What kind of illness a sick day was. Stored as the id on user_grids.category.
+export const ILLNESS_CATEGORIES = [
+  { id: 'cold', label: 'Cold' },
+  { id: 'flu', label: 'Flu' },
+  { id: 'migraine', label: 'Migraine' },
+  { id: 'stomach', label: 'Stomach bug' },
+  { id: 'allergy', label: 'Allergies' },
+  { id: 'injury', label: 'Injury' },
+  { id: 'chronic', label: 'Chronic condition' },
+  { id: 'mental-health', label: 'Mental health' },
+  { id: 'other', label: 'Other' },
+]
+
+// Stats filter value for sick days logged without a category
+export const UNCATEGORIZED = 'uncategorized'
+
+export function isIllnessCategory(category: string): boolean {
+  return ILLNESS_CATEGORIES.some(c => c.id === category)
+}
+
+export function getCategoryLabel(category: string | null): string {
+  if (!category || category === UNCATEGORIZED) return 'Uncategorized'
+  return ILLNESS_CATEGORIES.find(c => c.id === category)?.label ?? category
+}
@@ -0,0 +1,54 @@
+import { COLOR_MODE_STORAGE_KEY, type ColorMode } from './themes'
+
+// Browser-only helpers for the light/dark page setting. The choice lives in
+// localStorage so it also applies when signed out and on other people's
+// profiles; the `dark` class on <html> is what the styles key off.
+
+const CHANGE_EVENT = 'sicksquares:colormodechange'
+const DARK_QUERY = '(prefers-color-scheme: dark)'
+
+export function getColorMode(): ColorMode {
+  try {
+    const stored = localStorage.getItem(COLOR_MODE_STORAGE_KEY)
+    return stored === 'light' || stored === 'dark' ? stored : 'system'
+  } catch {
+    return 'system'
+  }
+}
+
+export function isDarkMode(): boolean {
+  const mode = getColorMode()
+  return mode === 'dark' || (mode === 'system' && window.matchMedia(DARK_QUERY).matches)
+}
+
+function applyColorMode() {
+  document.documentElement.classList.toggle('dark', isDarkMode())
+  window.dispatchEvent(new Event(CHANGE_EVENT))
+}
+
+export function setColorMode(mode: ColorMode) {
+  try {
+    if (mode === 'system') {
+      localStorage.removeItem(COLOR_MODE_STORAGE_KEY)
+    } else {
+      localStorage.setItem(COLOR_MODE_STORAGE_KEY, mode)
+    }
+  } catch {
+    // Storage can be blocked (private browsing); the page then follows the system
+  }
+  applyColorMode()
+}
+
+// Calls back when the setting or, in 'system' mode, the OS appearance changes
+export function subscribeColorMode(callback: () => void): () => void {
+  const media = window.matchMedia(DARK_QUERY)
+  const handleSystemChange = () => {
+    if (getColorMode() === 'system') applyColorMode()
+  }
+  media.addEventListener('change', handleSystemChange)
+  window.addEventListener(CHANGE_EVENT, callback)
+  return () => {
+    media.removeEventListener('change', handleSystemChange)
+    window.removeEventListener(CHANGE_EVENT, callback)
+  }
+}
@@ -1,7 +1,15 @@
-import { Pool } from 'pg'
+import { Pool, PoolClient, types } from 'pg'
+import { canViewTeamMemberGrid } from './access'
+import { UNCATEGORIZED } from './categories'
+import { getTodayInTimeZone, DEFAULT_TIMEZONE } from './dates'
+import { DEFAULT_LABELS, isScaleSize, rescaleIntensity, type ScaleSize } from './intensity'
+import { computeMonthlyBreakdown, computeStats, findSickPeriods, type MonthlyStats, type SickPeriod, type StatsDay, type UserStats } from './stats'
+import { isSymptomTag } from './tags'
+import { toTeamIntensity, type ShareMode, type TeamRole } from './teams'
+import { toUsernameBase, validateUsername, withUsernameSuffix, USERNAME_MAX_LENGTH } from './username'
 
 // Create a connection pool with production optimizations
-const pool = new Pool({
+export const pool = new Pool({
   connectionString: process.env.POSTGRES_URL,
   ssl: {
     rejectUnauthorized: false
@@ -11,11 +19,18 @@ const pool = new Pool({
   connectionTimeoutMillis: 2000, // Return error after 2 seconds if connection could not be established
 })
 
+// Return DATE columns as YYYY-MM-DD strings instead of Dates at local midnight,
+// which shift by a day whenever the server is not running in UTC
+types.setTypeParser(types.builtins.DATE, (value: string) => value)
+
 export interface UserGrid {
   id: string
   user_id: string
   date: string // YYYY-MM-DD format
   intensity: number // 0-4
+  notes: string | null
+  tags: string[]
+  category: string | null
   created_at: Date
   updated_at: Date
 }
@@ -25,6 +40,9 @@ interface DatabaseUserGrid {
   user_id: string
   date: string
   intensity: string | number
+  notes?: string | null
+  tags?: string[]
+  category?: string | null
   created_at: string | Date
   updated_at: string | Date
 }
@@ -40,73 +58,47 @@ interface DatabaseUser {
   updated_at: string | Date
 }
 
+export interface User {
+  id: string
+  email: string | null
+  name: string | null
+  image: string | null
+  username: string | null
+  is_public: boolean
+  username_adjusted: boolean
+  timezone: string | null // IANA zone; null until the user's browser reports one
+  theme: string | null // intensity color theme id; null means the default
+  intensity_levels: number // 3 or 5
+  intensity_labels: string[] | null // custom level names; null means the default wording
+  share_activity: boolean // weekly activity shows in followers' feeds
+}
+
+const USER_COLUMNS = 'id, email, name, image, username, is_public, username_adjusted, timezone, theme, intensity_levels, intensity_labels, share_activity'
+
 interface DatabaseStatsRow {
   date: string
   intensity: string | number
-  day_of_week: string | number
 }
 
-export interface UserStats {
-  // Overall Stats
-  totalSickDays: number
-  percentageOfYear: number // Rolling 12 months
-  yearToDatePercentage: number // Jan 1 to today
-  averageIntensity: number
-  
-  // Pattern Stats
-  mostCommonDay: string
-  recoveryRate: number // Average days between sick periods
-  
-  // Streak Stats
-  currentStreak: number
-  longestStreak: number
-  averageSickStreak: number
-}
+export type { UserStats } from './stats'
 
-export async function initializeDatabase() {
-  const client = await pool.connect()
-  try {
-    // Create users table if it doesn't exist
-    await client.query(`
-      CREATE TABLE IF NOT EXISTS users (
-        id TEXT PRIMARY KEY,
-        email TEXT UNIQUE,
-        name TEXT,
-        image TEXT,
-        username TEXT UNIQUE,
-        is_public BOOLEAN DEFAULT FALSE,
-        created_at TIMESTAMP DEFAULT NOW(),
-        updated_at TIMESTAMP DEFAULT NOW()
-      )
-    `)
-
-    // Add new columns to existing users table if they don't exist
-    await client.query(`
-      ALTER TABLE users 
-      ADD COLUMN IF NOT EXISTS username TEXT UNIQUE,
-      ADD COLUMN IF NOT EXISTS is_public BOOLEAN DEFAULT FALSE
-    `)
-
-    // Create user_grids table if it doesn't exist
-    await client.query(`
-      CREATE TABLE IF NOT EXISTS user_grids (
-        id SERIAL PRIMARY KEY,
-        user_id TEXT NOT NULL,
-        date DATE NOT NULL,
-        intensity INTEGER NOT NULL DEFAULT 0 CHECK (intensity >= 0 AND intensity <= 4),
-        created_at TIMESTAMP DEFAULT NOW(),
-        updated_at TIMESTAMP DEFAULT NOW(),
-        UNIQUE(user_id, date),
-        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
-      )
-    `)
+// Grid rows joined with their tags, aggregated into one array per day
+const GRID_SELECT = `
+  SELECT g.*, COALESCE(array_agg(t.tag ORDER BY t.tag) FILTER (WHERE t.tag IS NOT NULL), '{}') AS tags
+  FROM user_grids g
+  LEFT JOIN user_grid_tags t ON t.user_id = g.user_id AND t.date = g.date`
 
-    console.log('Database initialized successfully')
-  } catch (error) {
-    console.error('Error initializing database:', error)
-    throw error
-  } finally {
-    client.release()
+function mapUserGrid(row: DatabaseUserGrid): UserGrid {
+  return {
+    id: row.id,
+    user_id: row.user_id,
+    date: row.date,
+    intensity: typeof row.intensity === 'string' ? parseInt(row.intensity) : row.intensity,
+    notes: row.notes ?? null,
+    tags: row.tags ?? [],
+    category: row.category ?? null,
+    created_at: new Date(row.created_at),
+    updated_at: new Date(row.updated_at)
   }
 }
 
@@ -114,17 +106,13 @@ export async function getUserGridData(userId: string, year: number): Promise<Use
   const client = await pool.connect()
   try {
     const result = await client.query(
-      'SELECT * FROM user_grids WHERE user_id = $1 AND EXTRACT(YEAR FROM date) = $2 ORDER BY date',
+      `${GRID_SELECT}
+       WHERE g.user_id = $1 AND EXTRACT(YEAR FROM g.date) = $2
+       GROUP BY g.id
+       ORDER BY g.date`,
       [userId, year]
     )
-    return result.rows.map((row: DatabaseUserGrid): UserGrid => ({
-      id: row.id,
-      user_id: row.user_id,
-      date: row.date,
-      intensity: typeof row.intensity === 'string' ? parseInt(row.intensity) : row.intensity,
-      created_at: new Date(row.created_at),
-      updated_at: new Date(row.updated_at)
-    }))
+    return result.rows.map(mapUserGrid)
   } catch (error) {
     console.error('Error fetching user grid data:', error)
     throw error
@@ -137,17 +125,13 @@ export async function getUserGridDataByDateRange(userId: string, startDate: stri
   const client = await pool.connect()
   try {
     const result = await client.query(
-      'SELECT * FROM user_grids WHERE user_id = $1 AND date BETWEEN $2 AND $3 ORDER BY date',
+      `${GRID_SELECT}
+       WHERE g.user_id = $1 AND g.date BETWEEN $2 AND $3
+       GROUP BY g.id
+       ORDER BY g.date`,
       [userId, startDate, endDate]
     )
-    return result.rows.map((row: DatabaseUserGrid): UserGrid => ({
-      id: row.id,
-      user_id: row.user_id,
-      date: row.date,
-      intensity: typeof row.intensity === 'string' ? parseInt(row.intensity) : row.intensity,
-      created_at: new Date(row.created_at),
-      updated_at: new Date(row.updated_at)
-    }))
+    return result.rows.map(mapUserGrid)
   } catch (error) {
     console.error('Error fetching user grid data by date range:', error)
     throw error
@@ -156,322 +140,345 @@ export async function getUserGridDataByDateRange(userId: string, startDate: stri
   }
 }
 
-export async function updateGridSquare(userId: string, date: string, intensity: number): Promise<UserGrid> {
+// Calendar years with at least one logged day, newest first
+export async function getUserGridYears(userId: string): Promise<number[]> {
   const client = await pool.connect()
   try {
     const result = await client.query(
-      `INSERT INTO user_grids (user_id, date, intensity, updated_at)
-       VALUES ($1, $2, $3, NOW())
+      `SELECT DISTINCT EXTRACT(YEAR FROM date)::int AS year
+       FROM user_grids
+       WHERE user_id = $1
+       ORDER BY year DESC`,
+      [userId]
+    )
+    return result.rows.map((row: { year: number }) => row.year)
+  } catch (error) {
+    console.error('Error fetching grid years:', error)
+    throw error
+  } finally {
+    client.release()
+  }
+}
+
+// Keyset pagination over a user's whole history, oldest first. Pass the last
+// date of the previous page as afterDate to continue.
+export async function getUserGridDataPage(userId: string, afterDate: string | null, limit: number): Promise<UserGrid[]> {
+  const client = await pool.connect()
+  try {
+    const result = await client.query(
+      `${GRID_SELECT}
+       WHERE g.user_id = $1 AND ($2::date IS NULL OR g.date > $2::date)
+       GROUP BY g.id
+       ORDER BY g.date
+       LIMIT $3`,
+      [userId, afterDate, limit]
+    )
+    return result.rows.map(mapUserGrid)
+  } catch (error) {
+    console.error('Error fetching user grid data page:', error)
+    throw error
+  } finally {
+    client.release()
+  }
+}
+
+// Details are only touched when passed; undefined leaves them as they are
+export interface GridSquareDetails {
+  notes?: string | null
+  tags?: string[]
+  category?: string | null
+}
+
+// Thrown by updateGridSquare when the day changed after the client last saw it
+export class GridConflictError extends Error {
+  constructor(public current: UserGrid) {
+    super(`Grid square ${current.date} was changed by another update`)
+    this.name = 'GridConflictError'
+  }
+}
+
+// Thrown by updateGridSquares with every day of the batch that changed
+export class GridBatchConflictError extends Error {
+  constructor(public current: UserGrid[]) {
+    super(`Grid squares ${current.map(square => square.date).join(', ')} were changed by another update`)
+    this.name = 'GridBatchConflictError'
+  }
+}
+
+// Pass expectedUpdatedAt (the updated_at the client last saw, or null when the
+// day had no entry) to refuse the write if someone else changed the day since.
+export async function updateGridSquare(
+  userId: string,
+  date: string,
+  intensity: number,
+  details: GridSquareDetails = {},
+  expectedUpdatedAt?: string | null
+): Promise<UserGrid> {
+  const client = await pool.connect()
+  try {
+    await client.query('BEGIN')
+
+    if (expectedUpdatedAt !== undefined) {
+      // Lock the row so nothing changes it between the check and the write
+      const current = await client.query(
+        'SELECT updated_at FROM user_grids WHERE user_id = $1 AND date = $2 FOR UPDATE',
+        [userId, date]
+      )
+      // Compare instants at millisecond precision, which is all JSON carries
+      const currentUpdatedAt = current.rows[0] ? new Date(current.rows[0].updated_at).getTime() : null
+      if (currentUpdatedAt !== null && (expectedUpdatedAt === null || currentUpdatedAt !== new Date(expectedUpdatedAt).getTime())) {
+        const square = await client.query(
+          `${GRID_SELECT}
+           WHERE g.user_id = $1 AND g.date = $2
+           GROUP BY g.id`,
+          [userId, date]
+        )
+        throw new GridConflictError(mapUserGrid(square.rows[0]))
+      }
+    }
+
+    await client.query(
+      `INSERT INTO user_grids (user_id, date, intensity, notes, category, updated_at)
+       VALUES ($1, $2, $3, $5, $7, NOW())
        ON CONFLICT (user_id, date)
        DO UPDATE SET 
          intensity = $3,
-         updated_at = NOW()
-       RETURNING *`,
-      [userId, date, intensity]
+         notes = CASE WHEN $4 THEN $5 ELSE user_grids.notes END,
+         category = CASE WHEN $6 THEN $7 ELSE user_grids.category END,
+         updated_at = NOW()`,
+      [
+        userId, date, intensity,
+        details.notes !== undefined, details.notes ?? null,
+        details.category !== undefined, details.category ?? null
+      ]
     )
-    const row: DatabaseUserGrid = result.rows[0]
-    return {
-      id: row.id,
-      user_id: row.user_id,
-      date: row.date,
-      intensity: typeof row.intensity === 'string' ? parseInt(row.intensity) : row.intensity,
-      created_at: new Date(row.created_at),
-      updated_at: new Date(row.updated_at)
+
+    if (details.tags !== undefined) {
+      await client.query(
+        'DELETE FROM user_grid_tags WHERE user_id = $1 AND date = $2',
+        [userId, date]
+      )
+
+      if (details.tags.length > 0) {
+        await client.query(
+          `INSERT INTO user_grid_tags (user_id, date, tag)
+           SELECT $1, $2, UNNEST($3::text[])
+           ON CONFLICT DO NOTHING`,
+          [userId, date, details.tags]
+        )
+
+        // Remember custom tags so they are suggested on other days
+        const customTags = details.tags.filter(tag => !isSymptomTag(tag))
+        if (customTags.length > 0) {
+          await client.query(
+            `INSERT INTO user_tags (user_id, name)
+             SELECT $1, UNNEST($2::text[])
+             ON CONFLICT DO NOTHING`,
+            [userId, customTags]
+          )
+        }
+      }
     }
+
+    const result = await client.query(
+      `${GRID_SELECT}
+       WHERE g.user_id = $1 AND g.date = $2
+       GROUP BY g.id`,
+      [userId, date]
+    )
+
+    await client.query('COMMIT')
+    return mapUserGrid(result.rows[0])
   } catch (error) {
-    console.error('Error updating grid square:', error)
+    await client.query('ROLLBACK')
+    if (!(error instanceof GridConflictError)) {
+      console.error('Error updating grid square:', error)
+    }
     throw error
   } finally {
     client.release()
   }
 }
 
-export async function getUserStats(userId: string, year: number): Promise<UserStats> {
+export interface GridEntry {
+  date: string
+  intensity: number
+  expectedUpdatedAt?: string | null // as for updateGridSquare; undefined skips the check
+}
+
+export async function getExistingGridDates(userId: string, dates: string[]): Promise<Set<string>> {
   const client = await pool.connect()
   try {
-    // Get all data for the year
-    const yearData = await client.query(
-      `SELECT 
-        date,
-        intensity,
-        EXTRACT(DOW FROM date) as day_of_week
-      FROM user_grids 
-      WHERE user_id = $1 
-      AND EXTRACT(YEAR FROM date) = $2
-      AND intensity > 0
-      ORDER BY date`,
-      [userId, year]
+    const result = await client.query(
+      'SELECT date FROM user_grids WHERE user_id = $1 AND date = ANY($2::date[])',
+      [userId, dates]
     )
+    return new Set(result.rows.map((row: { date: string }) => row.date))
+  } catch (error) {
+    console.error('Error fetching existing grid dates:', error)
+    throw error
+  } finally {
+    client.release()
+  }
+}
 
-    const sickDays: DatabaseStatsRow[] = yearData.rows
-    const totalSickDays = sickDays.length
-    
-    // Calculate percentage of year (365 or 366 days)
-    const isLeapYear = (year % 4 === 0 && year % 100 !== 0) || (year % 400 === 0)
-    const daysInYear = isLeapYear ? 366 : 365
-    const percentageOfYear = (totalSickDays / daysInYear) * 100
-
-    // Calculate year-to-date percentage (Jan 1 to today)
-    const currentYear = new Date().getFullYear()
-    const yearStart = new Date(currentYear, 0, 1)
-    const currentDateForYTD = new Date()
-    const daysIntoYear = Math.floor((currentDateForYTD.getTime() - yearStart.getTime()) / (1000 * 60 * 60 * 24)) + 1
-    
-    // For year-to-date, we need current year data only
-    const yearToDateSickDays = year === currentYear ? totalSickDays : sickDays.filter(day => {
-      const dayDate = new Date(day.date)
-      return dayDate.getFullYear() === currentYear
-    }).length
-    const yearToDatePercentage = year === currentYear ? (yearToDateSickDays / daysIntoYear) * 100 : 0
-
-    // Find most common day of week
-    const dayCount: { [key: number]: number } = {}
-    sickDays.forEach(day => {
-      const dow = typeof day.day_of_week === 'string' ? parseInt(day.day_of_week) : day.day_of_week
-      dayCount[dow] = (dayCount[dow] || 0) + 1
-    })
-
-    const dayNames = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
-    let mostCommonDay = 'None'
-    let maxCount = 0
-    Object.entries(dayCount).forEach(([dow, count]) => {
-      if (count > maxCount) {
-        maxCount = count
-        mostCommonDay = dayNames[parseInt(dow)]
-      }
-    })
-
-    // Calculate streaks and advanced stats
-    let currentStreak = 0
-    let longestStreak = 0
-    let tempStreak = 0
-    const streaks: number[] = []
-    const recoveryPeriods: number[] = []
-    
-    const sortedDates = sickDays.map(d => new Date(d.date)).sort((a, b) => a.getTime() - b.getTime())
-    const currentDateForStreaks = new Date()
-    
-    for (let i = 0; i < sortedDates.length; i++) {
-      if (i === 0) {
-        tempStreak = 1
-      } else {
-        const prevDate = sortedDates[i - 1]
-        const currDate = sortedDates[i]
-        const diffDays = Math.floor((currDate.getTime() - prevDate.getTime()) / (1000 * 60 * 60 * 24))
-        
-        if (diffDays === 1) {
-          tempStreak++
-        } else {
-          // End of a streak
-          longestStreak = Math.max(longestStreak, tempStreak)
-          streaks.push(tempStreak)
-          
-          // Record recovery period (gap between streaks)
-          if (diffDays > 1) {
-            recoveryPeriods.push(diffDays - 1)
-          }
-          
-          tempStreak = 1
-        }
-      }
-      
-      // Check if this is part of current streak (ending today or yesterday)
-      const diffFromToday = Math.floor((currentDateForStreaks.getTime() - sortedDates[i].getTime()) / (1000 * 60 * 60 * 24))
-      if (diffFromToday <= 1 && i === sortedDates.length - 1) {
-        currentStreak = tempStreak
+// Batched variant of updateGridSquare for imports and range edits: every entry
+// is written in one statement inside one transaction, so a batch lands
+// completely or not at all. Notes, tags and category of existing days are
+// left untouched.
+// With `overwrite: false` days that already have an entry are skipped.
+// Entries with expectedUpdatedAt are checked like in updateGridSquare; if any
+// day changed, nothing is written.
+// Returns the days written, as saved.
+export async function updateGridSquares(userId: string, entries: GridEntry[], overwrite: boolean): Promise<UserGrid[]> {
+  const client = await pool.connect()
+  try {
+    await client.query('BEGIN')
+
+    const checked = entries.filter(entry => entry.expectedUpdatedAt !== undefined)
+    if (checked.length > 0) {
+      // Lock the rows so nothing changes them between the check and the write
+      const current = await client.query(
+        'SELECT date, updated_at FROM user_grids WHERE user_id = $1 AND date = ANY($2::date[]) FOR UPDATE',
+        [userId, checked.map(entry => entry.date)]
+      )
+      const currentUpdatedAt = new Map<string, number>(
+        current.rows.map((row: { date: string; updated_at: Date }) => [row.date, new Date(row.updated_at).getTime()])
+      )
+      // Compare instants at millisecond precision, which is all JSON carries
+      const conflicts = checked.filter(entry => {
+        const updatedAt = currentUpdatedAt.get(entry.date)
+        return updatedAt !== undefined &&
+          (entry.expectedUpdatedAt === null || updatedAt !== new Date(entry.expectedUpdatedAt!).getTime())
+      })
+      if (conflicts.length > 0) {
+        const squares = await client.query(
+          `${GRID_SELECT}
+           WHERE g.user_id = $1 AND g.date = ANY($2::date[])
+           GROUP BY g.id
+           ORDER BY g.date`,
+          [userId, conflicts.map(entry => entry.date)]
+        )
+        throw new GridBatchConflictError(squares.rows.map(mapUserGrid))
       }
     }
-    
-    // Don't forget the last streak
-    if (sortedDates.length > 0) {
-      longestStreak = Math.max(longestStreak, tempStreak)
-      streaks.push(tempStreak)
-    }
-    
-    // Calculate average sick streak
-    const averageSickStreak = streaks.length > 0 
-      ? streaks.reduce((sum, streak) => sum + streak, 0) / streaks.length 
-      : 0
-    
-    // Calculate recovery rate (average days between sick periods)
-    const recoveryRate = recoveryPeriods.length > 0
-      ? recoveryPeriods.reduce((sum, period) => sum + period, 0) / recoveryPeriods.length
-      : 0
-
-    // Calculate average intensity
-    const totalIntensity = sickDays.reduce((sum, day) => {
-      const intensity = typeof day.intensity === 'string' ? parseInt(day.intensity) : day.intensity
-      return sum + intensity
-    }, 0)
-    const averageIntensity = totalSickDays > 0 ? totalIntensity / totalSickDays : 0
 
-    return {
-      // Overall Stats
-      totalSickDays,
-      percentageOfYear: Math.round(percentageOfYear * 100) / 100,
-      yearToDatePercentage: Math.round(yearToDatePercentage * 100) / 100,
-      averageIntensity: Math.round(averageIntensity * 100) / 100,
-      
-      // Pattern Stats
-      mostCommonDay,
-      recoveryRate: Math.round(recoveryRate * 100) / 100,
-      
-      // Streak Stats
-      currentStreak,
-      longestStreak,
-      averageSickStreak: Math.round(averageSickStreak * 100) / 100
+    const result = await client.query(
+      `INSERT INTO user_grids (user_id, date, intensity, updated_at)
+       SELECT $1, entry.date, entry.intensity, NOW()
+       FROM UNNEST($2::date[], $3::int[]) AS entry(date, intensity)
+       ON CONFLICT (user_id, date)
+       ${overwrite
+         ? `DO UPDATE SET
+         intensity = EXCLUDED.intensity,
+         updated_at = NOW()`
+         : 'DO NOTHING'}
+       RETURNING date`,
+      [userId, entries.map(entry => entry.date), entries.map(entry => entry.intensity)]
+    )
+
+    const written = await client.query(
+      `${GRID_SELECT}
+       WHERE g.user_id = $1 AND g.date = ANY($2::date[])
+       GROUP BY g.id
+       ORDER BY g.date`,
+      [userId, result.rows.map((row: { date: string }) => row.date)]
+    )
+
+    await client.query('COMMIT')
+    return written.rows.map(mapUserGrid)
+  } catch (error) {
+    await client.query('ROLLBACK')
+    if (!(error instanceof GridBatchConflictError)) {
+      console.error('Error importing grid squares:', error)
     }
+    throw error
+  } finally {
+    client.release()
+  }
+}
+
+export async function getCustomTags(userId: string): Promise<string[]> {
+  const client = await pool.connect()
+  try {
+    const result = await client.query(
+      'SELECT name FROM user_tags WHERE user_id = $1 ORDER BY name',
+      [userId]
+    )
+    return result.rows.map((row: { name: string }) => row.name)
   } catch (error) {
-    console.error('Error calculating user stats:', error)
+    console.error('Error fetching custom tags:', error)
     throw error
   } finally {
     client.release()
   }
 }
 
-export async function getUserStatsByDateRange(userId: string, startDate: string, endDate: string): Promise<UserStats> {
+export async function addCustomTag(userId: string, name: string) {
   const client = await pool.connect()
   try {
-    // Get all data for the date range
-    const dateRangeData = await client.query(
-      `SELECT 
-        date,
-        intensity,
-        EXTRACT(DOW FROM date) as day_of_week
-      FROM user_grids 
-      WHERE user_id = $1 
-      AND date BETWEEN $2 AND $3
-      AND intensity > 0
-      ORDER BY date`,
-      [userId, startDate, endDate]
+    await client.query(
+      'INSERT INTO user_tags (user_id, name) VALUES ($1, $2) ON CONFLICT DO NOTHING',
+      [userId, name]
+    )
+  } catch (error) {
+    console.error('Error adding custom tag:', error)
+    throw error
+  } finally {
+    client.release()
+  }
+}
+
+// Removes the tag from the suggestions only; days already tagged keep it
+export async function deleteCustomTag(userId: string, name: string) {
+  const client = await pool.connect()
+  try {
+    await client.query(
+      'DELETE FROM user_tags WHERE user_id = $1 AND name = $2',
+      [userId, name]
     )
+  } catch (error) {
+    console.error('Error deleting custom tag:', error)
+    throw error
+  } finally {
+    client.release()
+  }
+}
+
+// Narrows stats queries to one illness category; a NULL parameter means all sick days
+function categoryFilter(paramIndex: number): string {
+  return `($${paramIndex}::text IS NULL OR COALESCE(category, '${UNCATEGORIZED}') = $${paramIndex}::text)`
+}
+
+export async function getUserStats(userId: string, year: number, category: string | null = null): Promise<UserStats> {
+  return getUserStatsByDateRange(userId, `${year}-01-01`, `${year}-12-31`, category)
+}
 
-    const sickDays: DatabaseStatsRow[] = dateRangeData.rows
-    const totalSickDays = sickDays.length
-    
-    // Calculate percentage of the date range (approximately 365 days for rolling 12 months)
-    const start = new Date(startDate)
-    const end = new Date(endDate)
-    const totalDays = Math.floor((end.getTime() - start.getTime()) / (1000 * 60 * 60 * 24)) + 1
-    const percentageOfYear = (totalSickDays / totalDays) * 100
-
-    // Calculate year-to-date percentage for current year
-    const currentYearForRange = new Date().getFullYear()
-    const yearStartForRange = new Date(currentYearForRange, 0, 1)
-    const currentDateForRangeYTD = new Date()
-    const daysIntoYearForRange = Math.floor((currentDateForRangeYTD.getTime() - yearStartForRange.getTime()) / (1000 * 60 * 60 * 24)) + 1
-    
-    // Get current year sick days from the range
-    const currentYearSickDays = await client.query(
-      `SELECT COUNT(*) as count
+export async function getUserStatsByDateRange(userId: string, startDate: string, endDate: string, category: string | null = null): Promise<UserStats> {
+  const client = await pool.connect()
+  try {
+    // "Today" is the user's calendar date, not the server's
+    const userResult = await client.query('SELECT timezone FROM users WHERE id = $1', [userId])
+    const today = getTodayInTimeZone(userResult.rows[0]?.timezone || DEFAULT_TIMEZONE)
+
+    // Fetch the range plus this year so far, which year-to-date needs
+    const result = await client.query(
+      `SELECT date, intensity
        FROM user_grids 
        WHERE user_id = $1 
-       AND EXTRACT(YEAR FROM date) = $2
+       AND (date BETWEEN $2 AND $3 OR date BETWEEN DATE_TRUNC('year', $4::date) AND $4::date)
        AND intensity > 0
-       AND date <= CURRENT_DATE`,
-      [userId, currentYearForRange]
-    )
-    
-    const yearToDateSickDaysCount = parseInt(currentYearSickDays.rows[0]?.count || '0')
-    const yearToDatePercentage = (yearToDateSickDaysCount / daysIntoYearForRange) * 100
-
-    // Find most common day of week
-    const dayCount: { [key: number]: number } = {}
-    sickDays.forEach(day => {
-      const dow = typeof day.day_of_week === 'string' ? parseInt(day.day_of_week) : day.day_of_week
-      dayCount[dow] = (dayCount[dow] || 0) + 1
-    })
-
-    const dayNames = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
-    let mostCommonDay = 'None'
-    let maxCount = 0
-    Object.entries(dayCount).forEach(([dow, count]) => {
-      if (count > maxCount) {
-        maxCount = count
-        mostCommonDay = dayNames[parseInt(dow)]
-      }
-    })
-
-    // Calculate streaks and advanced stats
-    let currentStreak = 0
-    let longestStreak = 0
-    let tempStreak = 0
-    const streaks: number[] = []
-    const recoveryPeriods: number[] = []
-    
-    const sortedDatesForRange = sickDays.map(d => new Date(d.date)).sort((a, b) => a.getTime() - b.getTime())
-    const currentDateForRangeStreaks = new Date()
-    
-    for (let i = 0; i < sortedDatesForRange.length; i++) {
-      if (i === 0) {
-        tempStreak = 1
-      } else {
-        const prevDate = sortedDatesForRange[i - 1]
-        const currDate = sortedDatesForRange[i]
-        const diffDays = Math.floor((currDate.getTime() - prevDate.getTime()) / (1000 * 60 * 60 * 24))
-        
-        if (diffDays === 1) {
-          tempStreak++
-        } else {
-          // End of a streak
-          longestStreak = Math.max(longestStreak, tempStreak)
-          streaks.push(tempStreak)
-          
-          // Record recovery period (gap between streaks)
-          if (diffDays > 1) {
-            recoveryPeriods.push(diffDays - 1)
-          }
-          
-          tempStreak = 1
-        }
-      }
-      
-      // Check if this is part of current streak (ending today or yesterday)
-      const diffFromToday = Math.floor((currentDateForRangeStreaks.getTime() - sortedDatesForRange[i].getTime()) / (1000 * 60 * 60 * 24))
-      if (diffFromToday <= 1 && i === sortedDatesForRange.length - 1) {
-        currentStreak = tempStreak
-      }
-    }
-    
-    // Don't forget the last streak
-    if (sortedDatesForRange.length > 0) {
-      longestStreak = Math.max(longestStreak, tempStreak)
-      streaks.push(tempStreak)
-    }
-    
-    // Calculate average sick streak
-    const averageSickStreak = streaks.length > 0 
-      ? streaks.reduce((sum, streak) => sum + streak, 0) / streaks.length 
-      : 0
-    
-    // Calculate recovery rate (average days between sick periods)
-    const recoveryRate = recoveryPeriods.length > 0
-      ? recoveryPeriods.reduce((sum, period) => sum + period, 0) / recoveryPeriods.length
-      : 0
-
-    // Calculate average intensity
-    const totalIntensity = sickDays.reduce((sum, day) => {
-      const intensity = typeof day.intensity === 'string' ? parseInt(day.intensity) : day.intensity
-      return sum + intensity
-    }, 0)
-    const averageIntensity = totalSickDays > 0 ? totalIntensity / totalSickDays : 0
+       AND ${categoryFilter(5)}
+       ORDER BY date`,
+      [userId, startDate, endDate, today, category]
+    )
 
-    return {
-      // Overall Stats
-      totalSickDays,
-      percentageOfYear: Math.round(percentageOfYear * 100) / 100,
-      yearToDatePercentage: Math.round(yearToDatePercentage * 100) / 100,
-      averageIntensity: Math.round(averageIntensity * 100) / 100,
-      
-      // Pattern Stats
-      mostCommonDay,
-      recoveryRate: Math.round(recoveryRate * 100) / 100,
-      
-      // Streak Stats
-      currentStreak,
-      longestStreak,
-      averageSickStreak: Math.round(averageSickStreak * 100) / 100
-    }
+    const days = result.rows.map((row: DatabaseStatsRow) => ({
+      date: row.date,
+      intensity: typeof row.intensity === 'string' ? parseInt(row.intensity) : row.intensity
+    }))
+
+    return computeStats(days, { startDate, endDate }, today)
   } catch (error) {
     console.error('Error calculating user stats by date range:', error)
     throw error
@@ -480,47 +487,235 @@ export async function getUserStatsByDateRange(userId: string, startDate: string,
   }
 }
 
-export async function ensureUser(user: { id: string; email?: string; name?: string; image?: string }) {
+export async function getMonthlyStatsByDateRange(userId: string, startDate: string, endDate: string, category: string | null = null): Promise<MonthlyStats[]> {
   const client = await pool.connect()
   try {
-    // Generate username from email if not exists
-    let username = null
-    if (user.email) {
-      username = user.email.split('@')[0].toLowerCase().replace(/[^a-z0-9-]/g, '-')
+    const result = await client.query(
+      `SELECT date, intensity
+       FROM user_grids
+       WHERE user_id = $1
+       AND date BETWEEN $2 AND $3
+       AND intensity > 0
+       AND ${categoryFilter(4)}
+       ORDER BY date`,
+      [userId, startDate, endDate, category]
+    )
+
+    const days = result.rows.map((row: DatabaseStatsRow) => ({
+      date: row.date,
+      intensity: typeof row.intensity === 'string' ? parseInt(row.intensity) : row.intensity
+    }))
+
+    return computeMonthlyBreakdown(days, { startDate, endDate })
+  } catch (error) {
+    console.error('Error calculating monthly stats:', error)
+    throw error
+  } finally {
+    client.release()
+  }
+}
+
+export interface CategoryStats {
+  category: string // an ILLNESS_CATEGORIES id or UNCATEGORIZED
+  totalSickDays: number
+  longestStreak: number
+  averageIntensity: number
+  mostCommonDay: string
+}
+
+function toCategoryStats(category: string, stats: UserStats): CategoryStats {
+  return {
+    category,
+    totalSickDays: stats.totalSickDays,
+    longestStreak: stats.longestStreak,
+    averageIntensity: stats.averageIntensity,
+    mostCommonDay: stats.mostCommonDay
+  }
+}
+
+// Per-category breakdown; each category runs through the same streak logic as the totals
+export async function getCategoryStats(userId: string, year: number): Promise<CategoryStats[]> {
+  return getCategoryStatsByDateRange(userId, `${year}-01-01`, `${year}-12-31`)
+}
+
+export async function getCategoryStatsByDateRange(userId: string, startDate: string, endDate: string): Promise<CategoryStats[]> {
+  const client = await pool.connect()
+  try {
+    const userResult = await client.query('SELECT timezone FROM users WHERE id = $1', [userId])
+    const today = getTodayInTimeZone(userResult.rows[0]?.timezone || DEFAULT_TIMEZONE)
+
+    // One read for every category, split up here
+    const result = await client.query(
+      `SELECT date, intensity, COALESCE(category, '${UNCATEGORIZED}') AS category
+       FROM user_grids
+       WHERE user_id = $1
+       AND date BETWEEN $2 AND $3
+       AND intensity > 0
+       ORDER BY date`,
+      [userId, startDate, endDate]
+    )
+
+    const daysByCategory = new Map<string, StatsDay[]>()
+    for (const row of result.rows as (DatabaseStatsRow & { category: string })[]) {
+      const days = daysByCategory.get(row.category) ?? []
+      days.push({
+        date: row.date,
+        intensity: typeof row.intensity === 'string' ? parseInt(row.intensity) : row.intensity
+      })
+      daysByCategory.set(row.category, days)
     }
 
+    return Array.from(daysByCategory.keys())
+      .sort()
+      .map(category => toCategoryStats(category, computeStats(daysByCategory.get(category)!, { startDate, endDate }, today)))
+  } catch (error) {
+    console.error('Error calculating category stats:', error)
+    throw error
+  } finally {
+    client.release()
+  }
+}
+
+// Every day the user has logged as sick, oldest first
+export async function getUserSickDays(userId: string): Promise<StatsDay[]> {
+  const client = await pool.connect()
+  try {
+    const result = await client.query(
+      `SELECT date, intensity
+       FROM user_grids
+       WHERE user_id = $1 AND intensity > 0
+       ORDER BY date`,
+      [userId]
+    )
+
+    return result.rows.map((row: DatabaseStatsRow) => ({
+      date: row.date,
+      intensity: typeof row.intensity === 'string' ? parseInt(row.intensity) : row.intensity
+    }))
+  } catch (error) {
+    console.error('Error fetching sick days:', error)
+    throw error
+  } finally {
+    client.release()
+  }
+}
+
+// Every sick streak the user has logged, oldest first
+export async function getUserSickPeriods(userId: string): Promise<SickPeriod[]> {
+  const days = await getUserSickDays(userId)
+
+  if (days.length === 0) {
+    return []
+  }
+
+  return findSickPeriods(days, { startDate: days[0].date, endDate: days[days.length - 1].date })
+}
+
+export async function ensureUser(user: { id: string; email?: string; name?: string; image?: string; login?: string }): Promise<User> {
+  const client = await pool.connect()
+  try {
     // First, try to find existing user by email
     if (user.email) {
       const existingUser = await client.query(
-        'SELECT id FROM users WHERE email = $1',
+        'SELECT id, username, is_public, share_activity, theme, intensity_levels, intensity_labels, calendar_token FROM users WHERE email = $1',
         [user.email]
       )
       
       if (existingUser.rows.length > 0) {
-        const existingId = existingUser.rows[0].id
+        const {
+          id: existingId,
+          username: existingUsername,
+          is_public: existingIsPublic,
+          share_activity: existingShareActivity,
+          theme: existingTheme,
+          intensity_levels: existingIntensityLevels,
+          intensity_labels: existingIntensityLabels,
+          calendar_token: existingCalendarToken
+        } = existingUser.rows[0]
         
         // If the existing user has a different ID, we need to migrate data
         if (existingId !== user.id) {
           await client.query('BEGIN')
           
           try {
-            // First, create the new user record
+            // First, create the new user record. The username and calendar token
+            // are carried over once the old record is gone so the UNIQUE
+            // constraints hold.
             await client.query(
-              `INSERT INTO users (id, email, name, image, username, is_public, created_at, updated_at)
-               VALUES ($1, $2, $3, $4, $5, FALSE, NOW(), NOW())
+              `INSERT INTO users (id, email, name, image, username, is_public, theme, intensity_levels, intensity_labels, share_activity, created_at, updated_at)
+               VALUES ($1, $2, $3, $4, NULL, $5, $6, $7, $8, $9, NOW(), NOW())
                ON CONFLICT (id) DO NOTHING`,
-              [user.id, null, user.name || null, user.image || null, username]
+              [
+                user.id,
+                null,
+                user.name || null,
+                user.image || null,
+                existingIsPublic ?? false,
+                existingTheme ?? null,
+                // The copied days are on this scale, so it has to come along
+                existingIntensityLevels ?? 5,
+                existingIntensityLabels ? JSON.stringify(existingIntensityLabels) : null,
+                existingShareActivity ?? false
+              ]
             )
             
             // Copy all grid data to the new user ID
             await client.query(
-              `INSERT INTO user_grids (user_id, date, intensity, created_at, updated_at)
-               SELECT $1, date, intensity, created_at, updated_at 
+              `INSERT INTO user_grids (user_id, date, intensity, notes, category, created_at, updated_at)
+               SELECT $1, date, intensity, notes, category, created_at, updated_at 
                FROM user_grids 
                WHERE user_id = $2
                ON CONFLICT (user_id, date) DO NOTHING`,
               [user.id, existingId]
             )
+
+            // Tags go along with the days and the custom tag list
+            await client.query(
+              `INSERT INTO user_grid_tags (user_id, date, tag)
+               SELECT $1, date, tag FROM user_grid_tags WHERE user_id = $2
+               ON CONFLICT DO NOTHING`,
+              [user.id, existingId]
+            )
+            await client.query(
+              `INSERT INTO user_tags (user_id, name, created_at)
+               SELECT $1, name, created_at FROM user_tags WHERE user_id = $2
+               ON CONFLICT DO NOTHING`,
+              [user.id, existingId]
+            )
+            
+            // Team memberships and pending invites move to the new ID too
+            await client.query(
+              `INSERT INTO team_members (team_id, user_id, role, share_mode, created_at)
+               SELECT team_id, $1, role, share_mode, created_at FROM team_members WHERE user_id = $2
+               ON CONFLICT DO NOTHING`,
+              [user.id, existingId]
+            )
+            await client.query(
+              `UPDATE team_invites SET user_id = $1
+               WHERE user_id = $2
+               AND NOT EXISTS (SELECT 1 FROM team_invites other WHERE other.team_id = team_invites.team_id AND other.user_id = $1)`,
+              [user.id, existingId]
+            )
+            await client.query(
+              'UPDATE team_invites SET invited_by = $1 WHERE invited_by = $2',
+              [user.id, existingId]
+            )
+
+            // Follows in both directions
+            await client.query(
+              `INSERT INTO follows (follower_id, followee_id, created_at)
+               SELECT $1, followee_id, created_at FROM follows WHERE follower_id = $2 AND followee_id <> $1
+               UNION ALL
+               SELECT follower_id, $1, created_at FROM follows WHERE followee_id = $2 AND follower_id <> $1
+               ON CONFLICT DO NOTHING`,
+              [user.id, existingId]
+            )
+            
+            // Share links keep working after the move
+            await client.query(
+              'UPDATE share_links SET user_id = $1 WHERE user_id = $2',
+              [user.id, existingId]
+            )
             
             // Delete old grid data
             await client.query(
@@ -541,13 +736,13 @@ export async function ensureUser(user: { id: string; email?: string; name?: stri
                  name = COALESCE($3, users.name),
                  image = COALESCE($4, users.image),
                  username = COALESCE(users.username, $5),
+                 calendar_token = COALESCE(users.calendar_token, $6),
                  updated_at = NOW()
                WHERE id = $1`,
-              [user.id, user.email, user.name || null, user.image || null, username]
+              [user.id, user.email, user.name || null, user.image || null, existingUsername || null, existingCalendarToken || null]
             )
             
             await client.query('COMMIT')
-            return
           } catch (error) {
             await client.query('ROLLBACK')
             throw error
@@ -558,29 +753,30 @@ export async function ensureUser(user: { id: string; email?: string; name?: stri
             `UPDATE users SET 
                name = COALESCE($2, users.name),
                image = COALESCE($3, users.image),
-               username = COALESCE(users.username, $4),
                updated_at = NOW()
              WHERE id = $1`,
-            [user.id, user.name || null, user.image || null, username]
+            [user.id, user.name || null, user.image || null]
           )
-          return
         }
+
+        return await assignMissingUsername(client, user.id, user.email, user.login)
       }
     }
 
     // If no existing user, insert normally
     await client.query(
-      `INSERT INTO users (id, email, name, image, username)
-       VALUES ($1, $2, $3, $4, $5)
+      `INSERT INTO users (id, email, name, image)
+       VALUES ($1, $2, $3, $4)
        ON CONFLICT (id) 
        DO UPDATE SET 
          email = COALESCE($2, users.email),
          name = COALESCE($3, users.name),
          image = COALESCE($4, users.image),
-         username = COALESCE(users.username, $5),
          updated_at = NOW()`,
-      [user.id, user.email || null, user.name || null, user.image || null, username]
+      [user.id, user.email || null, user.name || null, user.image || null]
     )
+
+    return await assignMissingUsername(client, user.id, user.email, user.login)
   } catch (error) {
     console.error('Error ensuring user exists:', error)
     throw error
@@ -589,11 +785,95 @@ export async function ensureUser(user: { id: string; email?: string; name?: stri
   }
 }
 
-export async function getUserByUsername(username: string) {
+// Gives a user without a username the first free one derived from their email or
+// GitHub login. username_adjusted records that they did not get the handle their
+// email implies, so the UI can tell them.
+async function assignMissingUsername(client: PoolClient, userId: string, email?: string | null, login?: string | null): Promise<User> {
+  // A concurrent sign-up can take the name between the lookup and the UPDATE
+  for (let attempt = 0; attempt < 3; attempt++) {
+    const current = await client.query(
+      `SELECT ${USER_COLUMNS} FROM users WHERE id = $1`,
+      [userId]
+    )
+    if (current.rows[0].username) {
+      return current.rows[0]
+    }
+
+    const username = await findAvailableUsername(client, email, login)
+    const expected = email ? toUsernameBase(email.split('@')[0]) : username
+
+    try {
+      const result = await client.query(
+        `UPDATE users SET username = $2, username_adjusted = $3, updated_at = NOW()
+         WHERE id = $1 AND username IS NULL
+         RETURNING ${USER_COLUMNS}`,
+        [userId, username, username !== expected]
+      )
+      if (result.rows.length > 0) {
+        return result.rows[0]
+      }
+    } catch (error) {
+      if (!isUniqueViolation(error)) {
+        throw error
+      }
+    }
+  }
+
+  throw new Error(`Could not assign a username to user ${userId}`)
+}
+
+// Candidates are tried in order: email local-part, GitHub login, then the
+// first of those with the lowest free numeric suffix (alex-2, alex-3, ...)
+async function findAvailableUsername(client: PoolClient, email?: string | null, login?: string | null): Promise<string> {
+  const bases = [email?.split('@')[0], login]
+    .filter((raw): raw is string => !!raw)
+    .map(toUsernameBase)
+    .filter(base => base.length > 0)
+
+  for (const candidate of bases) {
+    if (validateUsername(candidate)) continue
+    const taken = await client.query('SELECT 1 FROM users WHERE username = $1', [candidate])
+    if (taken.rows.length === 0) {
+      return candidate
+    }
+  }
+
+  const suffixBase = bases[0] || 'user'
+  const similar = await client.query(
+    `SELECT username FROM users WHERE username LIKE $1`,
+    [`${suffixBase.slice(0, USERNAME_MAX_LENGTH - 6)}%-%`]
+  )
+  const takenNames = new Set<string>(similar.rows.map((row: { username: string }) => row.username))
+
+  for (let suffix = 2; ; suffix++) {
+    const candidate = withUsernameSuffix(suffixBase, suffix)
+    if (!takenNames.has(candidate) && !validateUsername(candidate)) {
+      return candidate
+    }
+  }
+}
+
+export async function getUserById(userId: string): Promise<User | null> {
+  const client = await pool.connect()
+  try {
+    const result = await client.query(
+      `SELECT ${USER_COLUMNS} FROM users WHERE id = $1`,
+      [userId]
+    )
+    return result.rows[0] || null
+  } catch (error) {
+    console.error('Error fetching user by id:', error)
+    throw error
+  } finally {
+    client.release()
+  }
+}
+
+export async function getUserByUsername(username: string): Promise<User | null> {
   const client = await pool.connect()
   try {
     const result = await client.query(
-      'SELECT id, email, name, image, username, is_public FROM users WHERE username = $1',
+      `SELECT ${USER_COLUMNS} FROM users WHERE username = $1`,
       [username]
     )
     return result.rows[0] || null
@@ -620,17 +900,839 @@ export async function updateUserPrivacy(userId: string, isPublic: boolean) {
   }
 }
 
-export async function updateUsername(userId: string, newUsername: string) {
+export async function updateUserTimezone(userId: string, timezone: string) {
+  const client = await pool.connect()
+  try {
+    await client.query(
+      'UPDATE users SET timezone = $1, updated_at = NOW() WHERE id = $2',
+      [timezone, userId]
+    )
+  } catch (error) {
+    console.error('Error updating user timezone:', error)
+    throw error
+  } finally {
+    client.release()
+  }
+}
+
+export async function updateUserShareActivity(userId: string, shareActivity: boolean) {
+  const client = await pool.connect()
+  try {
+    await client.query(
+      'UPDATE users SET share_activity = $1, updated_at = NOW() WHERE id = $2',
+      [shareActivity, userId]
+    )
+  } catch (error) {
+    console.error('Error updating activity sharing:', error)
+    throw error
+  } finally {
+    client.release()
+  }
+}
+
+export async function updateUserTheme(userId: string, theme: string) {
+  const client = await pool.connect()
+  try {
+    await client.query(
+      'UPDATE users SET theme = $1, updated_at = NOW() WHERE id = $2',
+      [theme, userId]
+    )
+  } catch (error) {
+    console.error('Error updating user theme:', error)
+    throw error
+  } finally {
+    client.release()
+  }
+}
+
+// Switching between 3 and 5 levels converts every logged day to the new scale
+// in the same transaction, so no day is ever outside the user's scale.
+// Converted days get a new updated_at, which makes stale offline edits conflict.
+export async function updateUserIntensityScale(userId: string, levels: ScaleSize, labels: string[] | null) {
+  const client = await pool.connect()
+  try {
+    await client.query('BEGIN')
+
+    const current = await client.query(
+      'SELECT intensity_levels FROM users WHERE id = $1 FOR UPDATE',
+      [userId]
+    )
+    const previousLevels = current.rows[0]?.intensity_levels
+    if (isScaleSize(previousLevels) && previousLevels !== levels) {
+      // Lookup table from old to new intensity; SQL arrays are 1-based
+      const mapping = Array.from({ length: previousLevels }, (_, intensity) => rescaleIntensity(intensity, previousLevels, levels))
+      await client.query(
+        `UPDATE user_grids
+         SET intensity = ($2::int[])[intensity + 1], updated_at = NOW()
+         WHERE user_id = $1 AND intensity <> ($2::int[])[intensity + 1]`,
+        [userId, mapping]
+      )
+    }
+
+    // The default wording is stored as NULL, so later changes to the defaults
+    // reach everyone who never renamed a level
+    const customLabels = labels && labels.some((label, index) => label !== DEFAULT_LABELS[levels][index]) ? labels : null
+    await client.query(
+      'UPDATE users SET intensity_levels = $1, intensity_labels = $2, updated_at = NOW() WHERE id = $3',
+      [levels, customLabels ? JSON.stringify(customLabels) : null, userId]
+    )
+
+    await client.query('COMMIT')
+  } catch (error) {
+    await client.query('ROLLBACK')
+    console.error('Error updating intensity scale:', error)
+    throw error
+  } finally {
+    client.release()
+  }
+}
+
+export async function dismissUsernameNotice(userId: string) {
+  const client = await pool.connect()
+  try {
+    await client.query(
+      'UPDATE users SET username_adjusted = FALSE, updated_at = NOW() WHERE id = $1',
+      [userId]
+    )
+  } catch (error) {
+    console.error('Error dismissing username notice:', error)
+    throw error
+  } finally {
+    client.release()
+  }
+}
+
+// Returns false when another user already holds the username
+export async function updateUsername(userId: string, newUsername: string): Promise<boolean> {
   const client = await pool.connect()
   try {
     await client.query(
-      'UPDATE users SET username = $1, updated_at = NOW() WHERE id = $2',
+      'UPDATE users SET username = $1, username_adjusted = FALSE, updated_at = NOW() WHERE id = $2',
       [newUsername, userId]
     )
+    return true
   } catch (error) {
+    if (isUniqueViolation(error)) {
+      return false
+    }
     console.error('Error updating username:', error)
     throw error
   } finally {
     client.release()
   }
-}
\ No newline at end of file
+}
+
+export async function getCalendarToken(userId: string): Promise<string | null> {
+  const client = await pool.connect()
+  try {
+    const result = await client.query(
+      'SELECT calendar_token FROM users WHERE id = $1',
+      [userId]
+    )
+    return result.rows[0]?.calendar_token ?? null
+  } catch (error) {
+    console.error('Error fetching calendar token:', error)
+    throw error
+  } finally {
+    client.release()
+  }
+}
+
+// Stores a new token (or clears it with null), invalidating the previous feed URL
+export async function setCalendarToken(userId: string, token: string | null) {
+  const client = await pool.connect()
+  try {
+    await client.query(
+      'UPDATE users SET calendar_token = $1, updated_at = NOW() WHERE id = $2',
+      [token, userId]
+    )
+  } catch (error) {
+    console.error('Error updating calendar token:', error)
+    throw error
+  } finally {
+    client.release()
+  }
+}
+
+export async function getUserByCalendarToken(token: string): Promise<User | null> {
+  const client = await pool.connect()
+  try {
+    const result = await client.query(
+      `SELECT ${USER_COLUMNS} FROM users WHERE calendar_token = $1`,
+      [token]
+    )
+    return result.rows[0] || null
+  } catch (error) {
+    console.error('Error fetching user by calendar token:', error)
+    throw error
+  } finally {
+    client.release()
+  }
+}
+
+// A team as one of its members sees it
+export interface TeamSummary {
+  id: number
+  name: string
+  role: TeamRole // the viewer's role
+  share_mode: ShareMode // what the viewer shares with this team
+  member_count: number
+  created_at: Date
+}
+
+export interface TeamMember {
+  user_id: string // internal; never sent to other members
+  username: string | null
+  name: string | null
+  image: string | null
+  role: TeamRole
+  share_mode: ShareMode
+  created_at: Date
+}
+
+// What other members get to see. Whether someone shares nothing or shares
+// anonymized counts stays private; only a fully shared grid is announced.
+export interface PublicTeamMember {
+  username: string | null
+  name: string | null
+  image: string | null
+  role: TeamRole
+  shares_grid: boolean
+}
+
+export function toPublicTeamMember(member: TeamMember): PublicTeamMember {
+  return {
+    username: member.username,
+    name: member.name,
+    image: member.image,
+    role: member.role,
+    shares_grid: canViewTeamMemberGrid(member),
+  }
+}
+
+export interface TeamInvite {
+  id: number
+  team_id: number
+  team_name: string
+  username: string | null // set when invited by username
+  email: string | null // set when invited by email address, even one with an account
+  role: TeamRole
+  invited_by: string | null // username of whoever sent it
+  created_at: Date
+}
+
+export interface TeamDay {
+  date: string // YYYY-MM-DD
+  membersOut: number
+  intensity: number // see toTeamIntensity
+}
+
+export interface TeamGrid {
+  sharingMembers: number // members counted in the grid (anonymized or full)
+  days: TeamDay[] // days with at least one member out, oldest first
+  stats: UserStats
+}
+
+const TEAM_SUMMARY_SELECT = `
+  SELECT t.id, t.name, m.role, m.share_mode, t.created_at,
+    (SELECT COUNT(*)::int FROM team_members c WHERE c.team_id = t.id) AS member_count
+  FROM teams t
+  JOIN team_members m ON m.team_id = t.id`
+
+const TEAM_INVITE_SELECT = `
+  SELECT i.id, i.team_id, t.name AS team_name, invitee.username, i.email, i.role,
+    inviter.username AS invited_by, i.created_at
+  FROM team_invites i
+  JOIN teams t ON t.id = i.team_id
+  LEFT JOIN users invitee ON invitee.id = i.user_id
+  LEFT JOIN users inviter ON inviter.id = i.invited_by`
+
+// The creator becomes the first owner, sharing nothing until they choose to
+export async function createTeam(userId: string, name: string): Promise<TeamSummary> {
+  const client = await pool.connect()
+  try {
+    await client.query('BEGIN')
+
+    const team = await client.query(
+      'INSERT INTO teams (name) VALUES ($1) RETURNING id',
+      [name]
+    )
+    const teamId = team.rows[0].id
+    await client.query(
+      `INSERT INTO team_members (team_id, user_id, role) VALUES ($1, $2, 'owner')`,
+      [teamId, userId]
+    )
+
+    const result = await client.query(
+      `${TEAM_SUMMARY_SELECT}
+       WHERE t.id = $1 AND m.user_id = $2`,
+      [teamId, userId]
+    )
+
+    await client.query('COMMIT')
+    return result.rows[0]
+  } catch (error) {
+    await client.query('ROLLBACK')
+    console.error('Error creating team:', error)
+    throw error
+  } finally {
+    client.release()
+  }
+}
+
+export async function getUserTeams(userId: string): Promise<TeamSummary[]> {
+  const client = await pool.connect()
+  try {
+    const result = await client.query(
+      `${TEAM_SUMMARY_SELECT}
+       WHERE m.user_id = $1
+       ORDER BY t.name, t.id`,
+      [userId]
+    )
+    return result.rows
+  } catch (error) {
+    console.error('Error fetching user teams:', error)
+    throw error
+  } finally {
+    client.release()
+  }
+}
+
+// Null when the team does not exist or the user is not in it
+export async function getTeamForMember(teamId: number, userId: string): Promise<TeamSummary | null> {
+  const client = await pool.connect()
+  try {
+    const result = await client.query(
+      `${TEAM_SUMMARY_SELECT}
+       WHERE t.id = $1 AND m.user_id = $2`,
+      [teamId, userId]
+    )
+    return result.rows[0] || null
+  } catch (error) {
+    console.error('Error fetching team:', error)
+    throw error
+  } finally {
+    client.release()
+  }
+}
+
+export async function renameTeam(teamId: number, name: string) {
+  const client = await pool.connect()
+  try {
+    await client.query(
+      'UPDATE teams SET name = $1, updated_at = NOW() WHERE id = $2',
+      [name, teamId]
+    )
+  } catch (error) {
+    console.error('Error renaming team:', error)
+    throw error
+  } finally {
+    client.release()
+  }
+}
+
+// Memberships and invites go with it
+export async function deleteTeam(teamId: number) {
+  const client = await pool.connect()
+  try {
+    await client.query('DELETE FROM teams WHERE id = $1', [teamId])
+  } catch (error) {
+    console.error('Error deleting team:', error)
+    throw error
+  } finally {
+    client.release()
+  }
+}
+
+// Owners first, then admins, then members, each alphabetically
+export async function getTeamMembers(teamId: number): Promise<TeamMember[]> {
+  const client = await pool.connect()
+  try {
+    const result = await client.query(
+      `SELECT m.user_id, u.username, u.name, u.image, m.role, m.share_mode, m.created_at
+       FROM team_members m
+       JOIN users u ON u.id = m.user_id
+       WHERE m.team_id = $1
+       ORDER BY CASE m.role WHEN 'owner' THEN 0 WHEN 'admin' THEN 1 ELSE 2 END, COALESCE(u.name, u.username)`,
+      [teamId]
+    )
+    return result.rows
+  } catch (error) {
+    console.error('Error fetching team members:', error)
+    throw error
+  } finally {
+    client.release()
+  }
+}
+
+// An owner can only be demoted or removed while another owner remains, so a
+// team is never left without one
+async function keepsAnOwner(client: PoolClient, teamId: number, userId: string): Promise<boolean> {
+  const owners = await client.query(
+    `SELECT user_id FROM team_members WHERE team_id = $1 AND role = 'owner' FOR UPDATE`,
+    [teamId]
+  )
+  const ownerIds = owners.rows.map((row: { user_id: string }) => row.user_id)
+  return !ownerIds.includes(userId) || ownerIds.length > 1
+}
+
+// Returns false when this would demote the last owner
+export async function updateTeamMemberRole(teamId: number, userId: string, role: TeamRole): Promise<boolean> {
+  const client = await pool.connect()
+  try {
+    await client.query('BEGIN')
+
+    if (role !== 'owner' && !(await keepsAnOwner(client, teamId, userId))) {
+      await client.query('ROLLBACK')
+      return false
+    }
+
+    await client.query(
+      'UPDATE team_members SET role = $1 WHERE team_id = $2 AND user_id = $3',
+      [role, teamId, userId]
+    )
+
+    await client.query('COMMIT')
+    return true
+  } catch (error) {
+    await client.query('ROLLBACK')
+    console.error('Error updating team member role:', error)
+    throw error
+  } finally {
+    client.release()
+  }
+}
+
+// Returns false when this would remove the last owner
+export async function removeTeamMember(teamId: number, userId: string): Promise<boolean> {
+  const client = await pool.connect()
+  try {
+    await client.query('BEGIN')
+
+    if (!(await keepsAnOwner(client, teamId, userId))) {
+      await client.query('ROLLBACK')
+      return false
+    }
+
+    await client.query(
+      'DELETE FROM team_members WHERE team_id = $1 AND user_id = $2',
+      [teamId, userId]
+    )
+
+    await client.query('COMMIT')
+    return true
+  } catch (error) {
+    await client.query('ROLLBACK')
+    console.error('Error removing team member:', error)
+    throw error
+  } finally {
+    client.release()
+  }
+}
+
+export async function updateTeamShareMode(teamId: number, userId: string, shareMode: ShareMode) {
+  const client = await pool.connect()
+  try {
+    await client.query(
+      'UPDATE team_members SET share_mode = $1 WHERE team_id = $2 AND user_id = $3',
+      [shareMode, teamId, userId]
+    )
+  } catch (error) {
+    console.error('Error updating team share mode:', error)
+    throw error
+  } finally {
+    client.release()
+  }
+}
+
+// Invites people by account or by email address. An address stays as typed
+// even when it belongs to an account, so the inviter never learns whose it is;
+// it is matched to the account when they sign in and accept. Returns null when
+// they are already in the team or invited.
+export async function createTeamInvite(
+  teamId: number,
+  invitedBy: string,
+  invitee: { userId: string } | { email: string },
+  role: TeamRole
+): Promise<TeamInvite | null> {
+  const client = await pool.connect()
+  try {
+    const userId = 'userId' in invitee ? invitee.userId : null
+    const email = 'email' in invitee ? invitee.email.toLowerCase() : null
+
+    const result = await client.query(
+      `INSERT INTO team_invites (team_id, user_id, email, role, invited_by)
+       SELECT $1, $2, $3, $4, $5
+       WHERE NOT EXISTS (SELECT 1 FROM team_members WHERE team_id = $1 AND user_id = $2)
+       ON CONFLICT DO NOTHING
+       RETURNING id`,
+      [teamId, userId, email, role, invitedBy]
+    )
+    if (result.rows.length === 0) {
+      return null
+    }
+
+    const invite = await client.query(
+      `${TEAM_INVITE_SELECT}
+       WHERE i.id = $1`,
+      [result.rows[0].id]
+    )
+    return invite.rows[0]
+  } catch (error) {
+    console.error('Error creating team invite:', error)
+    throw error
+  } finally {
+    client.release()
+  }
+}
+
+export async function getTeamInvites(teamId: number): Promise<TeamInvite[]> {
+  const client = await pool.connect()
+  try {
+    const result = await client.query(
+      `${TEAM_INVITE_SELECT}
+       WHERE i.team_id = $1
+       ORDER BY i.created_at`,
+      [teamId]
+    )
+    return result.rows
+  } catch (error) {
+    console.error('Error fetching team invites:', error)
+    throw error
+  } finally {
+    client.release()
+  }
+}
+
+// Invites waiting for this user, whether sent to their account or their email
+export async function getPendingTeamInvites(userId: string, email: string | null): Promise<TeamInvite[]> {
+  const client = await pool.connect()
+  try {
+    const result = await client.query(
+      `${TEAM_INVITE_SELECT}
+       WHERE i.user_id = $1 OR (i.user_id IS NULL AND i.email = LOWER($2))
+       ORDER BY i.created_at`,
+      [userId, email]
+    )
+    return result.rows
+  } catch (error) {
+    console.error('Error fetching pending team invites:', error)
+    throw error
+  } finally {
+    client.release()
+  }
+}
+
+export async function getTeamInvite(inviteId: number): Promise<TeamInvite | null> {
+  const client = await pool.connect()
+  try {
+    const result = await client.query(
+      `${TEAM_INVITE_SELECT}
+       WHERE i.id = $1`,
+      [inviteId]
+    )
+    return result.rows[0] || null
+  } catch (error) {
+    console.error('Error fetching team invite:', error)
+    throw error
+  } finally {
+    client.release()
+  }
+}
+
+// Joins the team with the invited role. Returns the team id, or null when the
+// invite is gone or meant for someone else.
+export async function acceptTeamInvite(inviteId: number, userId: string, email: string | null): Promise<number | null> {
+  const client = await pool.connect()
+  try {
+    await client.query('BEGIN')
+
+    const invite = await client.query(
+      `SELECT team_id, role FROM team_invites
+       WHERE id = $1 AND (user_id = $2 OR (user_id IS NULL AND email = LOWER($3)))
+       FOR UPDATE`,
+      [inviteId, userId, email]
+    )
+    if (invite.rows.length === 0) {
+      await client.query('ROLLBACK')
+      return null
+    }
+
+    const { team_id: teamId, role } = invite.rows[0]
+    await client.query(
+      `INSERT INTO team_members (team_id, user_id, role) VALUES ($1, $2, $3)
+       ON CONFLICT DO NOTHING`,
+      [teamId, userId, role]
+    )
+    // Both the account and the email invite are used up
+    await client.query(
+      `DELETE FROM team_invites
+       WHERE team_id = $1 AND (user_id = $2 OR (user_id IS NULL AND email = LOWER($3)))`,
+      [teamId, userId, email]
+    )
+
+    await client.query('COMMIT')
+    return teamId
+  } catch (error) {
+    await client.query('ROLLBACK')
+    console.error('Error accepting team invite:', error)
+    throw error
+  } finally {
+    client.release()
+  }
+}
+
+export async function deleteTeamInvite(inviteId: number) {
+  const client = await pool.connect()
+  try {
+    await client.query('DELETE FROM team_invites WHERE id = $1', [inviteId])
+  } catch (error) {
+    console.error('Error deleting team invite:', error)
+    throw error
+  } finally {
+    client.release()
+  }
+}
+
+// How many sharing members were out each day, and the team's stats: a day
+// counts as a team sick day when anyone was out, and runs through the same
+// streak logic as a single user's days. `today` is the viewer's calendar date.
+export async function getTeamGrid(teamId: number, startDate: string, endDate: string, today: string): Promise<TeamGrid> {
+  const client = await pool.connect()
+  try {
+    const members = await client.query(
+      `SELECT COUNT(*)::int AS count FROM team_members WHERE team_id = $1 AND share_mode <> 'none'`,
+      [teamId]
+    )
+    const sharingMembers: number = members.rows[0].count
+
+    // Fetch the range plus this year so far, which year-to-date needs
+    const result = await client.query(
+      `SELECT g.date, COUNT(*)::int AS members_out
+       FROM user_grids g
+       JOIN team_members m ON m.user_id = g.user_id
+       WHERE m.team_id = $1
+       AND m.share_mode <> 'none'
+       AND g.intensity > 0
+       AND (g.date BETWEEN $2 AND $3 OR g.date BETWEEN DATE_TRUNC('year', $4::date) AND $4::date)
+       GROUP BY g.date
+       ORDER BY g.date`,
+      [teamId, startDate, endDate, today]
+    )
+
+    const allDays: TeamDay[] = result.rows.map((row: { date: string; members_out: number }) => ({
+      date: row.date,
+      membersOut: row.members_out,
+      intensity: toTeamIntensity(row.members_out, sharingMembers),
+    }))
+
+    return {
+      sharingMembers,
+      days: allDays.filter(day => day.date >= startDate && day.date <= endDate),
+      stats: computeStats(allDays, { startDate, endDate }, today),
+    }
+  } catch (error) {
+    console.error('Error fetching team grid:', error)
+    throw error
+  } finally {
+    client.release()
+  }
+}
+
+export async function followUser(followerId: string, followeeId: string) {
+  const client = await pool.connect()
+  try {
+    await client.query(
+      'INSERT INTO follows (follower_id, followee_id) VALUES ($1, $2) ON CONFLICT DO NOTHING',
+      [followerId, followeeId]
+    )
+  } catch (error) {
+    console.error('Error following user:', error)
+    throw error
+  } finally {
+    client.release()
+  }
+}
+
+export async function unfollowUser(followerId: string, followeeId: string) {
+  const client = await pool.connect()
+  try {
+    await client.query(
+      'DELETE FROM follows WHERE follower_id = $1 AND followee_id = $2',
+      [followerId, followeeId]
+    )
+  } catch (error) {
+    console.error('Error unfollowing user:', error)
+    throw error
+  } finally {
+    client.release()
+  }
+}
+
+// Everyone the user follows, whether or not their grid is still public;
+// check with src/lib/access.ts before showing anything of theirs
+export async function getFollowedUsers(followerId: string): Promise<User[]> {
+  const client = await pool.connect()
+  try {
+    const result = await client.query(
+      `SELECT ${USER_COLUMNS}
+       FROM follows
+       JOIN users ON users.id = follows.followee_id
+       WHERE follows.follower_id = $1
+       ORDER BY users.username`,
+      [followerId]
+    )
+    return result.rows
+  } catch (error) {
+    console.error('Error fetching followed users:', error)
+    throw error
+  } finally {
+    client.release()
+  }
+}
+
+// Sick days of several users at once, for the activity feed
+export async function getSickDatesForUsers(userIds: string[], startDate: string, endDate: string): Promise<{ user_id: string; date: string }[]> {
+  const client = await pool.connect()
+  try {
+    const result = await client.query(
+      `SELECT user_id, date
+       FROM user_grids
+       WHERE user_id = ANY($1::text[]) AND date BETWEEN $2 AND $3 AND intensity > 0
+       ORDER BY date`,
+      [userIds, startDate, endDate]
+    )
+    return result.rows
+  } catch (error) {
+    console.error('Error fetching sick dates for users:', error)
+    throw error
+  } finally {
+    client.release()
+  }
+}
+
+// A link to part of a user's grid; see src/lib/shareLinks.ts
+export interface ShareLink {
+  id: number
+  user_id: string
+  token: string
+  label: string | null // only shown to the owner
+  start_date: string // YYYY-MM-DD
+  end_date: string // YYYY-MM-DD
+  expires_at: Date | null // null never expires
+  expired: boolean // worked out by the database, so it agrees with NOW()
+  hide_notes: boolean
+  view_count: number
+  last_viewed_at: Date | null
+  created_at: Date
+}
+
+const SHARE_LINK_COLUMNS = `id, user_id, token, label, start_date, end_date, expires_at,
+  (expires_at IS NOT NULL AND expires_at <= NOW()) AS expired,
+  hide_notes, view_count, last_viewed_at, created_at`
+
+export async function createShareLink(
+  userId: string,
+  token: string,
+  link: { label: string | null; startDate: string; endDate: string; expiresInDays: number | null; hideNotes: boolean }
+): Promise<ShareLink> {
+  const client = await pool.connect()
+  try {
+    const result = await client.query(
+      `INSERT INTO share_links (user_id, token, label, start_date, end_date, expires_at, hide_notes)
+       VALUES ($1, $2, $3, $4, $5, NOW() + make_interval(days => $6::int), $7)
+       RETURNING ${SHARE_LINK_COLUMNS}`,
+      [userId, token, link.label, link.startDate, link.endDate, link.expiresInDays, link.hideNotes]
+    )
+    return result.rows[0]
+  } catch (error) {
+    console.error('Error creating share link:', error)
+    throw error
+  } finally {
+    client.release()
+  }
+}
+
+// Newest first, including expired links until they are revoked
+export async function getShareLinks(userId: string): Promise<ShareLink[]> {
+  const client = await pool.connect()
+  try {
+    const result = await client.query(
+      `SELECT ${SHARE_LINK_COLUMNS} FROM share_links WHERE user_id = $1 ORDER BY created_at DESC, id DESC`,
+      [userId]
+    )
+    return result.rows
+  } catch (error) {
+    console.error('Error fetching share links:', error)
+    throw error
+  } finally {
+    client.release()
+  }
+}
+
+export async function countShareLinks(userId: string): Promise<number> {
+  const client = await pool.connect()
+  try {
+    const result = await client.query('SELECT COUNT(*)::int AS count FROM share_links WHERE user_id = $1', [userId])
+    return result.rows[0].count
+  } catch (error) {
+    console.error('Error counting share links:', error)
+    throw error
+  } finally {
+    client.release()
+  }
+}
+
+// Returns false when the user has no such link
+export async function deleteShareLink(userId: string, linkId: number): Promise<boolean> {
+  const client = await pool.connect()
+  try {
+    const result = await client.query(
+      'DELETE FROM share_links WHERE id = $1 AND user_id = $2',
+      [linkId, userId]
+    )
+    return (result.rowCount ?? 0) > 0
+  } catch (error) {
+    console.error('Error deleting share link:', error)
+    throw error
+  } finally {
+    client.release()
+  }
+}
+
+// Expired links are returned too; check with src/lib/access.ts before showing one
+export async function getShareLinkByToken(token: string): Promise<ShareLink | null> {
+  const client = await pool.connect()
+  try {
+    const result = await client.query(
+      `SELECT ${SHARE_LINK_COLUMNS} FROM share_links WHERE token = $1`,
+      [token]
+    )
+    return result.rows[0] || null
+  } catch (error) {
+    console.error('Error fetching share link:', error)
+    throw error
+  } finally {
+    client.release()
+  }
+}
+
+export async function recordShareLinkView(linkId: number) {
+  const client = await pool.connect()
+  try {
+    await client.query(
+      'UPDATE share_links SET view_count = view_count + 1, last_viewed_at = NOW() WHERE id = $1',
+      [linkId]
+    )
+  } catch (error) {
+    console.error('Error recording share link view:', error)
+    throw error
+  } finally {
+    client.release()
+  }
+}
+
+function isUniqueViolation(error: unknown): boolean {
+  // 23505 is Postgres' unique_violation error code
+  return typeof error === 'object' && error !== null && (error as { code?: string }).code === '23505'
+}
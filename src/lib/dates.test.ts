@@ -0,0 +1,101 @@
+import { afterEach, describe, expect, it } from 'vitest'
+import { addDays, generateRolling12Months, getDayOfWeek, getTodayInTimeZone, toDayNumber } from './dates'
+
+const at = (iso: string) => new Date(iso)
+
+const originalTimeZone = process.env.TZ
+
+// The process timezone must never leak into date keys, so some tests run the
+// same code under different ones
+function setProcessTimeZone(timeZone: string) {
+  process.env.TZ = timeZone
+}
+
+afterEach(() => {
+  if (originalTimeZone === undefined) delete process.env.TZ
+  else process.env.TZ = originalTimeZone
+})
+
+describe('getTodayInTimeZone', () => {
+  it('rolls over at UTC midnight in UTC', () => {
+    expect(getTodayInTimeZone('UTC', at('2025-12-31T23:59:59Z'))).toBe('2025-12-31')
+    expect(getTodayInTimeZone('UTC', at('2026-01-01T00:00:00Z'))).toBe('2026-01-01')
+  })
+
+  it('rolls over at local midnight in Pacific/Auckland', () => {
+    // NZDT is UTC+13 in January
+    expect(getTodayInTimeZone('Pacific/Auckland', at('2025-01-01T10:59:59Z'))).toBe('2025-01-01')
+    expect(getTodayInTimeZone('Pacific/Auckland', at('2025-01-01T11:00:00Z'))).toBe('2025-01-02')
+  })
+
+  it('rolls over at local midnight in America/Los_Angeles', () => {
+    // PST is UTC-8 in January
+    expect(getTodayInTimeZone('America/Los_Angeles', at('2025-01-02T07:59:59Z'))).toBe('2025-01-01')
+    expect(getTodayInTimeZone('America/Los_Angeles', at('2025-01-02T08:00:00Z'))).toBe('2025-01-02')
+  })
+
+  it('gives different dates for the same instant in different zones', () => {
+    const now = at('2025-06-15T06:00:00Z')
+    expect(getTodayInTimeZone('America/Los_Angeles', now)).toBe('2025-06-14')
+    expect(getTodayInTimeZone('UTC', now)).toBe('2025-06-15')
+    expect(getTodayInTimeZone('Pacific/Auckland', at('2025-06-15T12:30:00Z'))).toBe('2025-06-16')
+  })
+
+  it('moves midnight with the clocks when Los Angeles springs forward', () => {
+    // Midnight is 08:00Z before the switch on Mar 9 and 07:00Z after it
+    expect(getTodayInTimeZone('America/Los_Angeles', at('2025-03-09T07:30:00Z'))).toBe('2025-03-08')
+    expect(getTodayInTimeZone('America/Los_Angeles', at('2025-03-10T06:59:59Z'))).toBe('2025-03-09')
+    expect(getTodayInTimeZone('America/Los_Angeles', at('2025-03-10T07:00:00Z'))).toBe('2025-03-10')
+  })
+
+  it('moves midnight with the clocks when Auckland falls back', () => {
+    // NZDT (UTC+13) ends on Apr 6; midnight after it is 12:00Z
+    expect(getTodayInTimeZone('Pacific/Auckland', at('2025-04-05T11:30:00Z'))).toBe('2025-04-06')
+    expect(getTodayInTimeZone('Pacific/Auckland', at('2025-04-06T11:59:59Z'))).toBe('2025-04-06')
+    expect(getTodayInTimeZone('Pacific/Auckland', at('2025-04-06T12:00:00Z'))).toBe('2025-04-07')
+  })
+
+  it('does not depend on the process timezone', () => {
+    const now = at('2025-03-09T07:30:00Z')
+    setProcessTimeZone('Pacific/Auckland')
+    const fromAuckland = getTodayInTimeZone('America/Los_Angeles', now)
+    setProcessTimeZone('UTC')
+    expect(getTodayInTimeZone('America/Los_Angeles', now)).toBe(fromAuckland)
+  })
+})
+
+describe('generateRolling12Months', () => {
+  it('covers complete Sunday-to-Saturday weeks from 365 days ago through today', () => {
+    const dates = generateRolling12Months('2025-06-15')
+    expect(dates.length % 7).toBe(0)
+    expect(getDayOfWeek(dates[0])).toBe(0)
+    expect(getDayOfWeek(dates[dates.length - 1])).toBe(6)
+    expect(dates).toContain(addDays('2025-06-15', -365))
+    expect(dates).toContain('2025-06-15')
+    expect(dates[0] <= '2024-06-15').toBe(true)
+  })
+
+  it.each(['UTC', 'America/Los_Angeles', 'Pacific/Auckland'])(
+    'has one key per day across DST transitions with the process in %s',
+    (timeZone) => {
+      setProcessTimeZone(timeZone)
+      // The window spans both zones' transitions
+      const dates = generateRolling12Months('2025-04-07')
+      for (let i = 1; i < dates.length; i++) {
+        expect(toDayNumber(dates[i]) - toDayNumber(dates[i - 1])).toBe(1)
+      }
+      expect(dates).toContain('2025-03-09')
+      expect(dates).toContain('2024-11-03')
+      expect(dates).toContain('2025-04-06')
+    }
+  )
+
+  it('ends in the week of today in the user\'s zone, not UTC', () => {
+    // Already Sunday Jan 5 in Auckland, still Saturday Jan 4 in UTC
+    const now = at('2025-01-04T12:00:00Z')
+    const aucklandDates = generateRolling12Months(getTodayInTimeZone('Pacific/Auckland', now))
+    const utcDates = generateRolling12Months(getTodayInTimeZone('UTC', now))
+    expect(aucklandDates[aucklandDates.length - 1]).toBe('2025-01-11')
+    expect(utcDates[utcDates.length - 1]).toBe('2025-01-04')
+  })
+})
@@ -0,0 +1,116 @@
+// Calendar dates are handled as YYYY-MM-DD strings ("date keys") everywhere.
+// Arithmetic on them runs in UTC so neither the browser's nor the server's
+// timezone can shift a day; the user's timezone only decides what "today" is.
+
+export const DEFAULT_TIMEZONE = 'UTC'
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24
+
+// Days since the epoch. Works in UTC so DST transitions never produce 23 or 25 hour days.
+export function toDayNumber(date: string): number {
+  const [year, month, day] = date.split('-').map(Number)
+  return Math.round(Date.UTC(year, month - 1, day) / MS_PER_DAY)
+}
+
+export function fromDayNumber(dayNumber: number): string {
+  return new Date(dayNumber * MS_PER_DAY).toISOString().split('T')[0]
+}
+
+export function addDays(date: string, days: number): string {
+  return fromDayNumber(toDayNumber(date) + days)
+}
+
+// 0 = Sunday
+export function getDayOfWeek(date: string): number {
+  return new Date(toDayNumber(date) * MS_PER_DAY).getUTCDay()
+}
+
+// The same calendar day `years` years away; Feb 29 becomes Feb 28 in common years
+export function addYears(date: string, years: number): string {
+  const shifted = `${Number(date.slice(0, 4)) + years}${date.slice(4)}`
+  return isValidDateKey(shifted) ? shifted : shifted.replace(/-29$/, '-28')
+}
+
+// Rejects well-formed but impossible dates such as 2025-02-30
+export function isValidDateKey(date: string): boolean {
+  return /^\d{4}-\d{2}-\d{2}$/.test(date) && fromDayNumber(toDayNumber(date)) === date
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+// The calendar date it currently is in the given IANA timezone
+export function getTodayInTimeZone(timeZone: string, now: Date = new Date()): string {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit'
+  }).formatToParts(now)
+  const part = (type: string) => parts.find(p => p.type === type)?.value
+  return `${part('year')}-${part('month')}-${part('day')}`
+}
+
+// Formats a date key for display without letting the viewer's timezone move it
+export function formatDateKey(date: string, options: Intl.DateTimeFormatOptions): string {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString('en-US', { ...options, timeZone: 'UTC' })
+}
+
+export function generateRolling12Months(today: string): string[] {
+  // Calculate exactly 365 days ago (not 1 year ago to avoid leap year issues)
+  const startDate = addDays(today, -365)
+
+  // Find the Sunday before or on the start date
+  const firstSunday = addDays(startDate, -getDayOfWeek(startDate))
+
+  const dates = []
+  let currentDate = firstSunday
+
+  // Generate dates for complete weeks that include today
+  while (currentDate <= today) {
+    dates.push(currentDate)
+    currentDate = addDays(currentDate, 1)
+  }
+
+  // Add remaining days to complete the final week
+  while (dates.length % 7 !== 0) {
+    dates.push(currentDate)
+    currentDate = addDays(currentDate, 1)
+  }
+
+  return dates
+}
+
+// Complete weeks covering a range: from the Sunday on or before the first day
+// to the Saturday on or after the last
+export function generateRangeDates(startDate: string, endDate: string): string[] {
+  const dates = []
+  let currentDate = addDays(startDate, -getDayOfWeek(startDate))
+  const lastDate = addDays(endDate, 6 - getDayOfWeek(endDate))
+
+  while (currentDate <= lastDate) {
+    dates.push(currentDate)
+    currentDate = addDays(currentDate, 1)
+  }
+
+  return dates
+}
+
+// Complete weeks covering a calendar year
+export function generateYearDates(year: number): string[] {
+  return generateRangeDates(`${year}-01-01`, `${year}-12-31`)
+}
+
+export function getRolling12MonthRange(today: string): { startDate: string; endDate: string } {
+  const dates = generateRolling12Months(today)
+  return {
+    startDate: dates[0],
+    endDate: dates[dates.length - 1]
+  }
+}
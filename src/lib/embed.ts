@@ -0,0 +1,199 @@
+import { formatDateKey } from './dates'
+import { getMonthLabels, groupIntoWeeks } from './gridLayout'
+import { formatIntensity, getIntensityLevels, toColorLevel, type IntensityScale } from './intensity'
+import { getIntensityColor, type Theme } from './themes'
+
+// Embeddable picture of a grid, for READMEs and wiki pages. The layout is
+// computed once as plain boxes and text, then drawn either as SVG markup here
+// or as a PNG by embedImage.tsx, so both come out identical.
+
+// Embeds and share images are fetched on every README view or unfurl. Shared
+// caches keep them for an hour and may serve a stale copy for a day while
+// refreshing, so a popular page costs a handful of queries a day. Making a
+// profile private takes up to an hour to reach caches that already hold a copy.
+export const EMBED_CACHE_CONTROL = 'public, max-age=3600, s-maxage=3600, stale-while-revalidate=86400'
+
+export type EmbedSize = 'small' | 'medium' | 'large'
+
+// Square size in pixels; medium matches the grid on the site
+export const EMBED_SIZES: Record<EmbedSize, number> = {
+  small: 8,
+  medium: 12,
+  large: 16,
+}
+
+export interface EmbedOptions {
+  title: string
+  dates: string[] // complete weeks, see generateRolling12Months
+  intensities: Map<string, number> // days without an entry are 0
+  today: string // days after this are left out
+  year?: number // days outside this year are left out
+  theme: Theme
+  dark: boolean
+  scale: IntensityScale
+  cellSize: number
+}
+
+export interface EmbedBox {
+  x: number
+  y: number
+  size: number
+  fill: string
+  stroke: string
+  title?: string
+}
+
+export interface EmbedText {
+  x: number
+  y: number // top of the text box
+  text: string
+  anchor: 'start' | 'end'
+}
+
+export interface EmbedLayout {
+  width: number
+  height: number
+  fontSize: number
+  background: string
+  textColor: string
+  title: EmbedText
+  monthLabels: EmbedText[]
+  dayLabels: EmbedText[]
+  cells: EmbedBox[]
+  legendLabels: EmbedText[]
+  legendCells: EmbedBox[]
+}
+
+const COLORS = {
+  light: { background: '#ffffff', text: '#4b5563' },
+  dark: { background: '#0d1117', text: '#9ca3af' },
+}
+
+const DAY_LABELS = ['', 'Mon', '', 'Wed', '', 'Fri', '']
+
+export function layoutEmbed(options: EmbedOptions): EmbedLayout {
+  const { cellSize, theme, dark, scale, year, today } = options
+  const gap = Math.max(2, Math.round(cellSize / 3))
+  const pitch = cellSize + gap
+  const fontSize = Math.max(9, Math.round(cellSize * 0.85))
+  const padding = cellSize
+  const labelWidth = fontSize * 2.5
+
+  const weeks = groupIntoWeeks(options.dates)
+  const gridLeft = padding + labelWidth + gap
+  const titleTop = padding
+  const monthTop = titleTop + fontSize * 2
+  const gridTop = monthTop + fontSize + gap * 2
+  const gridHeight = 7 * pitch - gap
+  const legendTop = gridTop + gridHeight + gap * 3
+  const width = gridLeft + weeks.length * pitch - gap + padding
+  const height = legendTop + cellSize + padding
+
+  const colorFor = (intensity: number) => getIntensityColor(theme, toColorLevel(intensity, scale), dark)
+
+  const cells: EmbedBox[] = []
+  let sickDays = 0
+  weeks.forEach((week, weekIndex) => {
+    week.forEach((date, dayIndex) => {
+      if (date > today || (year !== undefined && !date.startsWith(`${year}-`))) return
+
+      const intensity = options.intensities.get(date) ?? 0
+      if (intensity > 0) sickDays++
+      const color = colorFor(intensity)
+      cells.push({
+        x: gridLeft + weekIndex * pitch,
+        y: gridTop + dayIndex * pitch,
+        size: cellSize,
+        fill: color.fill,
+        stroke: color.border,
+        title: `${formatDateKey(date, { year: 'numeric', month: 'short', day: 'numeric' })}: ${formatIntensity(intensity, scale)}`,
+      })
+    })
+  })
+
+  const levels = getIntensityLevels(scale)
+  const legendRight = width - padding
+  const legendCellsLeft = legendRight - fontSize * 2.5 - gap - levels.length * pitch
+  const textOffset = (cellSize - fontSize) / 2
+
+  return {
+    width,
+    height,
+    fontSize,
+    background: dark ? COLORS.dark.background : COLORS.light.background,
+    textColor: dark ? COLORS.dark.text : COLORS.light.text,
+    title: {
+      x: padding,
+      y: titleTop,
+      text: `${options.title}: ${sickDays} sick ${sickDays === 1 ? 'day' : 'days'}`,
+      anchor: 'start',
+    },
+    monthLabels: getMonthLabels(weeks, year).map(label => ({
+      x: gridLeft + label.position * pitch,
+      y: monthTop,
+      text: label.month,
+      anchor: 'start',
+    })),
+    dayLabels: DAY_LABELS.flatMap((text, dayIndex) => text ? [{
+      x: padding + labelWidth,
+      y: gridTop + dayIndex * pitch + textOffset,
+      text,
+      anchor: 'end' as const,
+    }] : []),
+    cells,
+    legendLabels: [
+      { x: legendCellsLeft - gap, y: legendTop + textOffset, text: 'Less', anchor: 'end' },
+      { x: legendRight, y: legendTop + textOffset, text: 'More', anchor: 'end' },
+    ],
+    legendCells: levels.map((level, index) => {
+      const color = colorFor(level.value)
+      return {
+        x: legendCellsLeft + index * pitch,
+        y: legendTop,
+        size: cellSize,
+        fill: color.fill,
+        stroke: color.border,
+        title: formatIntensity(level.value, scale),
+      }
+    }),
+  }
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
+
+const FONT_FAMILY = "-apple-system, BlinkMacSystemFont, 'Segoe UI', Helvetica, Arial, sans-serif"
+
+function renderText(label: EmbedText, fontSize: number): string {
+  // SVG positions text by its baseline; the layout gives the top of the box
+  return `<text x="${label.x}" y="${label.y + fontSize * 0.85}" text-anchor="${label.anchor}">${escapeXml(label.text)}</text>`
+}
+
+function renderBox(box: EmbedBox): string {
+  const radius = Math.max(1, Math.round(box.size / 6))
+  const title = box.title ? `<title>${escapeXml(box.title)}</title>` : ''
+  return `<rect x="${box.x}" y="${box.y}" width="${box.size}" height="${box.size}" rx="${radius}" fill="${box.fill}" stroke="${box.stroke}" stroke-width="1">${title}</rect>`
+}
+
+export function renderEmbedSvg(layout: EmbedLayout): string {
+  const texts = [layout.title, ...layout.monthLabels, ...layout.dayLabels, ...layout.legendLabels]
+  // The title doubles as the alternative text for the whole picture
+  const description = escapeXml(layout.title.text)
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${layout.width}" height="${layout.height}" viewBox="0 0 ${layout.width} ${layout.height}" role="img" aria-label="${description}">`,
+    `<title>${description}</title>`,
+    `<rect width="100%" height="100%" fill="${layout.background}"/>`,
+    `<g font-family="${FONT_FAMILY}" font-size="${layout.fontSize}" fill="${layout.textColor}">`,
+    ...texts.map(text => renderText(text, layout.fontSize)),
+    '</g>',
+    ...layout.cells.map(renderBox),
+    ...layout.legendCells.map(renderBox),
+    '</svg>',
+  ].join('\n')
+}
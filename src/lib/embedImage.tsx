@@ -0,0 +1,65 @@
+import { ImageResponse } from 'next/og'
+import type { EmbedBox, EmbedLayout, EmbedText } from './embed'
+
+// PNG version of an embed, rasterized on the server by next/og (Satori and
+// resvg), so no browser is needed. Draws the same layout as renderEmbedSvg.
+
+function Text({ label, layout }: { label: EmbedText; layout: EmbedLayout }) {
+  return (
+    <div
+      style={{
+        position: 'absolute',
+        top: label.y,
+        // Satori has no text-anchor; right-aligned text is positioned from the right edge
+        ...(label.anchor === 'end' ? { right: layout.width - label.x } : { left: label.x }),
+        fontSize: layout.fontSize,
+        lineHeight: 1,
+        color: layout.textColor,
+        whiteSpace: 'nowrap',
+      }}
+    >
+      {label.text}
+    </div>
+  )
+}
+
+function Box({ box }: { box: EmbedBox }) {
+  return (
+    <div
+      style={{
+        position: 'absolute',
+        left: box.x,
+        top: box.y,
+        width: box.size,
+        height: box.size,
+        borderRadius: Math.max(1, Math.round(box.size / 6)),
+        backgroundColor: box.fill,
+        border: `1px solid ${box.stroke}`,
+      }}
+    />
+  )
+}
+
+// The embed as an element for next/og, also placed inside share images
+export function EmbedGraphic({ layout }: { layout: EmbedLayout }) {
+  const texts = [layout.title, ...layout.monthLabels, ...layout.dayLabels, ...layout.legendLabels]
+
+  return (
+    <div
+      style={{
+        display: 'flex',
+        position: 'relative',
+        width: layout.width,
+        height: layout.height,
+        backgroundColor: layout.background,
+      }}
+    >
+      {texts.map((label, index) => <Text key={`text-${index}`} label={label} layout={layout} />)}
+      {[...layout.cells, ...layout.legendCells].map((box, index) => <Box key={`box-${index}`} box={box} />)}
+    </div>
+  )
+}
+
+export function renderEmbedPng(layout: EmbedLayout, headers: HeadersInit): ImageResponse {
+  return new ImageResponse(<EmbedGraphic layout={layout} />, { width: layout.width, height: layout.height, headers })
+}
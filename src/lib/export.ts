@@ -0,0 +1,78 @@
+import type { UserGrid } from './database'
+import { getIntensityLabel, type IntensityScale } from './intensity'
+
+// Export schema, version 1. Columns only ever get appended so existing
+// spreadsheets and scripts keep working.
+//
+//   date        YYYY-MM-DD calendar date
+//   intensity   0 (healthy) to 4 (very sick), or 0 to 2 on a 3-level scale
+//   category    illness category id (cold, flu, ...) or empty
+//   tags        symptom tags; ";"-separated in CSV, an array in JSON
+//   notes       free text or empty
+//   created_at  ISO 8601 timestamp the day was first logged
+//   updated_at  ISO 8601 timestamp of the last change
+//   intensity_label  the user's name for the intensity level
+export const EXPORT_SCHEMA_VERSION = 1
+
+export const EXPORT_COLUMNS = [
+  'date',
+  'intensity',
+  'category',
+  'tags',
+  'notes',
+  'created_at',
+  'updated_at',
+  'intensity_label',
+] as const
+
+export type ExportFormat = 'csv' | 'json'
+
+export interface ExportRow {
+  date: string
+  intensity: number
+  category: string | null
+  tags: string[]
+  notes: string | null
+  created_at: string
+  updated_at: string
+  intensity_label: string
+}
+
+export function toExportRow(square: UserGrid, scale: IntensityScale): ExportRow {
+  return {
+    date: square.date,
+    intensity: square.intensity,
+    category: square.category,
+    tags: square.tags,
+    notes: square.notes,
+    created_at: square.created_at.toISOString(),
+    updated_at: square.updated_at.toISOString(),
+    intensity_label: getIntensityLabel(square.intensity, scale),
+  }
+}
+
+// RFC 4180 quoting: wrap in quotes when needed and double embedded quotes
+function escapeCsvValue(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
+
+export function toCsvLine(values: string[]): string {
+  return values.map(escapeCsvValue).join(',') + '\r\n'
+}
+
+export function csvHeader(): string {
+  return toCsvLine([...EXPORT_COLUMNS])
+}
+
+export function toCsvRow(row: ExportRow): string {
+  return toCsvLine([
+    row.date,
+    String(row.intensity),
+    row.category ?? '',
+    row.tags.join(';'),
+    row.notes ?? '',
+    row.created_at,
+    row.updated_at,
+    row.intensity_label,
+  ])
+}
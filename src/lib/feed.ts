@@ -0,0 +1,40 @@
+import { addDays, formatDateKey, getDayOfWeek } from './dates'
+
+// Weekly activity for the feed on the following page. Weeks start on Sunday,
+// like the grid's columns, and are counted in the viewer's calendar.
+
+export const FEED_WEEKS = 4
+
+export interface WeeklyActivity {
+  weekStart: string // YYYY-MM-DD, a Sunday
+  sickDays: number
+}
+
+export function getWeekStart(date: string): string {
+  return addDays(date, -getDayOfWeek(date))
+}
+
+// First day the feed covers: the Sunday FEED_WEEKS - 1 weeks before this one
+export function getFeedStartDate(today: string): string {
+  return addDays(getWeekStart(today), -7 * (FEED_WEEKS - 1))
+}
+
+// Sick days per week, newest first, leaving out weeks without any
+export function summarizeWeeks(sickDates: string[]): WeeklyActivity[] {
+  const counts = new Map<string, number>()
+  new Set(sickDates).forEach(date => {
+    const weekStart = getWeekStart(date)
+    counts.set(weekStart, (counts.get(weekStart) ?? 0) + 1)
+  })
+
+  return Array.from(counts, ([weekStart, sickDays]) => ({ weekStart, sickDays }))
+    .sort((a, b) => b.weekStart.localeCompare(a.weekStart))
+}
+
+// "this week", "last week" or "the week of Mar 2"
+export function describeWeek(weekStart: string, today: string): string {
+  const currentWeek = getWeekStart(today)
+  if (weekStart === currentWeek) return 'this week'
+  if (weekStart === addDays(currentWeek, -7)) return 'last week'
+  return `the week of ${formatDateKey(weekStart, { month: 'short', day: 'numeric' })}`
+}
@@ -0,0 +1,38 @@
+import { formatDateKey } from './dates'
+
+// The contribution-chart layout shared by DayGrid and the server-rendered
+// embeds: one column per week, Sunday at the top, with a month name above the
+// first week of each month.
+
+export interface MonthLabel {
+  month: string // short month name, e.g. "Mar"
+  position: number // index of the week column it sits above
+}
+
+// Dates must start on a Sunday and come in complete weeks, as produced by
+// generateRolling12Months and generateYearDates
+export function groupIntoWeeks<T>(days: T[]): T[][] {
+  const weeks: T[][] = []
+  for (let i = 0; i < days.length; i += 7) {
+    weeks.push(days.slice(i, i + 7))
+  }
+  return weeks
+}
+
+// Year grids pad the first and last week with days from the neighbouring
+// years; pass `year` so those do not start a month of their own
+export function getMonthLabels(weeks: string[][], year?: number): MonthLabel[] {
+  const labels: MonthLabel[] = []
+  let currentMonth = ''
+
+  weeks.forEach((week, weekIndex) => {
+    // Check the first day of each week; a year grid starts counting at Jan 1
+    const firstDay = year ? week.find(date => date.startsWith(`${year}-`)) : week[0]
+    if (firstDay && firstDay.slice(0, 7) !== currentMonth) {
+      currentMonth = firstDay.slice(0, 7) // YYYY-MM
+      labels.push({ month: formatDateKey(firstDay, { month: 'short' }), position: weekIndex })
+    }
+  })
+
+  return labels
+}
@@ -0,0 +1,189 @@
+import { addDays, isValidDateKey } from './dates'
+import type { SickPeriod } from './stats'
+
+// Minimal iCalendar (RFC 5545) support: sick periods go out as all-day
+// VEVENTs and all-day or timed VEVENTs come back in as date ranges. Only the
+// properties needed for that are written or read.
+
+export interface CalendarOptions {
+  name: string // X-WR-CALNAME shown by calendar apps
+  summary: string // title of every event
+  uidPrefix: string // keeps UIDs unique across users without exposing ids
+}
+
+export interface CalendarEvent {
+  startDate: string // YYYY-MM-DD
+  endDate: string // YYYY-MM-DD, inclusive
+  summary: string
+}
+
+// How often subscribed calendars should poll the feed
+const REFRESH_INTERVAL = 'PT6H'
+
+// Lines longer than 75 octets must be folded onto continuation lines
+const MAX_LINE_OCTETS = 75
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n')
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char))
+}
+
+function foldLine(line: string): string {
+  const encoder = new TextEncoder()
+  const parts: string[] = []
+  let current = ''
+
+  for (const char of line) {
+    // Continuation lines start with a space, which counts toward their length
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1
+    if (encoder.encode(current + char).length > limit) {
+      parts.push(current)
+      current = ''
+    }
+    current += char
+  }
+  parts.push(current)
+
+  return parts.join('\r\n ')
+}
+
+function toIcsDate(dateKey: string): string {
+  return dateKey.replace(/-/g, '')
+}
+
+function toIcsTimestamp(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+}
+
+export function buildCalendar(periods: SickPeriod[], options: CalendarOptions, now = new Date()): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Sick Squares//Sick periods//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(options.name)}`,
+    `REFRESH-INTERVAL;VALUE=DURATION:${REFRESH_INTERVAL}`,
+    `X-PUBLISHED-TTL:${REFRESH_INTERVAL}`,
+  ]
+
+  periods.forEach(period => {
+    lines.push(
+      'BEGIN:VEVENT',
+      // Keyed by start date so a streak that grows updates the same event
+      `UID:${options.uidPrefix}-${toIcsDate(period.startDate)}@sicksquares`,
+      `DTSTAMP:${toIcsTimestamp(now)}`,
+      `DTSTART;VALUE=DATE:${toIcsDate(period.startDate)}`,
+      // DTEND of an all-day event is exclusive
+      `DTEND;VALUE=DATE:${toIcsDate(addDays(period.endDate, 1))}`,
+      `SUMMARY:${escapeText(options.summary)}`,
+      `DESCRIPTION:${period.length} sick ${period.length === 1 ? 'day' : 'days'}`,
+      'TRANSP:TRANSPARENT',
+      'END:VEVENT'
+    )
+  })
+
+  lines.push('END:VCALENDAR')
+  return lines.map(foldLine).join('\r\n') + '\r\n'
+}
+
+interface ContentLine {
+  name: string
+  params: Record<string, string>
+  value: string
+}
+
+function parseContentLine(line: string): ContentLine | null {
+  const colon = line.indexOf(':')
+  if (colon === -1) return null
+
+  const [name, ...params] = line.slice(0, colon).split(';')
+  return {
+    name: name.toUpperCase(),
+    params: Object.fromEntries(params.map(param => {
+      const [key, value = ''] = param.split('=')
+      return [key.toUpperCase(), value.replace(/^"|"$/g, '')]
+    })),
+    value: line.slice(colon + 1),
+  }
+}
+
+// DATE (20240131) or DATE-TIME (20240131T090000[Z]) values. Timed values keep
+// their calendar date as written; converting zones is beyond what imports need.
+function parseIcsDate(value: string): { date: string; midnight: boolean } | null {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{6})Z?)?$/.exec(value.trim())
+  if (!match) return null
+
+  const date = `${match[1]}-${match[2]}-${match[3]}`
+  if (!isValidDateKey(date)) return null
+  return { date, midnight: !match[4] || match[4] === '000000' }
+}
+
+// Whole days and weeks only (P3D, P1W); times inside a day do not matter here
+function parseDurationDays(value: string): number | null {
+  const match = /^P(?:(\d+)W)?(?:(\d+)D)?/.exec(value.trim())
+  if (!match || (!match[1] && !match[2])) return null
+  return parseInt(match[1] || '0') * 7 + parseInt(match[2] || '0')
+}
+
+// Returns the events in the file, or an error message when it is not a calendar
+export function parseCalendar(content: string): CalendarEvent[] | string {
+  // Unfold continuation lines before reading properties
+  const lines = content.replace(/\r?\n[ \t]/g, '').split(/\r?\n/)
+  if (!lines.some(line => line.trim().toUpperCase() === 'BEGIN:VCALENDAR')) {
+    return 'The file is not an iCalendar file'
+  }
+
+  const events: CalendarEvent[] = []
+  let current: ContentLine[] | null = null
+
+  lines.forEach(line => {
+    const upper = line.trim().toUpperCase()
+    if (upper === 'BEGIN:VEVENT') {
+      current = []
+    } else if (upper === 'END:VEVENT' && current) {
+      const event = toCalendarEvent(current)
+      if (event) events.push(event)
+      current = null
+    } else if (current) {
+      const contentLine = parseContentLine(line)
+      if (contentLine) current.push(contentLine)
+    }
+  })
+
+  return events
+}
+
+function toCalendarEvent(properties: ContentLine[]): CalendarEvent | null {
+  const get = (name: string) => properties.find(property => property.name === name)
+
+  if (get('STATUS')?.value.trim().toUpperCase() === 'CANCELLED') return null
+
+  const start = get('DTSTART') && parseIcsDate(get('DTSTART')!.value)
+  if (!start) return null
+
+  let endDate = start.date
+  const dtEnd = get('DTEND')
+  const duration = get('DURATION')
+  if (dtEnd) {
+    const end = parseIcsDate(dtEnd.value)
+    // An end at midnight (all-day events always) does not include that day
+    if (end) endDate = end.midnight ? addDays(end.date, -1) : end.date
+  } else if (duration) {
+    const days = parseDurationDays(duration.value)
+    if (days) endDate = addDays(start.date, days - 1)
+  }
+
+  return {
+    startDate: start.date,
+    endDate: endDate < start.date ? start.date : endDate,
+    summary: unescapeText(get('SUMMARY')?.value ?? ''),
+  }
+}
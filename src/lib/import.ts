@@ -0,0 +1,233 @@
+import type { GridEntry } from './database'
+import { addDays } from './dates'
+import type { ExportFormat } from './export'
+import { parseCalendar } from './ical'
+import { DEFAULT_SCALE, getMaxIntensity, type IntensityScale } from './intensity'
+import { validateGridEntry } from './validation'
+
+// Imports accept the same two formats the export produces. CSV needs a header
+// row with `date` and `intensity` columns (any order, any case); JSON is either
+// an array of { date, intensity } objects or a full export with a `days` array.
+// Other columns and fields are ignored, so an export re-imports as-is.
+//
+// An iCalendar file of sick leave is also accepted: every day covered by one of
+// its events becomes a row with the same, caller-chosen intensity.
+export type ImportFormat = ExportFormat | 'ics'
+
+// Calendars carry no intensity, so their days default to the middle sick level
+// of the user's scale: "Moderately sick" of five levels, "Unwell" of three
+export function getDefaultIcsIntensity(scale: IntensityScale = DEFAULT_SCALE): number {
+  return Math.ceil(getMaxIntensity(scale) / 2)
+}
+
+// overwrite: imported intensity replaces an existing day
+// skip:      days that already have an entry are left untouched
+export type ConflictStrategy = 'overwrite' | 'skip'
+
+export const MAX_IMPORT_BYTES = 1024 * 1024
+export const MAX_IMPORT_ROWS = 5000
+
+export interface RawImportRow {
+  row: number // 1-based data row, not counting the CSV header
+  date: unknown
+  intensity: unknown
+}
+
+export type ImportAction = 'create' | 'overwrite' | 'skip' | 'reject'
+
+export interface ImportRowResult {
+  row: number
+  date: string
+  intensity: number | null
+  action: ImportAction
+  reason?: string
+}
+
+export interface ImportSummary {
+  created: number
+  overwritten: number
+  skipped: number
+  rejected: number
+}
+
+export type ParseImportResult =
+  | { rows: RawImportRow[]; error?: undefined }
+  | { rows?: undefined; error: string }
+
+// RFC 4180 parsing: quoted fields may contain commas, newlines and "" escapes
+export function parseCsv(content: string): string[][] {
+  const records: string[][] = []
+  let record: string[] = []
+  let field = ''
+  let inQuotes = false
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i]
+
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === ',') {
+      record.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++
+      record.push(field)
+      records.push(record)
+      record = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+
+  if (field !== '' || record.length > 0) {
+    record.push(field)
+    records.push(record)
+  }
+
+  // Blank lines carry no data
+  return records.filter(values => values.some(value => value.trim() !== ''))
+}
+
+function parseCsvRows(content: string): ParseImportResult {
+  // Spreadsheet tools like to prepend a byte order mark
+  const [header, ...records] = parseCsv(content.replace(/^\uFEFF/, ''))
+  if (!header) {
+    return { error: 'The file is empty' }
+  }
+
+  const columns = header.map(column => column.trim().toLowerCase())
+  const dateIndex = columns.indexOf('date')
+  const intensityIndex = columns.indexOf('intensity')
+  if (dateIndex === -1 || intensityIndex === -1) {
+    return { error: 'CSV must have a header row with date and intensity columns' }
+  }
+
+  return {
+    rows: records.map((values, index) => {
+      const intensity = (values[intensityIndex] ?? '').trim()
+      return {
+        row: index + 1,
+        date: (values[dateIndex] ?? '').trim(),
+        // Leave anything that is not a plain integer for validation to reject
+        intensity: /^-?\d+$/.test(intensity) ? Number(intensity) : intensity,
+      }
+    }),
+  }
+}
+
+function parseJsonRows(content: string): ParseImportResult {
+  let data: unknown
+  try {
+    data = JSON.parse(content)
+  } catch {
+    return { error: 'The file is not valid JSON' }
+  }
+
+  const days = Array.isArray(data)
+    ? data
+    : (data as { days?: unknown } | null)?.days
+  if (!Array.isArray(days)) {
+    return { error: 'JSON must be an array of days or an export with a days array' }
+  }
+
+  return {
+    rows: days.map((day, index) => {
+      const { date, intensity } = (day ?? {}) as { date?: unknown; intensity?: unknown }
+      return { row: index + 1, date, intensity }
+    }),
+  }
+}
+
+function parseIcsRows(content: string, intensity: number): ParseImportResult {
+  const events = parseCalendar(content)
+  if (typeof events === 'string') {
+    return { error: events }
+  }
+
+  // Overlapping events describe the same leave, so each day is listed once
+  const dates = new Set<string>()
+  for (const event of events) {
+    for (let date = event.startDate; date <= event.endDate; date = addDays(date, 1)) {
+      dates.add(date)
+      // Stop expanding absurdly long events; the row limit rejects them below
+      if (dates.size > MAX_IMPORT_ROWS) break
+    }
+  }
+
+  return {
+    rows: Array.from(dates)
+      .sort() // date keys sort chronologically as strings
+      .map((date, index) => ({ row: index + 1, date, intensity })),
+  }
+}
+
+// icsIntensity must fit the user's scale; see getDefaultIcsIntensity
+export function parseImport(format: ImportFormat, content: string, icsIntensity: number): ParseImportResult {
+  const result = format === 'csv'
+    ? parseCsvRows(content)
+    : format === 'json' ? parseJsonRows(content) : parseIcsRows(content, icsIntensity)
+  if (result.rows && result.rows.length > MAX_IMPORT_ROWS) {
+    return { error: `An import can have at most ${MAX_IMPORT_ROWS} rows` }
+  }
+  return result
+}
+
+// Decide what happens to every row: rows failing the POST /api/grid rules
+// (including the user's intensity scale) and repeated dates are rejected, the
+// rest are created or, when the day already has an entry, overwritten or
+// skipped according to the strategy.
+export function planImport(
+  rows: RawImportRow[],
+  existingDates: Set<string>,
+  strategy: ConflictStrategy,
+  today: string,
+  maxIntensity: number
+): ImportRowResult[] {
+  const seen = new Set<string>()
+
+  return rows.map(({ row, date, intensity }) => {
+    const displayDate = typeof date === 'string' ? date : String(date ?? '')
+    const displayIntensity = typeof intensity === 'number' ? intensity : null
+
+    const error = validateGridEntry(date, intensity, today, maxIntensity)
+    if (error) {
+      return { row, date: displayDate, intensity: displayIntensity, action: 'reject', reason: error }
+    }
+
+    if (seen.has(displayDate)) {
+      return { row, date: displayDate, intensity: displayIntensity, action: 'reject', reason: 'Date appears more than once in the file' }
+    }
+    seen.add(displayDate)
+
+    const action: ImportAction = !existingDates.has(displayDate)
+      ? 'create'
+      : strategy === 'overwrite' ? 'overwrite' : 'skip'
+    return { row, date: displayDate, intensity: displayIntensity, action }
+  })
+}
+
+export function summarizeImport(results: ImportRowResult[]): ImportSummary {
+  return {
+    created: results.filter(result => result.action === 'create').length,
+    overwritten: results.filter(result => result.action === 'overwrite').length,
+    skipped: results.filter(result => result.action === 'skip').length,
+    rejected: results.filter(result => result.action === 'reject').length,
+  }
+}
+
+// The rows that will actually be written
+export function toGridEntries(results: ImportRowResult[]): GridEntry[] {
+  return results
+    .filter(result => result.action === 'create' || result.action === 'overwrite')
+    .map(result => ({ date: result.date, intensity: result.intensity as number }))
+}
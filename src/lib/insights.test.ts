@@ -0,0 +1,166 @@
+import { describe, expect, it } from 'vitest'
+import { addDays } from './dates'
+import { findLongStreak, findRisingTrend, findSeasonalCluster, findWeekdaySkew, getInsights } from './insights'
+import type { StatsDay } from './stats'
+
+const TODAY = '2026-10-19'
+
+const sick = (...dates: string[]): StatsDay[] => dates.map(date => ({ date, intensity: 2 }))
+
+// `count` days in a row ending on `end`
+const streak = (end: string, count: number): StatsDay[] =>
+  sick(...Array.from({ length: count }, (_, index) => addDays(end, index - count + 1)))
+
+// `count` dates a week apart from `first`, so all on the same day of the week
+const weekly = (first: string, count: number): string[] =>
+  Array.from({ length: count }, (_, index) => addDays(first, index * 7))
+
+describe('findSeasonalCluster', () => {
+  const january = ['2025-01-02', '2025-01-09', '2025-01-16', '2025-01-23', '2025-01-30']
+  const july = ['2025-07-03', '2025-07-10', '2025-07-17', '2025-07-24', '2025-07-31']
+
+  it('says nothing without data', () => {
+    expect(findSeasonalCluster([], TODAY)).toBeNull()
+  })
+
+  it('reports four months holding half the sick days, earliest season first on ties', () => {
+    expect(findSeasonalCluster(sick(...january, ...july), TODAY)).toEqual({
+      kind: 'seasonal',
+      alert: false,
+      message: '50% of your sick days fall Jan–Apr.',
+    })
+  })
+
+  it('wraps seasons from December to January', () => {
+    const winter = ['2024-11-05', '2024-12-05', '2024-12-06', '2025-01-10', '2025-02-11', '2025-11-20', '2025-12-24', '2026-01-05']
+    const insight = findSeasonalCluster(sick(...winter, '2025-06-01', '2025-08-01'), TODAY)
+    expect(insight?.message).toBe('80% of your sick days fall Nov–Feb.')
+  })
+
+  it('stays quiet when sick days are spread over the year', () => {
+    const monthly = Array.from({ length: 12 }, (_, index) => `2025-${String(index + 1).padStart(2, '0')}-15`)
+    expect(findSeasonalCluster(sick(...monthly), TODAY)).toBeNull()
+  })
+
+  it('needs at least ten sick days', () => {
+    expect(findSeasonalCluster(sick(...january, ...july.slice(1)), TODAY)).toBeNull()
+  })
+
+  it('needs a year of history', () => {
+    const recent = ['2026-01-05', '2026-01-06', '2026-01-07', '2026-01-08', '2026-01-09']
+    expect(findSeasonalCluster(sick(...recent, ...recent.map(date => date.replace('-01-', '-02-'))), TODAY)).toBeNull()
+  })
+})
+
+describe('findRisingTrend', () => {
+  // The last 30 days run from Sep 20; the 90 days before them from Jun 22 to Sep 19
+  const baseline = (count: number) => sick(...Array.from({ length: count }, (_, index) => addDays('2026-07-01', index * 10)))
+
+  it('says nothing without data', () => {
+    expect(findRisingTrend([], TODAY)).toBeNull()
+  })
+
+  it('reports a few recent sick days after none', () => {
+    expect(findRisingTrend(sick('2026-09-20', '2026-10-01', TODAY), TODAY)).toEqual({
+      kind: 'trend',
+      alert: true,
+      message: '3 sick days in the last 30 days, after none in the 90 days before.',
+    })
+  })
+
+  it('needs at least three recent sick days', () => {
+    expect(findRisingTrend(sick('2026-10-01', TODAY), TODAY)).toBeNull()
+  })
+
+  it('needs twice the earlier rate', () => {
+    const recent = sick('2026-10-01', '2026-10-02', '2026-10-03')
+    expect(findRisingTrend([...baseline(6), ...recent], TODAY)).toBeNull()
+    expect(findRisingTrend([...baseline(6), ...recent, ...sick('2026-10-04')], TODAY)?.message)
+      .toBe('4 sick days in the last 30 days, up from about 2 per 30 days over the 90 days before.')
+  })
+
+  it('ignores days before the baseline and after today', () => {
+    const old = sick('2026-01-01', '2026-01-02', '2026-01-03', '2026-06-21')
+    const insight = findRisingTrend([...old, ...sick('2026-10-10', '2026-10-11', '2026-10-12', '2026-10-20')], TODAY)
+    expect(insight?.message).toBe('3 sick days in the last 30 days, after none in the 90 days before.')
+  })
+})
+
+describe('findWeekdaySkew', () => {
+  // Jan 5 2025 is a Sunday
+  const otherDays = ['2025-01-07', '2025-01-08', '2025-01-09', '2025-01-10', '2025-01-11']
+    .flatMap(first => weekly(first, 2))
+
+  it('says nothing without data', () => {
+    expect(findWeekdaySkew([], TODAY)).toBeNull()
+  })
+
+  it('reports a day holding a quarter or more of the sick days', () => {
+    expect(findWeekdaySkew(sick(...weekly('2025-02-03', 4), ...otherDays), TODAY)).toEqual({
+      kind: 'weekday',
+      alert: false,
+      message: 'Mondays account for 29% of your sick days, against 14% if they were spread evenly.',
+    })
+  })
+
+  it('stays quiet when the days are spread evenly', () => {
+    expect(findWeekdaySkew(sick(...weekly('2025-02-02', 2), ...weekly('2025-02-03', 2), ...otherDays), TODAY)).toBeNull()
+  })
+
+  it('needs at least fourteen sick days', () => {
+    expect(findWeekdaySkew(sick(...weekly('2025-02-03', 13)), TODAY)).toBeNull()
+  })
+})
+
+describe('findLongStreak', () => {
+  const past = [
+    ...streak('2026-01-05', 1),
+    ...streak('2026-02-05', 1),
+    ...streak('2026-03-05', 1),
+    ...streak('2026-04-05', 1),
+    ...streak('2026-05-05', 2),
+  ]
+
+  it('says nothing without data', () => {
+    expect(findLongStreak([], TODAY)).toBeNull()
+  })
+
+  it('alerts when the current streak is longer than the 90th percentile', () => {
+    expect(findLongStreak([...past, ...streak(TODAY, 3)], TODAY)).toEqual({
+      kind: 'streak',
+      alert: true,
+      message: 'You have been sick 3 days in a row, longer than 90% of your past streaks (up to 2 days).',
+    })
+  })
+
+  it('stays quiet at the 90th percentile', () => {
+    expect(findLongStreak([...past, ...streak(TODAY, 2)], TODAY)).toBeNull()
+  })
+
+  it('counts a streak that ended yesterday but not the day before', () => {
+    expect(findLongStreak([...past, ...streak(addDays(TODAY, -1), 3)], TODAY)).not.toBeNull()
+    expect(findLongStreak([...past, ...streak(addDays(TODAY, -2), 3)], TODAY)).toBeNull()
+  })
+
+  it('needs five earlier streaks', () => {
+    expect(findLongStreak([...past.slice(1), ...streak(TODAY, 10)], TODAY)).toBeNull()
+  })
+})
+
+describe('getInsights', () => {
+  it('returns nothing without data', () => {
+    expect(getInsights([], TODAY)).toEqual([])
+  })
+
+  it('lists alerts before patterns', () => {
+    const days = [
+      ...sick(...weekly('2025-01-06', 14)),
+      ...streak('2026-01-05', 1),
+      ...streak('2026-02-05', 1),
+      ...streak('2026-03-05', 1),
+      ...streak('2026-04-05', 1),
+      ...streak(TODAY, 4),
+    ]
+    expect(getInsights(days, TODAY).map(insight => insight.kind)).toEqual(['streak', 'trend', 'seasonal', 'weekday'])
+  })
+})
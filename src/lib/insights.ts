@@ -0,0 +1,187 @@
+import { addDays, getDayOfWeek } from './dates'
+import { DAY_NAMES, findSickPeriods, type StatsDay } from './stats'
+
+// Plain-language observations about a user's whole history, for the insights
+// card. Every rule is a pure function of the sick days and today, so the same
+// history always gives the same insights, and each returns null when there is
+// too little data or nothing stands out.
+
+export type InsightKind = 'streak' | 'trend' | 'seasonal' | 'weekday'
+
+export interface Insight {
+  kind: InsightKind
+  alert: boolean // worth drawing attention to, not just interesting
+  message: string
+}
+
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec']
+
+// Seasons are any four consecutive months, wrapping from December to January.
+// Evenly spread sick days would put a third in each.
+export const SEASON_MONTHS = 4
+export const SEASONAL_MIN_SICK_DAYS = 10
+export const SEASONAL_MIN_SHARE = 0.5
+
+// The last 30 days against the rate over the 90 days before them
+export const TREND_RECENT_DAYS = 30
+export const TREND_BASELINE_DAYS = 90
+export const TREND_MIN_SICK_DAYS = 3
+export const TREND_MIN_RATIO = 2
+
+// Evenly spread sick days would put a seventh (14%) on each day of the week
+export const WEEKDAY_MIN_SICK_DAYS = 14
+export const WEEKDAY_MIN_SHARE = 0.25
+
+export const STREAK_PERCENTILE = 0.9
+export const STREAK_MIN_PAST_STREAKS = 5
+
+function percent(share: number): number {
+  return Math.round(share * 100)
+}
+
+function plural(count: number, word: string): string {
+  return `${count} ${word}${count === 1 ? '' : 's'}`
+}
+
+// Unique sick dates up to today, oldest first
+function getSickDates(days: StatsDay[], today: string): string[] {
+  const dates = new Set(days.filter(day => day.intensity > 0 && day.date <= today).map(day => day.date))
+  return Array.from(dates).sort()
+}
+
+// Nearest-rank percentile of a non-empty list
+function percentile(values: number[], fraction: number): number {
+  const sorted = [...values].sort((a, b) => a - b)
+  return sorted[Math.max(0, Math.ceil(fraction * sorted.length) - 1)]
+}
+
+// "62% of your sick days fall Nov–Feb". Needs a year of history, or every
+// short history would look seasonal.
+export function findSeasonalCluster(days: StatsDay[], today: string): Insight | null {
+  const dates = getSickDates(days, today)
+  if (dates.length < SEASONAL_MIN_SICK_DAYS || dates[0] > addDays(today, -365)) {
+    return null
+  }
+
+  const monthCounts = new Array(12).fill(0)
+  dates.forEach(date => {
+    monthCounts[Number(date.slice(5, 7)) - 1]++
+  })
+
+  // Ties go to the season starting earliest in the year
+  let bestStart = 0
+  let bestCount = -1
+  for (let start = 0; start < 12; start++) {
+    let count = 0
+    for (let offset = 0; offset < SEASON_MONTHS; offset++) {
+      count += monthCounts[(start + offset) % 12]
+    }
+    if (count > bestCount) {
+      bestStart = start
+      bestCount = count
+    }
+  }
+
+  const share = bestCount / dates.length
+  if (share < SEASONAL_MIN_SHARE) {
+    return null
+  }
+
+  const lastMonth = (bestStart + SEASON_MONTHS - 1) % 12
+  return {
+    kind: 'seasonal',
+    alert: false,
+    message: `${percent(share)}% of your sick days fall ${MONTH_NAMES[bestStart]}–${MONTH_NAMES[lastMonth]}.`,
+  }
+}
+
+// At least TREND_MIN_SICK_DAYS in the last 30 days and at least twice the
+// 30-day rate of the 90 days before
+export function findRisingTrend(days: StatsDay[], today: string): Insight | null {
+  const dates = getSickDates(days, today)
+  const recentStart = addDays(today, -(TREND_RECENT_DAYS - 1))
+  const baselineStart = addDays(recentStart, -TREND_BASELINE_DAYS)
+
+  const recent = dates.filter(date => date >= recentStart).length
+  const baseline = dates.filter(date => date >= baselineStart && date < recentStart).length
+  const baselineRate = baseline * TREND_RECENT_DAYS / TREND_BASELINE_DAYS
+
+  if (recent < TREND_MIN_SICK_DAYS || recent < baselineRate * TREND_MIN_RATIO) {
+    return null
+  }
+
+  return {
+    kind: 'trend',
+    alert: true,
+    message: baseline === 0
+      ? `${plural(recent, 'sick day')} in the last ${TREND_RECENT_DAYS} days, after none in the ${TREND_BASELINE_DAYS} days before.`
+      : `${plural(recent, 'sick day')} in the last ${TREND_RECENT_DAYS} days, up from about ${Math.round(baselineRate * 10) / 10} per ${TREND_RECENT_DAYS} days over the ${TREND_BASELINE_DAYS} days before.`,
+  }
+}
+
+// How far the most common day of the week is above an even spread
+export function findWeekdaySkew(days: StatsDay[], today: string): Insight | null {
+  const dates = getSickDates(days, today)
+  if (dates.length < WEEKDAY_MIN_SICK_DAYS) {
+    return null
+  }
+
+  const dayCounts = new Array(7).fill(0)
+  dates.forEach(date => {
+    dayCounts[getDayOfWeek(date)]++
+  })
+
+  // Ties go to the earliest day in the week, as in mostCommonDay
+  const maxCount = Math.max(...dayCounts)
+  const share = maxCount / dates.length
+  if (share < WEEKDAY_MIN_SHARE) {
+    return null
+  }
+
+  return {
+    kind: 'weekday',
+    alert: false,
+    message: `${DAY_NAMES[dayCounts.indexOf(maxCount)]}s account for ${percent(share)}% of your sick days, against ${percent(1 / 7)}% if they were spread evenly.`,
+  }
+}
+
+// The current streak, counted like currentStreak in the stats, against the
+// lengths of the user's earlier streaks
+export function findLongStreak(days: StatsDay[], today: string): Insight | null {
+  const dates = getSickDates(days, today)
+  if (dates.length === 0) {
+    return null
+  }
+
+  const periods = findSickPeriods(days, { startDate: dates[0], endDate: today })
+  const current = periods[periods.length - 1]
+  if (current.endDate < addDays(today, -1)) {
+    return null
+  }
+
+  const pastLengths = periods.slice(0, -1).map(period => period.length)
+  if (pastLengths.length < STREAK_MIN_PAST_STREAKS) {
+    return null
+  }
+
+  const usual = percentile(pastLengths, STREAK_PERCENTILE)
+  if (current.length <= usual) {
+    return null
+  }
+
+  return {
+    kind: 'streak',
+    alert: true,
+    message: `You have been sick ${plural(current.length, 'day')} in a row, longer than ${percent(STREAK_PERCENTILE)}% of your past streaks (up to ${plural(usual, 'day')}).`,
+  }
+}
+
+// Alerts first, then patterns
+export function getInsights(days: StatsDay[], today: string): Insight[] {
+  return [
+    findLongStreak(days, today),
+    findRisingTrend(days, today),
+    findSeasonalCluster(days, today),
+    findWeekdaySkew(days, today),
+  ].filter((insight): insight is Insight => insight !== null)
+}
@@ -0,0 +1,83 @@
+// Wording for each intensity level, shared by the legend, the day editor,
+// tooltips, screen-reader labels, exports and stats so they never drift apart.
+//
+// Users pick a 3- or 5-level scale and may rename the levels, for example to
+// track flare severity. Intensities always run from 0 (not sick) to
+// levels - 1; the theme colors are spread across whichever scale is in use.
+
+export type ScaleSize = 3 | 5
+
+export const SCALE_SIZES: ScaleSize[] = [3, 5]
+
+export interface IntensityScale {
+  levels: ScaleSize
+  labels: string[] // one per level, index is the intensity
+}
+
+export const DEFAULT_LABELS: Record<ScaleSize, string[]> = {
+  5: ['Feeling great', 'Slightly unwell', 'Moderately sick', 'Quite unwell', 'Very sick'],
+  3: ['Feeling great', 'Unwell', 'Very sick'],
+}
+
+export const DEFAULT_SCALE: IntensityScale = { levels: 5, labels: DEFAULT_LABELS[5] }
+
+export const MAX_LABEL_LENGTH = 40
+
+// Number of colors in a theme, see src/lib/themes.ts
+const COLOR_LEVELS = 5
+
+export function isScaleSize(value: unknown): value is ScaleSize {
+  return SCALE_SIZES.includes(value as ScaleSize)
+}
+
+// Builds the scale from the users.intensity_levels and intensity_labels
+// columns. Missing or unusable labels fall back to the defaults.
+export function getIntensityScale(levels: unknown, labels: unknown): IntensityScale {
+  const size = isScaleSize(levels) ? levels : DEFAULT_SCALE.levels
+  const custom = Array.isArray(labels) && labels.length === size && labels.every(label => typeof label === 'string' && label.trim())
+  return { levels: size, labels: custom ? labels : DEFAULT_LABELS[size] }
+}
+
+// Returns an error message, or null when the labels fit the scale
+export function validateIntensityLabels(labels: unknown, levels: ScaleSize): string | null {
+  if (!Array.isArray(labels) || labels.length !== levels) {
+    return `Provide exactly ${levels} labels`
+  }
+  if (labels.some(label => typeof label !== 'string' || !label.trim())) {
+    return 'Labels cannot be empty'
+  }
+  if (labels.some(label => label.trim().length > MAX_LABEL_LENGTH)) {
+    return `Labels can be at most ${MAX_LABEL_LENGTH} characters`
+  }
+  return null
+}
+
+export function getMaxIntensity(scale: IntensityScale = DEFAULT_SCALE): number {
+  return scale.levels - 1
+}
+
+export function getIntensityLevels(scale: IntensityScale = DEFAULT_SCALE): { value: number; label: string }[] {
+  return scale.labels.map((label, value) => ({ value, label }))
+}
+
+export function getIntensityLabel(intensity: number, scale: IntensityScale = DEFAULT_SCALE): string {
+  return scale.labels[intensity] ?? `Intensity ${intensity}`
+}
+
+// "2 - Moderately sick", the form the legend uses
+export function formatIntensity(intensity: number, scale: IntensityScale = DEFAULT_SCALE): string {
+  return `${intensity} - ${getIntensityLabel(intensity, scale)}`
+}
+
+// Maps an intensity onto the theme's five colors, so the top of a 3-level
+// scale is as dark as the top of a 5-level one
+export function toColorLevel(intensity: number, scale: IntensityScale = DEFAULT_SCALE): number {
+  const max = getMaxIntensity(scale)
+  return Math.round((Math.min(intensity, max) * (COLOR_LEVELS - 1)) / max)
+}
+
+// Converts a logged intensity when the user switches scales. Any sick day
+// stays a sick day: 5 to 3 levels maps 1-2 to 1 and 3-4 to 2.
+export function rescaleIntensity(intensity: number, from: ScaleSize, to: ScaleSize): number {
+  return Math.round((intensity * (to - 1)) / (from - 1))
+}
@@ -0,0 +1,137 @@
+import type { PoolClient } from 'pg'
+import { pool } from './database'
+import { migrations } from './migrations'
+
+export interface SchemaStatus {
+  currentVersion: number
+  latestVersion: number
+  pending: { version: number; name: string }[]
+}
+
+export class SchemaOutdatedError extends Error {
+  constructor(status: SchemaStatus) {
+    super(
+      `Database schema is at version ${status.currentVersion} but the app needs ${status.latestVersion}. ` +
+      'Run `npm run db:migrate` before starting the server.'
+    )
+    this.name = 'SchemaOutdatedError'
+  }
+}
+
+// Arbitrary key so only one process migrates at a time
+const MIGRATION_LOCK_KEY = 7_384_201
+
+async function ensureMigrationsTable(client: PoolClient) {
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TIMESTAMP DEFAULT NOW()
+    )
+  `)
+}
+
+async function getAppliedVersions(client: PoolClient): Promise<number[]> {
+  const result = await client.query('SELECT version FROM schema_migrations ORDER BY version')
+  return result.rows.map((row: { version: number }) => row.version)
+}
+
+async function withMigrationLock<T>(run: (client: PoolClient) => Promise<T>): Promise<T> {
+  const client = await pool.connect()
+  try {
+    await client.query('SELECT pg_advisory_lock($1)', [MIGRATION_LOCK_KEY])
+    try {
+      await ensureMigrationsTable(client)
+      return await run(client)
+    } finally {
+      await client.query('SELECT pg_advisory_unlock($1)', [MIGRATION_LOCK_KEY])
+    }
+  } finally {
+    client.release()
+  }
+}
+
+export async function getSchemaStatus(): Promise<SchemaStatus> {
+  const client = await pool.connect()
+  try {
+    const table = await client.query("SELECT to_regclass('schema_migrations') AS name")
+    const applied = table.rows[0].name ? await getAppliedVersions(client) : []
+    const pending = migrations
+      .filter(migration => !applied.includes(migration.version))
+      .map(({ version, name }) => ({ version, name }))
+
+    return {
+      currentVersion: applied.length > 0 ? applied[applied.length - 1] : 0,
+      latestVersion: migrations[migrations.length - 1].version,
+      pending
+    }
+  } finally {
+    client.release()
+  }
+}
+
+export async function assertSchemaCurrent() {
+  const status = await getSchemaStatus()
+  if (status.pending.length > 0) {
+    throw new SchemaOutdatedError(status)
+  }
+}
+
+// Applies pending migrations in order, up to and including targetVersion when given
+export async function migrateUp(targetVersion?: number): Promise<number[]> {
+  return withMigrationLock(async client => {
+    const applied = await getAppliedVersions(client)
+    const toApply = migrations.filter(migration =>
+      !applied.includes(migration.version) &&
+      (targetVersion === undefined || migration.version <= targetVersion)
+    )
+
+    for (const migration of toApply) {
+      await client.query('BEGIN')
+      try {
+        await migration.up(client)
+        await client.query(
+          'INSERT INTO schema_migrations (version, name) VALUES ($1, $2)',
+          [migration.version, migration.name]
+        )
+        await client.query('COMMIT')
+        console.log(`Applied migration ${migration.version}_${migration.name}`)
+      } catch (error) {
+        await client.query('ROLLBACK')
+        console.error(`Error applying migration ${migration.version}_${migration.name}:`, error)
+        throw error
+      }
+    }
+
+    return toApply.map(migration => migration.version)
+  })
+}
+
+// Reverts the most recently applied migrations, newest first
+export async function migrateDown(steps = 1): Promise<number[]> {
+  return withMigrationLock(async client => {
+    const applied = await getAppliedVersions(client)
+    const toRevert = applied.slice(-steps).reverse()
+
+    for (const version of toRevert) {
+      const migration = migrations.find(candidate => candidate.version === version)
+      if (!migration) {
+        throw new Error(`Migration ${version} is recorded in the database but missing from the codebase`)
+      }
+
+      await client.query('BEGIN')
+      try {
+        await migration.down(client)
+        await client.query('DELETE FROM schema_migrations WHERE version = $1', [version])
+        await client.query('COMMIT')
+        console.log(`Reverted migration ${migration.version}_${migration.name}`)
+      } catch (error) {
+        await client.query('ROLLBACK')
+        console.error(`Error reverting migration ${migration.version}_${migration.name}:`, error)
+        throw error
+      }
+    }
+
+    return toRevert
+  })
+}
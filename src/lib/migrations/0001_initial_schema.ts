@@ -0,0 +1,50 @@
+import type { Migration } from './index'
+
+// Tables as initializeDatabase used to create them. IF NOT EXISTS lets databases
+// that were set up through /api/init-db adopt the migration history.
+const migration: Migration = {
+  version: 1,
+  name: 'initial_schema',
+
+  async up(client) {
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS users (
+        id TEXT PRIMARY KEY,
+        email TEXT UNIQUE,
+        name TEXT,
+        image TEXT,
+        username TEXT UNIQUE,
+        is_public BOOLEAN DEFAULT FALSE,
+        created_at TIMESTAMP DEFAULT NOW(),
+        updated_at TIMESTAMP DEFAULT NOW()
+      )
+    `)
+
+    // Databases created before usernames existed lack these columns
+    await client.query(`
+      ALTER TABLE users
+      ADD COLUMN IF NOT EXISTS username TEXT UNIQUE,
+      ADD COLUMN IF NOT EXISTS is_public BOOLEAN DEFAULT FALSE
+    `)
+
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS user_grids (
+        id SERIAL PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        date DATE NOT NULL,
+        intensity INTEGER NOT NULL DEFAULT 0 CHECK (intensity >= 0 AND intensity <= 4),
+        created_at TIMESTAMP DEFAULT NOW(),
+        updated_at TIMESTAMP DEFAULT NOW(),
+        UNIQUE(user_id, date),
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+      )
+    `)
+  },
+
+  async down(client) {
+    await client.query('DROP TABLE IF EXISTS user_grids')
+    await client.query('DROP TABLE IF EXISTS users')
+  },
+}
+
+export default migration
@@ -0,0 +1,77 @@
+import type { Migration } from './index'
+
+// The backfill below is a frozen copy of the username rules as they were when
+// this migration was written. It must not import app code: the app's queries
+// select columns that later migrations add, and its rules may change.
+
+const MAX_LENGTH = 30
+const PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/
+const RESERVED = new Set([
+  'about', 'admin', 'api', 'app', 'auth', 'help', 'login', 'logout', 'me', 'new', 'privacy',
+  'root', 'settings', 'signin', 'signout', 'sicksquares', 'support', 'system', 'terms', 'u',
+  'user', 'users',
+])
+
+function isValid(username: string): boolean {
+  return username.length >= 3 && username.length <= MAX_LENGTH && PATTERN.test(username) && !RESERVED.has(username)
+}
+
+function toBase(raw: string): string {
+  return raw
+    .toLowerCase()
+    .replace(/[^a-z0-9-]/g, '-')
+    .replace(/-+/g, '-')
+    .replace(/^-|-$/g, '')
+    .slice(0, MAX_LENGTH)
+    .replace(/-$/, '')
+}
+
+function withSuffix(base: string, suffix: number): string {
+  const tail = `-${suffix}`
+  return `${base.slice(0, MAX_LENGTH - tail.length).replace(/-$/, '')}${tail}`
+}
+
+const migration: Migration = {
+  version: 2,
+  name: 'username_adjusted',
+
+  async up(client) {
+    await client.query(`
+      ALTER TABLE users
+      ADD COLUMN IF NOT EXISTS username_adjusted BOOLEAN DEFAULT FALSE
+    `)
+
+    // Give accounts that predate generated usernames one now: their email's
+    // local part if it is free and valid, otherwise the first free numbered variant
+    const missingUsernames = await client.query(
+      'SELECT id, email FROM users WHERE username IS NULL ORDER BY created_at, id'
+    )
+    for (const row of missingUsernames.rows as { id: string; email: string | null }[]) {
+      const expected = row.email ? toBase(row.email.split('@')[0]) : ''
+      const base = expected || 'user'
+
+      const isFree = async (candidate: string) =>
+        (await client.query('SELECT 1 FROM users WHERE username = $1', [candidate])).rows.length === 0
+
+      let username = isValid(base) && await isFree(base) ? base : null
+      for (let suffix = 2; !username; suffix++) {
+        const candidate = withSuffix(base, suffix)
+        if (isValid(candidate) && await isFree(candidate)) {
+          username = candidate
+        }
+      }
+
+      await client.query(
+        `UPDATE users SET username = $2, username_adjusted = $3, updated_at = NOW()
+         WHERE id = $1 AND username IS NULL`,
+        [row.id, username, row.email ? username !== expected : false]
+      )
+    }
+  },
+
+  async down(client) {
+    await client.query('ALTER TABLE users DROP COLUMN IF EXISTS username_adjusted')
+  },
+}
+
+export default migration
@@ -0,0 +1,38 @@
+import type { Migration } from './index'
+
+const migration: Migration = {
+  version: 3,
+  name: 'day_details',
+
+  async up(client) {
+    await client.query('ALTER TABLE user_grids ADD COLUMN IF NOT EXISTS notes TEXT')
+
+    // Tags a user has created beyond the built-in symptom list
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS user_tags (
+        user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        name TEXT NOT NULL,
+        created_at TIMESTAMP DEFAULT NOW(),
+        PRIMARY KEY (user_id, name)
+      )
+    `)
+
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS user_grid_tags (
+        user_id TEXT NOT NULL,
+        date DATE NOT NULL,
+        tag TEXT NOT NULL,
+        PRIMARY KEY (user_id, date, tag),
+        FOREIGN KEY (user_id, date) REFERENCES user_grids(user_id, date) ON DELETE CASCADE
+      )
+    `)
+  },
+
+  async down(client) {
+    await client.query('DROP TABLE IF EXISTS user_grid_tags')
+    await client.query('DROP TABLE IF EXISTS user_tags')
+    await client.query('ALTER TABLE user_grids DROP COLUMN IF EXISTS notes')
+  },
+}
+
+export default migration
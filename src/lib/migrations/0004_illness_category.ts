@@ -0,0 +1,16 @@
+import type { Migration } from './index'
+
+const migration: Migration = {
+  version: 4,
+  name: 'illness_category',
+
+  async up(client) {
+    await client.query('ALTER TABLE user_grids ADD COLUMN IF NOT EXISTS category TEXT')
+  },
+
+  async down(client) {
+    await client.query('ALTER TABLE user_grids DROP COLUMN IF EXISTS category')
+  },
+}
+
+export default migration
@@ -0,0 +1,17 @@
+import type { Migration } from './index'
+
+// NULL means the user has not picked a timezone yet; the app falls back to UTC
+const migration: Migration = {
+  version: 5,
+  name: 'user_timezone',
+
+  async up(client) {
+    await client.query('ALTER TABLE users ADD COLUMN IF NOT EXISTS timezone TEXT')
+  },
+
+  async down(client) {
+    await client.query('ALTER TABLE users DROP COLUMN IF EXISTS timezone')
+  },
+}
+
+export default migration
@@ -0,0 +1,18 @@
+import type { Migration } from './index'
+
+// Secret token for the calendar subscription feed. NULL means no feed; a new
+// token replaces the old one, which stops working immediately.
+const migration: Migration = {
+  version: 6,
+  name: 'calendar_token',
+
+  async up(client) {
+    await client.query('ALTER TABLE users ADD COLUMN IF NOT EXISTS calendar_token TEXT UNIQUE')
+  },
+
+  async down(client) {
+    await client.query('ALTER TABLE users DROP COLUMN IF EXISTS calendar_token')
+  },
+}
+
+export default migration
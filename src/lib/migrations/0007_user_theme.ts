@@ -0,0 +1,18 @@
+import type { Migration } from './index'
+
+// Id of the intensity color theme from src/lib/themes.ts. NULL means the
+// default theme, so new themes can become the default without a backfill.
+const migration: Migration = {
+  version: 7,
+  name: 'user_theme',
+
+  async up(client) {
+    await client.query('ALTER TABLE users ADD COLUMN IF NOT EXISTS theme TEXT')
+  },
+
+  async down(client) {
+    await client.query('ALTER TABLE users DROP COLUMN IF EXISTS theme')
+  },
+}
+
+export default migration
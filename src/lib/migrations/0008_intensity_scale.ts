@@ -0,0 +1,28 @@
+import type { Migration } from './index'
+
+// Per-user intensity scale: 3 or 5 levels, optionally with custom labels
+// (a JSON array, one per level; NULL means the default wording). The CHECK on
+// user_grids.intensity stays at 0-4, the largest scale; the API keeps each
+// user's days within their own scale.
+const migration: Migration = {
+  version: 8,
+  name: 'intensity_scale',
+
+  async up(client) {
+    await client.query(`
+      ALTER TABLE users
+        ADD COLUMN IF NOT EXISTS intensity_levels INTEGER NOT NULL DEFAULT 5 CHECK (intensity_levels IN (3, 5)),
+        ADD COLUMN IF NOT EXISTS intensity_labels JSONB
+    `)
+  },
+
+  async down(client) {
+    await client.query(`
+      ALTER TABLE users
+        DROP COLUMN IF EXISTS intensity_labels,
+        DROP COLUMN IF EXISTS intensity_levels
+    `)
+  },
+}
+
+export default migration
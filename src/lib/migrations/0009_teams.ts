@@ -0,0 +1,56 @@
+import type { Migration } from './index'
+
+// Team workspaces. Members share nothing until they pick a share mode for the
+// team: 'anonymized' counts them in the team grid, 'full' also shows their own
+// grid to teammates. Invites name either an existing user or an email address
+// that has not signed up yet.
+const migration: Migration = {
+  version: 9,
+  name: 'teams',
+
+  async up(client) {
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS teams (
+        id SERIAL PRIMARY KEY,
+        name TEXT NOT NULL,
+        created_at TIMESTAMP DEFAULT NOW(),
+        updated_at TIMESTAMP DEFAULT NOW()
+      )
+    `)
+
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS team_members (
+        team_id INTEGER NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+        user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        role TEXT NOT NULL DEFAULT 'member' CHECK (role IN ('owner', 'admin', 'member')),
+        share_mode TEXT NOT NULL DEFAULT 'none' CHECK (share_mode IN ('none', 'anonymized', 'full')),
+        created_at TIMESTAMP DEFAULT NOW(),
+        PRIMARY KEY (team_id, user_id)
+      )
+    `)
+    await client.query('CREATE INDEX IF NOT EXISTS team_members_user_id_idx ON team_members (user_id)')
+
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS team_invites (
+        id SERIAL PRIMARY KEY,
+        team_id INTEGER NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+        user_id TEXT REFERENCES users(id) ON DELETE CASCADE,
+        email TEXT,
+        role TEXT NOT NULL DEFAULT 'member' CHECK (role IN ('owner', 'admin', 'member')),
+        invited_by TEXT REFERENCES users(id) ON DELETE SET NULL,
+        created_at TIMESTAMP DEFAULT NOW(),
+        CHECK (user_id IS NOT NULL OR email IS NOT NULL)
+      )
+    `)
+    await client.query('CREATE UNIQUE INDEX IF NOT EXISTS team_invites_user_idx ON team_invites (team_id, user_id)')
+    await client.query('CREATE UNIQUE INDEX IF NOT EXISTS team_invites_email_idx ON team_invites (team_id, email)')
+  },
+
+  async down(client) {
+    await client.query('DROP TABLE IF EXISTS team_invites')
+    await client.query('DROP TABLE IF EXISTS team_members')
+    await client.query('DROP TABLE IF EXISTS teams')
+  },
+}
+
+export default migration
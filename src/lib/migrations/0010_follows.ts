@@ -0,0 +1,31 @@
+import type { Migration } from './index'
+
+// Who follows whose public grid, and whether a user lets their followers see
+// weekly activity in the feed (off until they turn it on). A follow outlives
+// its target going private; src/lib/access.ts decides what it still shows.
+const migration: Migration = {
+  version: 10,
+  name: 'follows',
+
+  async up(client) {
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS follows (
+        follower_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        followee_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        created_at TIMESTAMP DEFAULT NOW(),
+        PRIMARY KEY (follower_id, followee_id),
+        CHECK (follower_id <> followee_id)
+      )
+    `)
+    await client.query('CREATE INDEX IF NOT EXISTS follows_followee_id_idx ON follows (followee_id)')
+
+    await client.query('ALTER TABLE users ADD COLUMN IF NOT EXISTS share_activity BOOLEAN NOT NULL DEFAULT FALSE')
+  },
+
+  async down(client) {
+    await client.query('ALTER TABLE users DROP COLUMN IF EXISTS share_activity')
+    await client.query('DROP TABLE IF EXISTS follows')
+  },
+}
+
+export default migration
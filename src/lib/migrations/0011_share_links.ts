@@ -0,0 +1,35 @@
+import type { Migration } from './index'
+
+// Revocable links to part of a grid, for sharing with a doctor or employer
+// without making the profile public. The range is fixed when the link is made;
+// revoking deletes the row.
+const migration: Migration = {
+  version: 11,
+  name: 'share_links',
+
+  async up(client) {
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS share_links (
+        id SERIAL PRIMARY KEY,
+        user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        token TEXT NOT NULL UNIQUE,
+        label TEXT,
+        start_date DATE NOT NULL,
+        end_date DATE NOT NULL,
+        expires_at TIMESTAMP,
+        hide_notes BOOLEAN NOT NULL DEFAULT TRUE,
+        view_count INTEGER NOT NULL DEFAULT 0,
+        last_viewed_at TIMESTAMP,
+        created_at TIMESTAMP DEFAULT NOW(),
+        CHECK (start_date <= end_date)
+      )
+    `)
+    await client.query('CREATE INDEX IF NOT EXISTS share_links_user_id_idx ON share_links (user_id)')
+  },
+
+  async down(client) {
+    await client.query('DROP TABLE IF EXISTS share_links')
+  },
+}
+
+export default migration
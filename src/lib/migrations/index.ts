@@ -0,0 +1,35 @@
+import type { PoolClient } from 'pg'
+import initialSchema from './0001_initial_schema'
+import usernameAdjusted from './0002_username_adjusted'
+import dayDetails from './0003_day_details'
+import illnessCategory from './0004_illness_category'
+import userTimezone from './0005_user_timezone'
+import calendarToken from './0006_calendar_token'
+import userTheme from './0007_user_theme'
+import intensityScale from './0008_intensity_scale'
+import teams from './0009_teams'
+import follows from './0010_follows'
+import shareLinks from './0011_share_links'
+
+export interface Migration {
+  version: number
+  name: string
+  up(client: PoolClient): Promise<void>
+  down(client: PoolClient): Promise<void>
+}
+
+// Every schema change gets a new numbered file here. Never edit a migration
+// that has been deployed; add another one instead.
+export const migrations: Migration[] = [
+  initialSchema,
+  usernameAdjusted,
+  dayDetails,
+  illnessCategory,
+  userTimezone,
+  calendarToken,
+  userTheme,
+  intensityScale,
+  teams,
+  follows,
+  shareLinks,
+]
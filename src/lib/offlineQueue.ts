@@ -0,0 +1,71 @@
+// Grid edits waiting to reach the server, kept in IndexedDB so they survive a
+// reload or a closed tab. There is at most one edit per user and day: a newer
+// click on the same day replaces the queued one.
+
+export interface QueuedDetails {
+  notes: string | null
+  tags: string[]
+  category: string | null
+}
+
+export interface QueuedEdit {
+  owner: string // email of the signed-in user, so accounts never mix
+  date: string // YYYY-MM-DD
+  intensity: number
+  details?: QueuedDetails // set when saved from the details editor
+  // What the server had when the edit was made, for conflict checks
+  baseIntensity: number
+  baseDetails?: QueuedDetails
+  baseUpdatedAt: string | null // ISO timestamp, null if the day had no entry
+  editedAt: string // ISO timestamp of the click
+}
+
+const DB_NAME = 'sick-squares'
+const DB_VERSION = 1
+const STORE = 'grid-edits'
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE, { keyPath: ['owner', 'date'] })
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDatabase()
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(STORE, mode)
+      const request = run(transaction.objectStore(STORE))
+      transaction.oncomplete = () => resolve(request.result)
+      transaction.onerror = () => reject(transaction.error)
+    })
+  } finally {
+    db.close()
+  }
+}
+
+// Private browsing in some browsers has no IndexedDB; edits then only live in memory
+export function isQueueAvailable(): boolean {
+  return typeof indexedDB !== 'undefined'
+}
+
+export async function getQueuedEdits(owner: string): Promise<QueuedEdit[]> {
+  if (!isQueueAvailable()) return []
+  const edits = await withStore<QueuedEdit[]>('readonly', store => store.getAll())
+  return edits.filter(edit => edit.owner === owner)
+}
+
+export async function putQueuedEdit(edit: QueuedEdit): Promise<void> {
+  if (!isQueueAvailable()) return
+  await withStore('readwrite', store => store.put(edit))
+}
+
+export async function deleteQueuedEdit(owner: string, date: string): Promise<void> {
+  if (!isQueueAvailable()) return
+  await withStore('readwrite', store => store.delete([owner, date]))
+}
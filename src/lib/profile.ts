@@ -0,0 +1,27 @@
+import { cache } from 'react'
+import { canViewGrid } from './access'
+import { getUserByUsername, getUserStatsByDateRange, type User } from './database'
+import { getRolling12MonthRange, getTodayInTimeZone, DEFAULT_TIMEZONE } from './dates'
+import type { UserStats } from './stats'
+
+// Lookups for /u/[username], shared by the page, its metadata and its share
+// image. cache() runs each once per request however many of those ask.
+
+// Private and missing profiles both come back as null, so callers cannot tell
+// them apart
+export const getPublicProfile = cache(async (username: string): Promise<User | null> => {
+  const user = await getUserByUsername(decodeURIComponent(username).toLowerCase())
+  // Rendered for anyone and cached by crawlers, so always checked as a stranger
+  return user && canViewGrid(user, null) ? user : null
+})
+
+// The last 12 months as the owner sees them, in their timezone
+export function getProfileRange(user: User): { today: string; startDate: string; endDate: string } {
+  const today = getTodayInTimeZone(user.timezone || DEFAULT_TIMEZONE)
+  return { today, ...getRolling12MonthRange(today) }
+}
+
+export const getProfileStats = cache(async (user: User): Promise<UserStats> => {
+  const { startDate, endDate } = getProfileRange(user)
+  return getUserStatsByDateRange(user.id, startDate, endDate)
+})
@@ -25,4 +25,10 @@ export function rateLimit(identifier: string, maxRequests = 60, windowMs = 60000
   requests.set(identifier, userRequests)
   
   return userRequests.count <= maxRequests
-}
\ No newline at end of file
+}
+// Best guess at who is calling, for limits on routes anyone can hit without
+// signing in. Behind a proxy the first x-forwarded-for entry is the client.
+export function getClientIp(headers: Headers): string {
+  const forwarded = headers.get('x-forwarded-for')?.split(',')[0].trim()
+  return forwarded || headers.get('x-real-ip') || 'unknown'
+}
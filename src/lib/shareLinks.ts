@@ -0,0 +1,62 @@
+import { addDays, isValidDateKey, toDayNumber } from './dates'
+
+// Rules for share links, shared by the settings form and the share-links API.
+// A link shows a fixed range of the owner's grid to anyone holding its URL,
+// until it expires or is revoked.
+
+export const SHARE_LINK_LABEL_MAX_LENGTH = 60
+
+export const MAX_SHARE_LINKS = 20
+
+// About as much as the grid shows on a profile
+export const MAX_SHARE_RANGE_DAYS = 366
+
+export const SHARE_RANGE_PRESETS = [
+  { days: 30, label: 'Last 30 days' },
+  { days: 90, label: 'Last 90 days' },
+  { days: 365, label: 'Last 12 months' },
+]
+
+// null never expires
+export const SHARE_EXPIRY_OPTIONS: { days: number | null; label: string }[] = [
+  { days: null, label: 'Never' },
+  { days: 7, label: 'After 7 days' },
+  { days: 30, label: 'After 30 days' },
+  { days: 90, label: 'After 90 days' },
+]
+
+export function isShareExpiryDays(value: unknown): value is number | null {
+  return SHARE_EXPIRY_OPTIONS.some(option => option.days === value)
+}
+
+// The given number of days ending today
+export function getPresetRange(days: number, today: string): { startDate: string; endDate: string } {
+  return { startDate: addDays(today, -(days - 1)), endDate: today }
+}
+
+// Returns an error message, or null when the (trimmed) label is acceptable.
+// Labels are optional and only shown to the owner.
+export function validateShareLinkLabel(label: string): string | null {
+  if (label.length > SHARE_LINK_LABEL_MAX_LENGTH) {
+    return `Labels can be at most ${SHARE_LINK_LABEL_MAX_LENGTH} characters`
+  }
+  return null
+}
+
+// Returns an error message, or null for a range of past days no longer than
+// MAX_SHARE_RANGE_DAYS
+export function validateShareRange(startDate: string, endDate: string, today: string): string | null {
+  if (!isValidDateKey(startDate) || !isValidDateKey(endDate)) {
+    return 'Choose a start and end date'
+  }
+  if (startDate > endDate) {
+    return 'The start date must be before the end date'
+  }
+  if (endDate > today) {
+    return 'Links can only share days up to today'
+  }
+  if (toDayNumber(endDate) - toDayNumber(startDate) + 1 > MAX_SHARE_RANGE_DAYS) {
+    return `Links can share at most ${MAX_SHARE_RANGE_DAYS} days`
+  }
+  return null
+}
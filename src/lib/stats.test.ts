@@ -0,0 +1,149 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { computeStats, findSickPeriods, type StatsDay } from './stats'
+
+const sick = (...dates: string[]): StatsDay[] => dates.map(date => ({ date, intensity: 2 }))
+
+const YEAR_2025 = { startDate: '2025-01-01', endDate: '2025-12-31' }
+
+describe('computeStats', () => {
+  describe('empty ranges', () => {
+    it('reports zeros when nothing is logged', () => {
+      expect(computeStats([], YEAR_2025, '2025-06-30')).toEqual({
+        totalSickDays: 0,
+        percentageOfYear: 0,
+        yearToDatePercentage: 0,
+        averageIntensity: 0,
+        mostCommonDay: 'None',
+        recoveryRate: 0,
+        currentStreak: 0,
+        longestStreak: 0,
+        averageSickStreak: 0,
+      })
+    })
+
+    it('ignores days outside the range and healthy days', () => {
+      const days = [...sick('2024-12-31', '2026-01-01'), { date: '2025-03-03', intensity: 0 }]
+      const stats = computeStats(days, YEAR_2025, '2025-06-30')
+      expect(stats.totalSickDays).toBe(0)
+      expect(stats.longestStreak).toBe(0)
+      expect(stats.mostCommonDay).toBe('None')
+    })
+
+    it('does not divide by zero for a range that ends before it starts', () => {
+      const stats = computeStats(sick('2025-03-03'), { startDate: '2025-03-05', endDate: '2025-03-04' }, '2025-06-30')
+      expect(stats.totalSickDays).toBe(0)
+      expect(stats.percentageOfYear).toBe(0)
+    })
+  })
+
+  describe('leap years', () => {
+    it('divides by 366 days in a leap year', () => {
+      const stats = computeStats(sick('2024-02-29'), { startDate: '2024-01-01', endDate: '2024-12-31' }, '2024-12-31')
+      expect(stats.totalSickDays).toBe(1)
+      expect(stats.percentageOfYear).toBe(0.27)
+    })
+
+    it('runs a streak through Feb 29', () => {
+      const range = { startDate: '2024-01-01', endDate: '2024-12-31' }
+      const stats = computeStats(sick('2024-02-28', '2024-02-29', '2024-03-01'), range, '2024-12-31')
+      expect(stats.longestStreak).toBe(3)
+    })
+
+    it('runs a streak from Feb 28 to Mar 1 in a common year', () => {
+      const stats = computeStats(sick('2025-02-28', '2025-03-01'), YEAR_2025, '2025-12-31')
+      expect(stats.longestStreak).toBe(2)
+      expect(stats.recoveryRate).toBe(0)
+    })
+
+    it('counts year to date from Jan 1 including Feb 29', () => {
+      const stats = computeStats(sick('2024-01-10', '2024-02-29'), { startDate: '2024-01-01', endDate: '2024-12-31' }, '2024-03-01')
+      // Jan 1 to Mar 1 2024 is 61 days
+      expect(stats.yearToDatePercentage).toBe(3.28)
+    })
+  })
+
+  describe('DST boundaries', () => {
+    const originalTimeZone = process.env.TZ
+
+    beforeEach(() => {
+      process.env.TZ = 'America/New_York'
+    })
+
+    afterEach(() => {
+      if (originalTimeZone === undefined) delete process.env.TZ
+      else process.env.TZ = originalTimeZone
+    })
+
+    it('keeps a streak across the spring-forward night', () => {
+      const stats = computeStats(sick('2025-03-08', '2025-03-09', '2025-03-10'), YEAR_2025, '2025-12-31')
+      expect(stats.longestStreak).toBe(3)
+      expect(stats.totalSickDays).toBe(3)
+    })
+
+    it('keeps a streak across the fall-back night', () => {
+      const stats = computeStats(sick('2025-11-01', '2025-11-02', '2025-11-03'), YEAR_2025, '2025-12-31')
+      expect(stats.longestStreak).toBe(3)
+    })
+
+    it('measures recovery gaps across a transition in whole days', () => {
+      const stats = computeStats(sick('2025-03-07', '2025-03-11'), YEAR_2025, '2025-12-31')
+      expect(stats.recoveryRate).toBe(3)
+    })
+
+    it('keeps the current streak going when today is the day after a transition', () => {
+      const stats = computeStats(sick('2025-03-08', '2025-03-09'), YEAR_2025, '2025-03-10')
+      expect(stats.currentStreak).toBe(2)
+    })
+  })
+
+  describe('streaks crossing the range edge', () => {
+    const days = sick('2024-12-30', '2024-12-31', '2025-01-01', '2025-01-02', '2025-01-03')
+
+    it('clips a streak at the start of the range', () => {
+      const stats = computeStats(days, YEAR_2025, '2025-12-31')
+      expect(stats.totalSickDays).toBe(3)
+      expect(stats.longestStreak).toBe(3)
+      expect(findSickPeriods(days, YEAR_2025)).toEqual([
+        { startDate: '2025-01-01', endDate: '2025-01-03', length: 3 },
+      ])
+    })
+
+    it('clips a streak at the end of the range', () => {
+      const stats = computeStats(days, { startDate: '2024-01-01', endDate: '2024-12-31' }, '2025-01-03')
+      expect(stats.totalSickDays).toBe(2)
+      expect(stats.longestStreak).toBe(2)
+    })
+
+    it('only reports a current streak that reaches today or yesterday', () => {
+      expect(computeStats(days, YEAR_2025, '2025-01-04').currentStreak).toBe(3)
+      expect(computeStats(days, YEAR_2025, '2025-01-05').currentStreak).toBe(0)
+    })
+  })
+
+  describe('patterns', () => {
+    it('averages recovery gaps, streak lengths and intensities', () => {
+      const days = [
+        { date: '2025-01-01', intensity: 1 },
+        { date: '2025-01-02', intensity: 3 },
+        { date: '2025-01-05', intensity: 2 },
+        { date: '2025-01-10', intensity: 4 },
+        { date: '2025-01-11', intensity: 4 },
+      ]
+      const stats = computeStats(days, YEAR_2025, '2025-12-31')
+      expect(stats.recoveryRate).toBe(3)
+      expect(stats.averageSickStreak).toBe(1.67)
+      expect(stats.averageIntensity).toBe(2.8)
+    })
+
+    it('breaks weekday ties in favour of the earliest day in the week', () => {
+      // A Monday and a Tuesday
+      const stats = computeStats(sick('2025-01-06', '2025-01-07'), YEAR_2025, '2025-12-31')
+      expect(stats.mostCommonDay).toBe('Monday')
+    })
+
+    it('counts a date logged twice once', () => {
+      const stats = computeStats(sick('2025-01-06', '2025-01-06'), YEAR_2025, '2025-12-31')
+      expect(stats.totalSickDays).toBe(1)
+    })
+  })
+})
@@ -0,0 +1,198 @@
+// Pure statistics engine. No database or clock access: callers pass the days,
+// the range to describe and what "today" is, all as YYYY-MM-DD strings.
+//
+// Semantics:
+// - Only days with intensity > 0 count as sick days.
+// - Range metrics (totals, percentages, streaks, patterns) only look at days
+//   inside the inclusive range. A streak crossing the range edge is clipped to
+//   the part inside the range.
+// - yearToDatePercentage always describes Jan 1 of today's year through today,
+//   whatever the range, so callers must include those days in `days` too.
+// - currentStreak is the last streak in the range if it ends today or yesterday.
+
+import { fromDayNumber, getDayOfWeek, toDayNumber } from './dates'
+
+export interface UserStats {
+  // Overall Stats
+  totalSickDays: number
+  percentageOfYear: number // Share of the requested range (rolling 12 months or a calendar year)
+  yearToDatePercentage: number // Jan 1 to today
+  averageIntensity: number
+  
+  // Pattern Stats
+  mostCommonDay: string
+  recoveryRate: number // Average days between sick periods
+  
+  // Streak Stats
+  currentStreak: number
+  longestStreak: number
+  averageSickStreak: number
+}
+
+export interface StatsDay {
+  date: string // YYYY-MM-DD
+  intensity: number
+}
+
+export interface DateRange {
+  startDate: string // YYYY-MM-DD, inclusive
+  endDate: string // YYYY-MM-DD, inclusive
+}
+
+export const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+function average(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0
+}
+
+// Unique sick days inside the range, oldest first
+function getSickDaysInRange(days: StatsDay[], range: DateRange): StatsDay[] {
+  const byDate = new Map<string, StatsDay>()
+  days.forEach(day => {
+    if (day.intensity > 0 && day.date >= range.startDate && day.date <= range.endDate) {
+      byDate.set(day.date, day)
+    }
+  })
+  return Array.from(byDate.values()).sort((a, b) => a.date.localeCompare(b.date))
+}
+
+export interface SickPeriod {
+  startDate: string
+  endDate: string // inclusive
+  length: number
+}
+
+// Runs of consecutive sick days inside the range, oldest first
+export function findSickPeriods(days: StatsDay[], range: DateRange): SickPeriod[] {
+  const periods: SickPeriod[] = []
+  let previous: number | null = null
+
+  getSickDaysInRange(days, range).forEach(day => {
+    const dayNumber = toDayNumber(day.date)
+    const current = periods[periods.length - 1]
+    if (current && previous !== null && dayNumber - previous === 1) {
+      current.endDate = day.date
+      current.length++
+    } else {
+      periods.push({ startDate: day.date, endDate: day.date, length: 1 })
+    }
+    previous = dayNumber
+  })
+
+  return periods
+}
+
+export function computeStats(days: StatsDay[], range: DateRange, today: string): UserStats {
+  const sickDays = getSickDaysInRange(days, range)
+  const totalSickDays = sickDays.length
+
+  // Calculate percentage of the range (365 or 366 days for a year)
+  const daysInRange = Math.max(0, toDayNumber(range.endDate) - toDayNumber(range.startDate) + 1)
+  const percentageOfYear = daysInRange > 0 ? (totalSickDays / daysInRange) * 100 : 0
+
+  // Calculate year-to-date percentage (Jan 1 to today)
+  const yearStart = `${today.slice(0, 4)}-01-01`
+  const daysIntoYear = toDayNumber(today) - toDayNumber(yearStart) + 1
+  const yearToDateSickDays = getSickDaysInRange(days, { startDate: yearStart, endDate: today }).length
+  const yearToDatePercentage = (yearToDateSickDays / daysIntoYear) * 100
+
+  // Find most common day of week; ties go to the earliest day in the week
+  const dayCount = new Array(7).fill(0)
+  sickDays.forEach(day => {
+    dayCount[getDayOfWeek(day.date)]++
+  })
+  const maxCount = Math.max(...dayCount)
+  const mostCommonDay = maxCount > 0 ? DAY_NAMES[dayCount.indexOf(maxCount)] : 'None'
+
+  // Calculate streaks and recovery periods (gaps between streaks)
+  const periods = findSickPeriods(days, range)
+  const streaks = periods.map(period => period.length)
+  const recoveryPeriods = periods.slice(1).map((period, index) =>
+    toDayNumber(period.startDate) - toDayNumber(periods[index].endDate) - 1
+  )
+
+  const lastPeriod = periods[periods.length - 1]
+  const currentStreak = lastPeriod && toDayNumber(today) - toDayNumber(lastPeriod.endDate) <= 1
+    ? lastPeriod.length
+    : 0
+
+  const averageIntensity = average(sickDays.map(day => day.intensity))
+
+  return {
+    // Overall Stats
+    totalSickDays,
+    percentageOfYear: round2(percentageOfYear),
+    yearToDatePercentage: round2(yearToDatePercentage),
+    averageIntensity: round2(averageIntensity),
+    
+    // Pattern Stats
+    mostCommonDay,
+    recoveryRate: round2(average(recoveryPeriods)),
+    
+    // Streak Stats
+    currentStreak,
+    longestStreak: Math.max(0, ...streaks),
+    averageSickStreak: round2(average(streaks))
+  }
+}
+
+export interface MonthlyStats {
+  month: string // YYYY-MM
+  days: number // days of this month inside the range
+  sickDays: number
+  averageIntensity: number
+}
+
+// One entry per calendar month touched by the range, including months without
+// sick days. Partial months at the range edges only count their days inside it.
+export function computeMonthlyBreakdown(days: StatsDay[], range: DateRange): MonthlyStats[] {
+  const sickDays = getSickDaysInRange(days, range)
+  const months: MonthlyStats[] = []
+
+  let monthStart = range.startDate
+  while (monthStart <= range.endDate) {
+    const month = monthStart.slice(0, 7)
+    const [year, monthNumber] = month.split('-').map(Number)
+    const nextMonth = monthNumber === 12
+      ? `${year + 1}-01-01`
+      : `${year}-${String(monthNumber + 1).padStart(2, '0')}-01`
+    const monthEnd = nextMonth <= range.endDate ? fromDayNumber(toDayNumber(nextMonth) - 1) : range.endDate
+
+    const sickInMonth = sickDays.filter(day => day.date.startsWith(month))
+    months.push({
+      month,
+      days: toDayNumber(monthEnd) - toDayNumber(monthStart) + 1,
+      sickDays: sickInMonth.length,
+      averageIntensity: round2(average(sickInMonth.map(day => day.intensity))),
+    })
+
+    monthStart = nextMonth
+  }
+
+  return months
+}
+
+// Numeric metrics that can be compared between two ranges
+export type NumericStatKey = Exclude<keyof UserStats, 'mostCommonDay'>
+
+export const NUMERIC_STAT_KEYS: NumericStatKey[] = [
+  'totalSickDays',
+  'percentageOfYear',
+  'yearToDatePercentage',
+  'averageIntensity',
+  'recoveryRate',
+  'currentStreak',
+  'longestStreak',
+  'averageSickStreak',
+]
+
+// How `b` differs from `a` for every numeric metric (b - a)
+export function computeStatsDeltas(a: UserStats, b: UserStats): Record<NumericStatKey, number> {
+  return Object.fromEntries(
+    NUMERIC_STAT_KEYS.map(key => [key, round2(b[key] - a[key])])
+  ) as Record<NumericStatKey, number>
+}
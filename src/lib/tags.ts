@@ -0,0 +1,47 @@
+// Symptom tags offered to every user; anything else a user types becomes a custom tag
+export const SYMPTOM_TAGS = [
+  'fever',
+  'cold',
+  'flu',
+  'cough',
+  'sore-throat',
+  'headache',
+  'migraine',
+  'nausea',
+  'stomach',
+  'fatigue',
+  'allergies',
+  'injury',
+]
+
+export const MAX_TAG_LENGTH = 30
+export const MAX_TAGS_PER_DAY = 10
+export const MAX_NOTES_LENGTH = 2000
+
+const TAG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/
+
+// "Sore Throat " -> "sore-throat"
+export function normalizeTag(tag: string): string {
+  return tag
+    .trim()
+    .toLowerCase()
+    .replace(/[\s_]+/g, '-')
+    .replace(/-+/g, '-')
+}
+
+// Returns an error message, or null when the (normalized) tag is acceptable
+export function validateTag(tag: string): string | null {
+  if (tag.length === 0 || tag.length > MAX_TAG_LENGTH) {
+    return `Tags must be between 1 and ${MAX_TAG_LENGTH} characters`
+  }
+
+  if (!TAG_PATTERN.test(tag)) {
+    return 'Tags may only contain letters, numbers and hyphens'
+  }
+
+  return null
+}
+
+export function isSymptomTag(tag: string): boolean {
+  return SYMPTOM_TAGS.includes(tag)
+}
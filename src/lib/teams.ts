@@ -0,0 +1,87 @@
+import type { IntensityScale } from './intensity'
+
+// Team rules shared by the teams API and the team pages: roles, share modes,
+// and how the team grid turns "members out" into an intensity.
+
+export type TeamRole = 'owner' | 'admin' | 'member'
+
+export const TEAM_ROLES: TeamRole[] = ['owner', 'admin', 'member']
+
+export const TEAM_ROLE_LABELS: Record<TeamRole, string> = {
+  owner: 'Owner',
+  admin: 'Admin',
+  member: 'Member',
+}
+
+// What a member shows this team. Nobody shares anything until they choose to.
+export type ShareMode = 'none' | 'anonymized' | 'full'
+
+export const SHARE_MODES: ShareMode[] = ['none', 'anonymized', 'full']
+
+export const SHARE_MODE_LABELS: Record<ShareMode, { label: string; description: string }> = {
+  none: { label: 'Not shared', description: 'Left out of the team grid and stats' },
+  anonymized: { label: 'Anonymized', description: 'Counted in the team grid without your name' },
+  full: { label: 'Full', description: 'Counted, and teammates can see your own grid' },
+}
+
+export const TEAM_NAME_MAX_LENGTH = 60
+
+export function isTeamRole(value: unknown): value is TeamRole {
+  return TEAM_ROLES.includes(value as TeamRole)
+}
+
+export function isShareMode(value: unknown): value is ShareMode {
+  return SHARE_MODES.includes(value as ShareMode)
+}
+
+// Returns an error message, or null when the (trimmed) name is acceptable
+export function validateTeamName(name: string): string | null {
+  if (name.length === 0 || name.length > TEAM_NAME_MAX_LENGTH) {
+    return `Team names must be between 1 and ${TEAM_NAME_MAX_LENGTH} characters`
+  }
+  return null
+}
+
+// Owners and admins invite and remove people; only owners hand out the owner
+// role or change anyone's role
+export function canManageMembers(role: TeamRole): boolean {
+  return role === 'owner' || role === 'admin'
+}
+
+export function canAssignRole(actor: TeamRole, role: TeamRole): boolean {
+  return actor === 'owner' || (actor === 'admin' && role !== 'owner')
+}
+
+export function canRemoveMember(actor: TeamRole, target: TeamRole): boolean {
+  return actor === 'owner' || (actor === 'admin' && target === 'member')
+}
+
+// The team grid uses the five theme colors, spreading the team's size across
+// the four sick levels so the darkest square always means everyone (or nearly
+// everyone) was out
+const TEAM_LEVELS = 5
+
+export function toTeamIntensity(membersOut: number, sharingMembers: number): number {
+  if (membersOut <= 0 || sharingMembers <= 0) return 0
+  return Math.min(TEAM_LEVELS - 1, Math.ceil((membersOut * (TEAM_LEVELS - 1)) / sharingMembers))
+}
+
+// Legend and tooltip wording for the team grid, e.g. "3-4 of 8 out"
+export function getTeamScale(sharingMembers: number): IntensityScale {
+  const labels = Array.from({ length: TEAM_LEVELS }, (_, level) => {
+    if (level === 0) return 'Nobody out'
+
+    const counts: number[] = []
+    for (let out = 1; out <= sharingMembers; out++) {
+      if (toTeamIntensity(out, sharingMembers) === level) counts.push(out)
+    }
+    // Teams smaller than four skip some levels
+    if (counts.length === 0) return 'Not used by this team'
+
+    const first = counts[0]
+    const last = counts[counts.length - 1]
+    return `${first === last ? first : `${first}-${last}`} of ${sharingMembers} out`
+  })
+
+  return { levels: TEAM_LEVELS, labels }
+}
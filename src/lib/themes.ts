@@ -0,0 +1,130 @@
+// Color scales for the five intensity levels. Every place that paints a level
+// (grid squares, legends, stats, embeds) reads from here, so a theme only has
+// to be defined once. Colors are hex values rather than Tailwind classes so
+// server-rendered SVG and PNG output can use them too.
+
+export interface IntensityColor {
+  fill: string
+  border: string
+}
+
+export interface Theme {
+  id: string
+  name: string
+  // Index is the intensity level, 0 (not sick) to 4
+  light: readonly IntensityColor[]
+  dark: readonly IntensityColor[]
+}
+
+// Level 0 is the same neutral square in every theme
+const EMPTY_LIGHT: IntensityColor = { fill: '#f3f4f6', border: '#e5e7eb' }
+const EMPTY_DARK: IntensityColor = { fill: '#1f2937', border: '#374151' }
+
+export const THEMES = [
+  {
+    id: 'green',
+    name: 'Green',
+    light: [
+      EMPTY_LIGHT,
+      { fill: '#dcfce7', border: '#bbf7d0' },
+      { fill: '#bbf7d0', border: '#86efac' },
+      { fill: '#4ade80', border: '#22c55e' },
+      { fill: '#16a34a', border: '#15803d' },
+    ],
+    dark: [
+      EMPTY_DARK,
+      { fill: '#14532d', border: '#166534' },
+      { fill: '#166534', border: '#15803d' },
+      { fill: '#16a34a', border: '#22c55e' },
+      { fill: '#4ade80', border: '#86efac' },
+    ],
+  },
+  {
+    id: 'fever',
+    name: 'Fever',
+    light: [
+      EMPTY_LIGHT,
+      { fill: '#fee2e2', border: '#fecaca' },
+      { fill: '#fecaca', border: '#fca5a5' },
+      { fill: '#f87171', border: '#ef4444' },
+      { fill: '#dc2626', border: '#b91c1c' },
+    ],
+    dark: [
+      EMPTY_DARK,
+      { fill: '#7f1d1d', border: '#991b1b' },
+      { fill: '#991b1b', border: '#b91c1c' },
+      { fill: '#dc2626', border: '#ef4444' },
+      { fill: '#f87171', border: '#fca5a5' },
+    ],
+  },
+  {
+    // Viridis: ordered by lightness and distinguishable with any common
+    // form of color blindness, and in grayscale
+    id: 'colorblind',
+    name: 'Color-blind safe',
+    light: [
+      EMPTY_LIGHT,
+      { fill: '#fde725', border: '#e3cf1f' },
+      { fill: '#35b779', border: '#2a9461' },
+      { fill: '#31688e', border: '#275473' },
+      { fill: '#440154', border: '#2e003a' },
+    ],
+    dark: [
+      EMPTY_DARK,
+      { fill: '#440154', border: '#5c1a6e' },
+      { fill: '#31688e', border: '#4280ab' },
+      { fill: '#35b779', border: '#4fd191' },
+      { fill: '#fde725', border: '#fef08a' },
+    ],
+  },
+  {
+    id: 'ocean',
+    name: 'Ocean',
+    light: [
+      EMPTY_LIGHT,
+      { fill: '#dbeafe', border: '#bfdbfe' },
+      { fill: '#bfdbfe', border: '#93c5fd' },
+      { fill: '#60a5fa', border: '#3b82f6' },
+      { fill: '#2563eb', border: '#1d4ed8' },
+    ],
+    dark: [
+      EMPTY_DARK,
+      { fill: '#1e3a8a', border: '#1e40af' },
+      { fill: '#1e40af', border: '#1d4ed8' },
+      { fill: '#2563eb', border: '#3b82f6' },
+      { fill: '#60a5fa', border: '#93c5fd' },
+    ],
+  },
+] as const satisfies readonly Theme[]
+
+export type ThemeId = (typeof THEMES)[number]['id']
+
+export const DEFAULT_THEME: ThemeId = 'green'
+
+export function isThemeId(value: unknown): value is ThemeId {
+  return THEMES.some(theme => theme.id === value)
+}
+
+// Unknown or missing ids (users who never picked one) get the default
+export function getTheme(id: string | null | undefined): Theme {
+  return THEMES.find(theme => theme.id === id) ?? THEMES.find(theme => theme.id === DEFAULT_THEME)!
+}
+
+export function getIntensityColor(theme: Theme, intensity: number, dark = false): IntensityColor {
+  const scale = dark ? theme.dark : theme.light
+  return scale[intensity] ?? scale[0]
+}
+
+// Light or dark page, picked per device. 'system' follows the OS setting.
+export type ColorMode = 'system' | 'light' | 'dark'
+
+export const COLOR_MODES: { value: ColorMode; label: string }[] = [
+  { value: 'system', label: 'Match system' },
+  { value: 'light', label: 'Light' },
+  { value: 'dark', label: 'Dark' },
+]
+
+export const COLOR_MODE_STORAGE_KEY = 'sicksquares-color-mode'
+
+// Runs before the page paints so a dark page never flashes white first
+export const COLOR_MODE_SCRIPT = `(function(){try{var m=localStorage.getItem('${COLOR_MODE_STORAGE_KEY}');var d=m==='dark'||(m!=='light'&&window.matchMedia('(prefers-color-scheme: dark)').matches);document.documentElement.classList.toggle('dark',d)}catch(e){}})()`
@@ -0,0 +1,68 @@
+// Username rules shared by the settings API and the settings form
+
+export const USERNAME_MIN_LENGTH = 3
+export const USERNAME_MAX_LENGTH = 30
+
+// Lowercase letters, digits and single hyphens, no leading or trailing hyphen
+const USERNAME_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/
+
+// Names that would clash with app routes or could be used to impersonate staff
+export const RESERVED_USERNAMES = new Set([
+  'about',
+  'admin',
+  'api',
+  'app',
+  'auth',
+  'help',
+  'login',
+  'logout',
+  'me',
+  'new',
+  'privacy',
+  'root',
+  'settings',
+  'signin',
+  'signout',
+  'sicksquares',
+  'support',
+  'system',
+  'terms',
+  'u',
+  'user',
+  'users',
+])
+
+// Returns an error message, or null when the username is acceptable
+export function validateUsername(username: string): string | null {
+  if (username.length < USERNAME_MIN_LENGTH || username.length > USERNAME_MAX_LENGTH) {
+    return `Username must be between ${USERNAME_MIN_LENGTH} and ${USERNAME_MAX_LENGTH} characters`
+  }
+
+  if (!USERNAME_PATTERN.test(username)) {
+    return 'Username may only contain lowercase letters, numbers and single hyphens, and cannot start or end with a hyphen'
+  }
+
+  if (RESERVED_USERNAMES.has(username)) {
+    return 'That username is reserved'
+  }
+
+  return null
+}
+
+// Turns an email local-part or OAuth login into the closest username-shaped string.
+// The result may still be too short or reserved; callers validate or suffix it.
+export function toUsernameBase(raw: string): string {
+  return raw
+    .toLowerCase()
+    .replace(/[^a-z0-9-]/g, '-')
+    .replace(/-+/g, '-')
+    .replace(/^-|-$/g, '')
+    .slice(0, USERNAME_MAX_LENGTH)
+    .replace(/-$/, '')
+}
+
+// Appends a numeric suffix, trimming the base so the result stays within the length limit
+export function withUsernameSuffix(base: string, suffix: number): string {
+  const tail = `-${suffix}`
+  return `${base.slice(0, USERNAME_MAX_LENGTH - tail.length).replace(/-$/, '')}${tail}`
+}
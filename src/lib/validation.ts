@@ -0,0 +1,33 @@
+import { isValidDateKey } from './dates'
+
+export const MIN_INTENSITY = 0
+// Highest intensity the database accepts; a user's own scale may stop lower
+export const MAX_INTENSITY = 4
+
+// The rules every write to user_grids goes through, whether it comes from a
+// click, a batch or an import. Returns an error message, or null when valid.
+// `today` is the user's current date key, so future days can be refused, and
+// `maxIntensity` the top of the user's intensity scale.
+export function validateGridEntry(date: unknown, intensity: unknown, today: string, maxIntensity = MAX_INTENSITY): string | null {
+  // Validate required fields
+  if (!date || intensity === undefined || intensity === null) {
+    return 'Date and intensity are required'
+  }
+
+  // Validate intensity
+  if (typeof intensity !== 'number' || !Number.isInteger(intensity) || intensity < MIN_INTENSITY || intensity > maxIntensity) {
+    return `Intensity must be a number between ${MIN_INTENSITY} and ${maxIntensity}`
+  }
+
+  // Validate date format (YYYY-MM-DD)
+  if (typeof date !== 'string' || !isValidDateKey(date)) {
+    return 'Date must be in YYYY-MM-DD format'
+  }
+
+  // Prevent future dates; date keys compare correctly as strings
+  if (date > today) {
+    return 'Cannot modify future dates'
+  }
+
+  return null
+}
@@ -7,6 +7,13 @@ declare module "next-auth" {
       name?: string | null
       email?: string | null
       image?: string | null
+      login?: string | null
     }
   }
+}
+
+declare module "next-auth/jwt" {
+  interface JWT {
+    login?: string
+  }
 }
\ No newline at end of file